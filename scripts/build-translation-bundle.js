@@ -7,9 +7,21 @@
  * The bundle includes:
  * - translateChapter function
  * - translateText function
- * - All translation engines (Google, Microsoft Edge, DeepL)
- * - User-Agent rotation
- * - Caching system
+ * - translateNovel and translateNovels functions (novel metadata)
+ * - The translation engines, translator and translation memory of
+ *   src/translation, the same code the playground runs
+ * - HTML segmenter (used when a DOM is available)
+ * - HTML tokenizer (used without a DOM, htmlparser2 comes from the runtime)
+ *
+ * Each compiled module keeps its own exports; modules outside the bundle
+ * (htmlparser2, @libs/storage) are required from the plugin runtime
+ *
+ * Outputs:
+ * - translation-standalone(.min).js: sets the functions above as globals
+ * - translation-runtime.min.js: defines __createTranslationRuntime, which
+ *   returns a private copy of the library without touching globals. It is
+ *   injected into every plugin so each one keeps its own translation memory
+ *   in its own storage (see bundle-translation-into-plugins.js)
  */
 
 import fs from 'fs';
@@ -17,11 +29,15 @@ import path from 'path';
 import { execSync } from 'child_process';
 
 const DIST_DIR = '.dist';
-const TRANSLATION_BUNDLE_FILE = path.join(DIST_DIR, 'translation-bundle.js');
-const TRANSLATION_BUNDLE_MIN_FILE = path.join(
+const STANDALONE_FILE = path.join(DIST_DIR, 'translation-standalone.js');
+const STANDALONE_MIN_FILE = path.join(
   DIST_DIR,
-  'translation-bundle.min.js',
+  'translation-standalone.min.js',
 );
+const RUNTIME_FILE = path.join(DIST_DIR, 'translation-runtime.min.js');
+
+// Files written by this build, listed at the end
+const generatedFiles = [];
 
 // Ensure dist directory exists
 if (!fs.existsSync(DIST_DIR)) {
@@ -30,13 +46,9 @@ if (!fs.existsSync(DIST_DIR)) {
 
 console.log('📦 Building translation bundle for Android...\n');
 
-// Step 1: Read the standalone translation.ts file
-console.log('1️⃣ Reading translation source...');
+// Step 1: Compile the translation library and the engine system
+console.log('1️⃣ Compiling TypeScript to JavaScript...');
 
-// Step 2: Create standalone bundle from translation.ts
-console.log('2️⃣ Creating standalone bundle...');
-
-// Read the existing translation.ts which is already standalone-friendly
 const translationSourcePath = path.join(
   process.cwd(),
   'src/libs/translation.ts',
@@ -46,87 +58,95 @@ if (!fs.existsSync(translationSourcePath)) {
   process.exit(1);
 }
 
-// First, compile using TypeScript to get proper JavaScript output
-console.log('   Compiling TypeScript to JavaScript...');
-let translationCode = '';
+const COMPILED_DIR = path.join(process.cwd(), '.js/translation-temp');
+const ENTRY_MODULE = 'libs/translation';
+
 try {
   execSync(`npx tsc --project tsconfig.translation-bundle.json`, {
     stdio: 'inherit',
   });
+} catch (error) {
+  console.error('❌ TypeScript compilation failed');
+  process.exit(1);
+}
 
-  // Read the compiled JavaScript instead of the TypeScript source
-  const compiledPath = path.join(
-    process.cwd(),
-    '.js/translation-temp/libs/translation.js',
-  );
-  const translationDir = path.join(
-    process.cwd(),
-    '.js/translation-temp/translation',
-  );
+// Step 2: Collect the modules the library imports
+console.log('2️⃣ Creating standalone bundle...');
 
-  if (fs.existsSync(compiledPath)) {
-    // Read all necessary compiled files
-    const filesToInclude = [
-      path.join(translationDir, 'translator.js'),
-      path.join(translationDir, 'cache.js'),
-      path.join(translationDir, 'engines', 'index.js'),
-      path.join(translationDir, 'engines', 'base.js'),
-      path.join(translationDir, 'engines', 'google.js'),
-      path.join(translationDir, 'engines', 'microsoft-edge.js'),
-      path.join(translationDir, 'engines', 'deepl.js'),
-      path.join(translationDir, 'utils', 'user-agents.js'),
-      compiledPath, // translation.js last
-    ];
-
-    // Simply concatenate all files - we'll wrap them in a CommonJS shim
-    const codeParts = [];
-    let firstFile = true;
-    for (const filePath of filesToInclude) {
-      if (fs.existsSync(filePath)) {
-        let fileCode = fs.readFileSync(filePath, 'utf-8');
-        // Remove "use strict"; from all files except the first one
-        // (we'll add it once in the wrapper)
-        if (!firstFile) {
-          fileCode = fileCode.replace(/^['"]use strict['"];?\s*/m, '');
-        }
-        firstFile = false;
-        codeParts.push(fileCode);
-      }
+/**
+ * Module ID (path from the compiled root, without extension) of a relative
+ * require, or null when it is not a compiled file
+ */
+function resolveModule(fromId, request) {
+  const base = path.posix.join(path.posix.dirname(fromId), request);
+  for (const id of [base, `${base}/index`]) {
+    if (fs.existsSync(path.join(COMPILED_DIR, `${id}.js`))) {
+      return id;
     }
+  }
+  return null;
+}
 
-    translationCode = codeParts.join('\n\n');
-    console.log('   ✅ Using compiled JavaScript code');
-  } else {
-    throw new Error('Compiled code not found');
+// Module ID -> compiled code with relative requires rewritten to module IDs
+const modules = {};
+const pending = [ENTRY_MODULE];
+while (pending.length > 0) {
+  const id = pending.pop();
+  if (modules[id] !== undefined) {
+    continue;
   }
-} catch (error) {
-  console.warn('   ⚠️  TypeScript compilation failed, using source conversion');
-  // Fallback: read source and convert manually
-  let sourceCode = fs.readFileSync(translationSourcePath, 'utf-8');
-  translationCode = sourceCode
-    .replace(/export\s+(async\s+)?function/g, '$1function')
-    .replace(/export\s+/g, '')
-    .replace(/\)\s*:\s*[^{]+?\s*\{/g, ') {')
-    .replace(/:\s*string\s*=/g, '=')
-    .replace(/:\s*boolean\s*=/g, '=')
-    .replace(/:\s*Promise<string>/g, '')
-    .replace(/:\s*string(?![,=)])/g, '')
-    .replace(/:\s*number(?![,=)])/g, '')
-    .replace(/:\s*any\[\](?![,=)])/g, '')
-    .replace(/:\s*any(?![,=)])/g, '')
-    .replace(/:\s*\[\](?![,=)])/g, '')
-    .replace(/:\s*\{[^}]+\}(?![,=)])/g, '')
-    .replace(/Array<\{[^}]+\}>/g, '[]')
-    .replace(/Record<string,\s*string>/g, '{}')
-    .replace(/const\s+(\w+)\s*:\s*[^=]+=\s*/g, 'const $1 = ')
-    .replace(/let\s+(\w+)\s*:\s*[^=]+=\s*/g, 'let $1 = ')
-    .replace(/var\s+(\w+)\s*:\s*[^=]+=\s*/g, 'var $1 = ')
-    .replace(/,\s*,/g, ',')
-    .replace(/const\s+(\w+)\s*,/g, 'const $1,')
-    .replace(/let\s+(\w+)\s*,/g, 'let $1,')
-    .replace(/var\s+(\w+)\s*,/g, 'var $1,');
+  const code = fs.readFileSync(path.join(COMPILED_DIR, `${id}.js`), 'utf-8');
+  modules[id] = code.replace(
+    /require\((['"])(\.{1,2}\/[^'"]+)\1\)/g,
+    (match, quote, request) => {
+      const resolved = resolveModule(id, request);
+      if (!resolved) {
+        console.error(`❌ Cannot resolve ${request} from ${id}`);
+        process.exit(1);
+      }
+      pending.push(resolved);
+      return `require(${JSON.stringify(resolved)})`;
+    },
+  );
 }
 
+const moduleIds = Object.keys(modules).sort();
+console.log(`   ✅ Bundled ${moduleIds.length} modules`);
+
+const moduleDefinitions = moduleIds
+  .map(
+    id =>
+      `  definitions[${JSON.stringify(id)}] = function (module, exports, require) {\n${modules[id]}\n  };`,
+  )
+  .join('\n\n');
+
+// Creates the library with its own modules, so every caller gets its own
+// translation memory. Modules outside the bundle come from externalRequire
+const runtimeFactory = `var __createTranslationRuntime = function (externalRequire) {
+  'use strict';
+
+  // Compiled CommonJS modules by module ID, loaded on first require
+  var definitions = {};
+  var loaded = {};
+
+${moduleDefinitions}
+
+  // Bundled modules are required by ID, anything else comes from the
+  // runtime's require (htmlparser2 and @libs/storage in plugins)
+  function require(id) {
+    if (!definitions[id]) {
+      return externalRequire ? externalRequire(id) : {};
+    }
+    if (!loaded[id]) {
+      loaded[id] = { exports: {} };
+      definitions[id](loaded[id], loaded[id].exports, require);
+    }
+    return loaded[id].exports;
+  }
+
+  return require(${JSON.stringify(ENTRY_MODULE)});
+};`;
+
 // Wrap in IIFE and add exports
 const standaloneBundle = `/**
  * LNReader Translation Bundle
@@ -141,89 +161,111 @@ const standaloneBundle = `/**
  * Generated: ${new Date().toISOString()}
  */
 
-(function(global) {
+(function(global, externalRequire) {
   'use strict';
-  
-  // CommonJS shim for compiled code
-  var module = { exports: {} };
-  var exports = module.exports;
-  
-  // Simple require shim (returns empty object for dependencies)
-  function require(name) {
-    return {};
-  }
-  
-${translationCode}
 
-  // Extract functions from module.exports (they were exported by compiled code)
-  var translateChapter = module.exports.translateChapter;
-  var translateText = module.exports.translateText;
+${runtimeFactory}
+
+  var library = __createTranslationRuntime(externalRequire);
+  var translateChapter = library.translateChapter;
+  var translateText = library.translateText;
+  var translateNovel = library.translateNovel;
+  var translateNovels = library.translateNovels;
   
   if (!translateChapter || !translateText) {
-    console.error('Translation functions not found in bundle. module.exports:', Object.keys(module.exports));
+    console.error('Translation functions not found in bundle. exports:', Object.keys(library));
   }
   
   // Make functions available globally for plugins
   if (typeof global !== 'undefined') {
     global.translateChapter = translateChapter;
     global.translateText = translateText;
+    global.translateNovel = translateNovel;
+    global.translateNovels = translateNovels;
     global.__translateChapter = translateChapter; // For plugin wrapper
   }
   
   if (typeof window !== 'undefined') {
     window.translateChapter = translateChapter;
     window.translateText = translateText;
+    window.translateNovel = translateNovel;
+    window.translateNovels = translateNovels;
     window.__translateChapter = translateChapter; // For plugin wrapper
   }
-})(typeof global !== 'undefined' ? global : typeof window !== 'undefined' ? window : this);
+})(
+  typeof global !== 'undefined' ? global : typeof window !== 'undefined' ? window : this,
+  typeof require === 'function' ? require : undefined
+);
 `;
 
-const standalonePath = path.join(DIST_DIR, 'translation-standalone.js');
-fs.writeFileSync(standalonePath, standaloneBundle, 'utf-8');
-console.log(`✅ Standalone bundle created: ${standalonePath}`);
+/**
+ * Write a generated file and record it for the summary
+ */
+function writeOutput(file, code, label) {
+  fs.writeFileSync(file, code, 'utf-8');
+  generatedFiles.push(file);
+  console.log(`✅ ${label} created: ${file}`);
+}
+
+writeOutput(STANDALONE_FILE, standaloneBundle, 'Standalone bundle');
 
-// Step 3: Minify standalone version
+// Step 3: Minify the standalone bundle and the plugin runtime
 console.log('\n3️⃣ Minifying bundle...');
-try {
-  const { minify_sync } = await import('terser');
-  const result = minify_sync(standaloneBundle, {
-    compress: {
-      arrows: false,
-      drop_console: false, // Keep console for debugging
-    },
-    mangle: {
-      reserved: ['translateChapter', 'translateText', 'isTranslationAvailable'],
-    },
-    ecma: 5,
-  });
+const { minify_sync } = await import('terser');
 
-  if (result.code) {
-    const standaloneMinPath = path.join(
-      DIST_DIR,
-      'translation-standalone.min.js',
-    );
-    fs.writeFileSync(standaloneMinPath, result.code, 'utf-8');
-    const originalSize = (standaloneBundle.length / 1024).toFixed(2);
-    const minifiedSize = (result.code.length / 1024).toFixed(2);
-    console.log(`✅ Minified bundle created: ${standaloneMinPath}`);
-    console.log(
-      `   Original: ${originalSize} KB → Minified: ${minifiedSize} KB`,
-    );
-  } else {
-    console.warn('⚠️  Minification produced no output');
+/**
+ * Minified code, or null when terser fails
+ */
+function minify(code) {
+  try {
+    const result = minify_sync(code, {
+      compress: {
+        arrows: false,
+        drop_console: false, // Keep console for debugging
+      },
+      mangle: {
+        reserved: [
+          '__createTranslationRuntime',
+          'translateChapter',
+          'translateText',
+          'translateNovel',
+          'translateNovels',
+          'isTranslationAvailable',
+        ],
+      },
+      ecma: 5,
+    });
+    return result.code || null;
+  } catch (error) {
+    console.warn('⚠️  Minification failed:', error.message);
+    return null;
   }
-} catch (error) {
-  console.warn('⚠️  Minification failed:', error.message);
-  console.log('   Using unminified bundle');
 }
 
+const standaloneMin = minify(standaloneBundle);
+if (standaloneMin) {
+  writeOutput(STANDALONE_MIN_FILE, standaloneMin, 'Minified bundle');
+  const originalSize = (standaloneBundle.length / 1024).toFixed(2);
+  const minifiedSize = (standaloneMin.length / 1024).toFixed(2);
+  console.log(`   Original: ${originalSize} KB → Minified: ${minifiedSize} KB`);
+}
+
+// Plugins embed the runtime, an unminified one still works
+const runtimeMin = minify(runtimeFactory);
+if (!runtimeMin) {
+  console.log('   Using the unminified plugin runtime');
+}
+writeOutput(RUNTIME_FILE, runtimeMin || runtimeFactory, 'Plugin runtime');
+
 console.log('\n✅ Translation bundle build complete!');
 console.log('\n📁 Generated files:');
-console.log(`   - ${TRANSLATION_BUNDLE_FILE}`);
-console.log(`   - ${TRANSLATION_BUNDLE_MIN_FILE}`);
-console.log(`   - ${path.join(DIST_DIR, 'translation-standalone.js')}`);
-console.log(`   - ${path.join(DIST_DIR, 'translation-standalone.min.js')}`);
+generatedFiles.forEach(file => console.log(`   - ${file}`));
 console.log('\n📖 Next steps:');
 console.log('   1. Include translation-standalone.min.js in your Android app');
 console.log('   2. Load it before loading plugins');
-console.log('   3. Plugins can use translateChapter() and translateText()');
+console.log(
+  '   3. Plugins can use translateChapter(), translateText(), translateNovel() and translateNovels()',
+);
+console.log(
+  '   4. Run "npm run build:bundle-translation" to embed the runtime in the compiled plugins',
+);
@@ -5,240 +5,464 @@
  * It wraps the parseChapter method to translate content automatically.
  *
  * This allows ALL plugins to translate chapters without modifying each one individually.
+ *
+ * Plugins are parsed with the TypeScript compiler, so methods are found and
+ * wrapped whatever their body contains. Every instrumented plugin is evaluated
+ * afterwards; plugins that could not be instrumented keep their original code
+ * and are listed in the report.
+ *
+ * parseNovel, popularNovels and searchNovels are wrapped too; their novel
+ * names, summaries, genres and chapter names are translated when the plugin's
+ * autoTranslateMetadata setting is on.
+ *
+ * Every plugin gets the minified translation runtime in its module scope: its
+ * translation memory lives in the plugin's own storage and nothing is shared
+ * with other plugins through globals.
+ *
+ * Usage: node scripts/bundle-translation-into-plugins.js
  */
 
 import fs from 'fs';
 import path from 'path';
+import vm from 'vm';
+import ts from 'typescript';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-const TRANSLATION_BUNDLE_MIN = path.resolve(
+const TRANSLATION_RUNTIME_FILE = path.resolve(
   __dirname,
-  '../.dist/translation-standalone.min.js',
+  '../.dist/translation-runtime.min.js',
 );
-const TRANSLATION_BUNDLE = path.resolve(
+const COMPILED_PLUGIN_DIR = path.resolve(__dirname, '../.js/plugins');
+const REPORT_FILE = path.resolve(
   __dirname,
-  '../.dist/translation-standalone.js',
+  '../translation-instrumentation-report.json',
 );
-const COMPILED_PLUGIN_DIR = path.resolve(__dirname, '../.js/plugins');
+
+const WRAPPER_MARKER = '// Auto-translation wrapper';
+const WRAPPED_METHODS = [
+  'parseChapter',
+  'parseNovel',
+  'popularNovels',
+  'searchNovels',
+];
 
 let jsTranslationCode = '';
 
-// Always use unminified code to avoid syntax errors
-const bundlePath = TRANSLATION_BUNDLE;
+// Settings added to every plugin, read by the wrapper from the plugin's own
+// storage. Defaults keep the previous behaviour (always translate to Spanish)
+const TRANSLATION_SETTINGS = {
+  autoTranslate: {
+    value: true,
+    label: 'Translate chapters automatically',
+    type: 'Switch',
+  },
+  autoTranslateLanguage: {
+    value: 'es',
+    label: 'Translation language (es, en, fr...)',
+    type: 'Text',
+  },
+  autoTranslateEngines: {
+    value: 'Google(Free),MicrosoftEdge(Free)',
+    label: 'Translation engines, comma separated, in order',
+    type: 'Text',
+  },
+  autoTranslateMetadata: {
+    value: false,
+    label: 'Translate novel names, summaries and chapter names',
+    type: 'Switch',
+  },
+};
+
+// Reads the settings above, falling back to their defaults when the user
+// never changed them or the runtime has no plugin storage
+const SETTINGS_READER = `
+function __autoTranslateSettings() {
+  var defaults = ${JSON.stringify(TRANSLATION_SETTINGS)};
+  var read = function(key) {
+    try {
+      var stored = require('@libs/storage').storage.get(key);
+      return stored === undefined || stored === null || stored === ''
+        ? defaults[key].value
+        : stored;
+    } catch (e) {
+      return defaults[key].value;
+    }
+  };
+  var enabled = read('autoTranslate');
+  var metadata = read('autoTranslateMetadata');
+  return {
+    enabled: enabled !== false && enabled !== 'false',
+    metadata: metadata === true || metadata === 'true',
+    targetLanguage: String(read('autoTranslateLanguage')).trim() || 'es',
+    engines: String(read('autoTranslateEngines'))
+      .split(',')
+      .map(function(name) { return name.trim(); })
+      .filter(function(name) { return name; }),
+  };
+}
+`;
+
+// Translates what a wrapped method resolves to. Only the method the plugin
+// instance resolves translates: a subclass calling its parent's method through
+// super gets the original result and is translated once
+const TRANSLATION_RUNTIME = `
+function __autoTranslateMethod(method, fn) {
+  var wrapped = function() {
+    var result = fn.apply(this, arguments);
+    return !this || this[method] === wrapped
+      ? __autoTranslateResult(method, result, this, arguments)
+      : result;
+  };
+  return wrapped;
+}
+
+function __autoTranslateResult(method, result, plugin, args) {
+  return Promise.resolve(result).then(function(value) {
+    var runtime = __autoTranslateLibrary || {};
+    var settings = __autoTranslateSettings();
+    if (!settings.enabled || !value) {
+      return value;
+    }
+    if (method === 'parseChapter') {
+      if (typeof value !== 'string' || !value.trim() || !runtime.translateChapter) {
+        return value;
+      }
+      return runtime.translateChapter(value, settings.targetLanguage, true, settings.engines)
+        .catch(function() {
+          console.warn('Auto-translation failed, returning original');
+          return value;
+        });
+    }
+    // Novel metadata, cached per novel for parseNovel and per plugin for
+    // popularNovels and searchNovels
+    if (!settings.metadata || typeof value !== 'object') {
+      return value;
+    }
+    var pluginId = plugin && plugin.id;
+    var translated = method === 'parseNovel'
+      ? runtime.translateNovel && runtime.translateNovel(value, settings.targetLanguage, true, settings.engines, { pluginId: pluginId, novelPath: args && args[0] })
+      : Array.isArray(value) && runtime.translateNovels && runtime.translateNovels(value, settings.targetLanguage, true, settings.engines, { pluginId: pluginId });
+    return translated
+      ? translated.catch(function() {
+          console.warn('Metadata translation failed, returning original');
+          return value;
+        })
+      : value;
+  });
+}
+`;
+
+// Private copy of the translation library for the plugin, created with the
+// plugin's require so its memory is kept in the plugin's storage. A runtime
+// that fails to load leaves the plugin untranslated instead of broken
+const RUNTIME_LOADER = `
+var __autoTranslateLibrary = (function() {
+  try {
+    return __createTranslationRuntime(typeof require === 'function' ? require : undefined);
+  } catch (e) {
+    console.warn('Translation runtime failed to load', e);
+    return null;
+  }
+})();
+`;
 
 try {
-  // Read the standalone bundle directly - it's already wrapped in an IIFE
-  // We'll inject it as-is, wrapped in another IIFE to ensure isolation
-  jsTranslationCode = fs.readFileSync(bundlePath, 'utf-8');
-  console.log(`📦 Using translation bundle: ${path.basename(bundlePath)}`);
+  jsTranslationCode = fs.readFileSync(TRANSLATION_RUNTIME_FILE, 'utf-8');
+  console.log(
+    `📦 Using translation runtime: ${path.basename(TRANSLATION_RUNTIME_FILE)}`,
+  );
 } catch (error) {
-  console.error(`❌ Failed to read translation bundle: ${bundlePath}`, error);
+  console.error(
+    `❌ Failed to read translation runtime: ${TRANSLATION_RUNTIME_FILE}`,
+    error,
+  );
   console.log('   Run "npm run build:translation-bundle" first');
   process.exit(1);
 }
 
 /**
- * Wraps parseChapter method to automatically translate content
- * Uses a simpler approach: intercepts return statements
+ * Definitions of a method: ES5 `X.prototype.name = function` and
+ * `this.name = function` assignments, or class methods
  */
-function wrapParseChapterWithTranslation(pluginCode, pluginPath) {
-  // Check if plugin has parseChapter method (look for common patterns)
-  // Pattern 1: ClassName.prototype.parseChapter = function(...)
-  // Pattern 2: async parseChapter(...) { (TypeScript/ES6)
-  const hasParseChapter =
-    /\.prototype\.parseChapter\s*=\s*function\s*\(/.test(pluginCode) ||
-    /(async\s+)?parseChapter\s*\(/.test(pluginCode);
-
-  if (!hasParseChapter) {
-    return pluginCode;
-  }
-
-  // Check if already has auto-translation
-  if (
-    pluginCode.includes('// Auto-translation wrapper') ||
-    pluginCode.includes('__autoTranslateResult')
-  ) {
-    return pluginCode; // Already processed
-  }
-
-  // Pattern for compiled JavaScript: ClassName.prototype.parseChapter = function(chapterPath) {
-  const prototypePattern =
-    /(\w+\.prototype\.parseChapter\s*=\s*function\s*\([^)]*\)\s*\{)/;
-  const prototypeMatch = pluginCode.match(prototypePattern);
-
-  let methodStart, methodSignature, match;
-
-  if (prototypeMatch) {
-    // Compiled JavaScript format (ES5)
-    methodStart = prototypeMatch.index;
-    methodSignature = prototypeMatch[1];
-    match = prototypeMatch;
-  } else {
-    // Try TypeScript/ES6 format: async parseChapter(...) { ... }
-    const methodRegex =
-      /((?:async\s+)?parseChapter\s*\([^)]*\)\s*:\s*Promise<string>\s*\{)/;
-    const methodMatch = pluginCode.match(methodRegex);
-    if (!methodMatch) {
-      return pluginCode;
-    }
-    methodStart = methodMatch.index;
-    methodSignature = methodMatch[1];
-    match = methodMatch;
-  }
-
-  // Find the matching closing brace
-  let braceCount = 1;
-  let inString = false;
-  let stringChar = '';
-  let i = methodStart + match[0].length;
-  let methodEnd = -1;
-
-  for (; i < pluginCode.length; i++) {
-    const char = pluginCode[i];
-    const prevChar = i > 0 ? pluginCode[i - 1] : '';
-
-    if (!inString && (char === '"' || char === "'" || char === '`')) {
-      inString = true;
-      stringChar = char;
-    } else if (inString && char === stringChar && prevChar !== '\\') {
-      inString = false;
-    }
-
-    if (!inString) {
-      if (char === '{') braceCount++;
-      if (char === '}') {
-        braceCount--;
-        if (braceCount === 0) {
-          methodEnd = i + 1;
-          break;
-        }
+function findMethodDefinitions(sourceFile, name) {
+  const found = [];
+  const visit = node => {
+    if (
+      ts.isBinaryExpression(node) &&
+      node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      ts.isPropertyAccessExpression(node.left) &&
+      node.left.name.text === name &&
+      (ts.isFunctionExpression(node.right) || ts.isArrowFunction(node.right))
+    ) {
+      const target = node.left.expression;
+      if (
+        target.kind === ts.SyntaxKind.ThisKeyword ||
+        (ts.isPropertyAccessExpression(target) &&
+          target.name.text === 'prototype')
+      ) {
+        found.push({ kind: 'assignment', node: node.right });
       }
+    } else if (
+      ts.isMethodDeclaration(node) &&
+      node.body &&
+      ts.isIdentifier(node.name) &&
+      node.name.text === name &&
+      ts.isClassLike(node.parent)
+    ) {
+      found.push({
+        kind: 'method',
+        node,
+        className: node.parent.name && node.parent.name.text,
+      });
     }
-  }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
 
-  if (methodEnd === -1) {
-    return pluginCode;
+/**
+ * Replacement of a definition so its result goes through the runtime
+ * Assigned functions are wrapped whole; class method bodies run unchanged in
+ * an arrow function, which keeps `this`, `arguments` and `super`
+ */
+function wrapDefinition(definition, name, code) {
+  const { node } = definition;
+  if (definition.kind === 'assignment') {
+    const functionText = code.substring(node.getStart(), node.end);
+    return {
+      start: node.getStart(),
+      end: node.end,
+      text: `__autoTranslateMethod('${name}', ${functionText})`,
+    };
   }
 
-  // Extract method body
-  const methodBody = pluginCode.substring(
-    methodStart + match[0].length,
-    methodEnd - 1,
+  const isAsync = (node.modifiers || []).some(
+    modifier => modifier.kind === ts.SyntaxKind.AsyncKeyword,
   );
+  const bodyText = code.substring(node.body.getStart(), node.body.end);
+  // Methods of anonymous classes cannot tell a super call apart
+  const ownMethod = definition.className
+    ? `this.${name} === ${definition.className}.prototype.${name}`
+    : 'true';
+  return {
+    start: node.body.getStart(),
+    end: node.body.end,
+    text: `{
+    ${WRAPPER_MARKER}
+    var __result = (${isAsync ? 'async ' : ''}() => ${bodyText})();
+    return ${ownMethod} ? __autoTranslateResult('${name}', __result, this, arguments) : __result;
+  }`,
+  };
+}
 
-  // Extract parameter name from method signature
-  const paramMatch = methodSignature.match(/\(([^)]+)\)/);
-  const params = paramMatch ? paramMatch[1] : 'chapterPath';
+/**
+ * Wrap the methods of a compiled plugin
+ * @returns the instrumented code, or throws with the reason it failed
+ */
+function instrumentPlugin(pluginCode, pluginPath) {
+  try {
+    new vm.Script(pluginCode, { filename: pluginPath });
+  } catch (error) {
+    throw new Error(`could not be parsed: ${error.message}`);
+  }
 
-  // Wrap the method - preserve original structure but add translation wrapper
-  // The method body already uses __awaiter/__generator, so we wrap it properly
-  const wrappedMethod = `${methodSignature}
-    var __self = this;
-    var __originalMethod = function(${params}) {
-      ${methodBody}
-    };
-    
-    return __awaiter(__self, void 0, void 0, function() {
-      var __originalResult, __translatedResult;
-      return __generator(__self, function(_a) {
-        switch (_a.label) {
-          case 0:
-            return [4, __originalMethod(${params})];
-          case 1:
-            __originalResult = _a.sent();
-            if (!(__originalResult && typeof __originalResult === 'string' && __originalResult.trim())) {
-              return [2, __originalResult];
-            }
-            _a.label = 2;
-          case 2:
-            _a.trys.push([2, 4, , 5]);
-            if (typeof window !== 'undefined' && window.__translateChapter) {
-              return [4, window.__translateChapter(__originalResult, 'es', true)];
-            }
-            // Fallback: return original if translation not available
-            return [2, __originalResult];
-          case 3:
-            __translatedResult = _a.sent();
-            return [2, __translatedResult];
-          case 4:
-            _a.sent();
-            console.warn('Auto-translation failed, returning original');
-            return [2, __originalResult];
-          case 5:
-            return [2];
-        }
-      });
+  const sourceFile = ts.createSourceFile(
+    pluginPath,
+    pluginCode,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.JS,
+  );
+
+  const edits = [];
+  WRAPPED_METHODS.forEach(name => {
+    const definitions = findMethodDefinitions(sourceFile, name);
+    if (name === 'parseChapter' && definitions.length === 0) {
+      throw new Error('parseChapter definition not found');
+    }
+    definitions.forEach(definition => {
+      edits.push(wrapDefinition(definition, name, pluginCode));
     });
-  }`;
+  });
 
-  // The translation code is already ES5 compatible (compiled from TypeScript)
-  // No need to convert it
-  let es5TranslationCode = jsTranslationCode;
+  // From the end of the file so earlier offsets stay valid
+  let modifiedCode = pluginCode;
+  edits
+    .sort((a, b) => b.start - a.start)
+    .forEach(edit => {
+      modifiedCode =
+        modifiedCode.substring(0, edit.start) +
+        edit.text +
+        modifiedCode.substring(edit.end);
+    });
 
   // Inject translation code at the beginning of the file (after "use strict" if present)
-  let modifiedCode = pluginCode;
   const useStrictMatch = modifiedCode.match(/("use strict";\s*)/);
   const injectPosition = useStrictMatch
     ? useStrictMatch.index + useStrictMatch[0].length
     : 0;
 
-  // Check if translation code already injected
-  if (!modifiedCode.includes('window.__translateChapter')) {
-    // The bundle is already wrapped in an IIFE, so we just inject it directly
-    // It will execute and make window.__translateChapter available
-    const translationWrapper = `
+  // Declarations stay in the plugin's module scope, other plugins never see them
+  const translationWrapper = `
 // === Auto-translation code ===
-${es5TranslationCode}
+${jsTranslationCode}
+${RUNTIME_LOADER}
+${SETTINGS_READER}
+${TRANSLATION_RUNTIME}
 // === End auto-translation code ===
 
 `;
-    modifiedCode =
-      modifiedCode.substring(0, injectPosition) +
-      translationWrapper +
-      modifiedCode.substring(injectPosition);
+  modifiedCode =
+    modifiedCode.substring(0, injectPosition) +
+    translationWrapper +
+    modifiedCode.substring(injectPosition);
+
+  // Surface the settings in the app next to the plugin's own settings
+  modifiedCode += `
+// === Auto-translation settings ===
+if (exports.default) {
+  exports.default.pluginSettings = Object.assign(
+    {},
+    exports.default.pluginSettings,
+    ${JSON.stringify(TRANSLATION_SETTINGS)}
+  );
+}
+`;
+
+  return modifiedCode;
+}
+
+/**
+ * Stand-in for every module a plugin requires: any property or call returns
+ * another stand-in, `storage.get` returns nothing
+ */
+const createModuleStub = () => {
+  const cache = {};
+  return new Proxy(
+    function () {
+      return undefined;
+    },
+    {
+      get(target, prop) {
+        if (prop === 'get') {
+          return () => undefined;
+        }
+        if (prop === Symbol.toPrimitive) {
+          return () => '';
+        }
+        if (!cache[prop]) {
+          cache[prop] = createModuleStub();
+        }
+        return cache[prop];
+      },
+      apply: () => createModuleStub(),
+      construct: () => createModuleStub(),
+    },
+  );
+};
+
+const silent = () => undefined;
+
+/**
+ * Evaluate a compiled plugin in a sandbox and return its default export
+ */
+function evaluatePlugin(code, pluginPath) {
+  const module = { exports: {} };
+  const sandbox = {
+    module,
+    exports: module.exports,
+    require: () => createModuleStub(),
+    console: { log: silent, warn: silent, error: silent, info: silent },
+    window: {},
+    setTimeout,
+    clearTimeout,
+  };
+  vm.runInNewContext(code, sandbox, { filename: pluginPath, timeout: 2000 });
+  return module.exports.default;
+}
+
+/**
+ * Check that an instrumented plugin still evaluates and exposes its
+ * wrapped methods and settings. Plugins whose original code does not
+ * evaluate in the sandbox are only checked for syntax errors.
+ */
+function verifyPlugin(originalCode, modifiedCode, pluginPath) {
+  try {
+    new vm.Script(modifiedCode, { filename: pluginPath });
+  } catch (error) {
+    throw new Error(`output does not parse: ${error.message}`);
   }
 
-  const beforeMethod = modifiedCode.substring(0, methodStart);
-  const afterMethod = modifiedCode.substring(methodEnd);
-  modifiedCode = beforeMethod + wrappedMethod + afterMethod;
+  try {
+    evaluatePlugin(originalCode, pluginPath);
+  } catch {
+    return;
+  }
 
-  console.log(`   ✅ ${path.basename(pluginPath)} - Auto-translation enabled`);
-  return modifiedCode;
+  let plugin;
+  try {
+    plugin = evaluatePlugin(modifiedCode, pluginPath);
+  } catch (error) {
+    throw new Error(`output does not evaluate: ${error.message}`);
+  }
+  if (!plugin || typeof plugin.parseChapter !== 'function') {
+    throw new Error('output has no parseChapter method');
+  }
+  if (!plugin.pluginSettings || !plugin.pluginSettings.autoTranslate) {
+    throw new Error('output has no translation settings');
+  }
+}
+
+/**
+ * Instrument one compiled plugin file and record the outcome
+ */
+function processPluginFile(fullPath, report) {
+  const relativePath = path.relative(COMPILED_PLUGIN_DIR, fullPath);
+  const pluginCode = fs.readFileSync(fullPath, 'utf-8');
+  report.total++;
+
+  // Check if already has auto-translation
+  if (
+    pluginCode.includes(WRAPPER_MARKER) ||
+    pluginCode.includes('__autoTranslateResult')
+  ) {
+    report.alreadyInstrumented++;
+    return;
+  }
+
+  try {
+    const modifiedCode = instrumentPlugin(pluginCode, fullPath);
+    verifyPlugin(pluginCode, modifiedCode, fullPath);
+    fs.writeFileSync(fullPath, modifiedCode, 'utf-8');
+    report.instrumented++;
+    console.log(`   ✅ ${relativePath} - Auto-translation enabled`);
+  } catch (error) {
+    report.failed.push({ plugin: relativePath, reason: error.message });
+    console.warn(`   ⚠️  ${relativePath} - ${error.message}`);
+  }
 }
 
 /**
  * Recursively processes all compiled plugins in a directory.
  * @param {string} directory The directory to scan for plugins.
- * @param {number} [depth=0] Current recursion depth for logging.
- * @returns {number} The number of plugins that had translation code bundled.
+ * @param {object} report Outcome counters and failures, updated in place.
  */
-function processPluginsInDirectory(directory, depth = 0) {
-  let bundledCount = 0;
-  const files = fs.readdirSync(directory);
-
-  files.forEach(file => {
+function processPluginsInDirectory(directory, report) {
+  fs.readdirSync(directory).forEach(file => {
     const fullPath = path.join(directory, file);
     const stat = fs.statSync(fullPath);
 
     if (stat.isDirectory()) {
-      bundledCount += processPluginsInDirectory(fullPath, depth + 1);
+      processPluginsInDirectory(fullPath, report);
     } else if (file.endsWith('.js')) {
-      let pluginCode = fs.readFileSync(fullPath, 'utf-8');
-      const originalCode = pluginCode;
-
-      pluginCode = wrapParseChapterWithTranslation(pluginCode, fullPath);
-
-      if (pluginCode !== originalCode) {
-        fs.writeFileSync(fullPath, pluginCode, 'utf-8');
-        bundledCount++;
-      }
+      processPluginFile(fullPath, report);
     }
   });
-  return bundledCount;
 }
 
 /**
@@ -246,6 +470,7 @@ function processPluginsInDirectory(directory, depth = 0) {
  */
 function processPlugins() {
   console.log('📦 Enabling auto-translation for ALL plugins...\n');
+  console.log(`   Wrapping: ${WRAPPED_METHODS.join(', ')}\n`);
 
   if (!fs.existsSync(COMPILED_PLUGIN_DIR)) {
     console.error(
@@ -255,55 +480,46 @@ function processPlugins() {
     process.exit(1);
   }
 
-  let totalPlugins = 0;
-  let pluginsWithTranslation = 0;
-
-  // Process plugins directly in the root of COMPILED_PLUGIN_DIR
-  const rootFiles = fs.readdirSync(COMPILED_PLUGIN_DIR);
-  rootFiles.forEach(file => {
-    const fullPath = path.join(COMPILED_PLUGIN_DIR, file);
-    if (fs.statSync(fullPath).isFile() && file.endsWith('.js')) {
-      totalPlugins++;
-      let pluginCode = fs.readFileSync(fullPath, 'utf-8');
-      const originalCode = pluginCode;
-      pluginCode = wrapParseChapterWithTranslation(pluginCode, fullPath);
-      if (pluginCode !== originalCode) {
-        fs.writeFileSync(fullPath, pluginCode, 'utf-8');
-        pluginsWithTranslation++;
-      }
-    }
-  });
+  const report = {
+    total: 0,
+    instrumented: 0,
+    alreadyInstrumented: 0,
+    failed: [],
+  };
+  processPluginsInDirectory(COMPILED_PLUGIN_DIR, report);
 
-  // Process plugins in language subdirectories
-  const languageDirs = fs
-    .readdirSync(COMPILED_PLUGIN_DIR, { withFileTypes: true })
-    .filter(dirent => dirent.isDirectory())
-    .map(dirent => path.join(COMPILED_PLUGIN_DIR, dirent.name));
-
-  languageDirs.forEach(langDir => {
-    const langPlugins = fs.readdirSync(langDir);
-    langPlugins.forEach(file => {
-      const fullPath = path.join(langDir, file);
-      if (fs.statSync(fullPath).isFile() && file.endsWith('.js')) {
-        totalPlugins++;
-        let pluginCode = fs.readFileSync(fullPath, 'utf-8');
-        const originalCode = pluginCode;
-        pluginCode = wrapParseChapterWithTranslation(pluginCode, fullPath);
-        if (pluginCode !== originalCode) {
-          fs.writeFileSync(fullPath, pluginCode, 'utf-8');
-          pluginsWithTranslation++;
-        }
-      }
-    });
-  });
-
-  console.log(`\n✅ Processed ${totalPlugins} plugins`);
+  console.log(`\n✅ Processed ${report.total} plugins`);
   console.log(
-    `   ${pluginsWithTranslation} plugins now have auto-translation enabled`,
+    `   ${report.instrumented} plugins now have auto-translation enabled`,
   );
-  console.log(
-    `   ${totalPlugins - pluginsWithTranslation} plugins don't have parseChapter method`,
+  if (report.alreadyInstrumented > 0) {
+    console.log(
+      `   ${report.alreadyInstrumented} plugins already had auto-translation`,
+    );
+  }
+
+  fs.writeFileSync(
+    REPORT_FILE,
+    JSON.stringify(
+      {
+        timestamp: new Date().toISOString(),
+        wrappedMethods: WRAPPED_METHODS,
+        ...report,
+      },
+      null,
+      2,
+    ),
   );
+
+  if (report.failed.length > 0) {
+    console.log(
+      `\n⚠️  ${report.failed.length} plugins could not be instrumented:`,
+    );
+    report.failed.forEach(item => {
+      console.log(`   - ${item.plugin}: ${item.reason}`);
+    });
+  }
+  console.log(`\nDetailed report saved to: ${REPORT_FILE}`);
 }
 
 processPlugins();
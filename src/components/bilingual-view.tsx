@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Check, Loader2, Pencil, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { BilingualSegment } from '@/hooks/useTranslation';
+import { cn } from '@/lib/utils';
+
+export type BilingualLayout = 'columns' | 'interleaved';
+
+type EngineOption = {
+  name: string;
+  alias: string;
+};
+
+type BilingualViewProps = {
+  segments: BilingualSegment[];
+  layout: BilingualLayout;
+  engines: EngineOption[];
+  // Segment actions are disabled while the chapter is being translated
+  disabled?: boolean;
+  onRetranslate: (id: string, engineName: string) => Promise<void>;
+  onEdit: (id: string, translation: string) => Promise<void>;
+};
+
+type SegmentRowProps = Omit<BilingualViewProps, 'segments'> & {
+  segment: BilingualSegment;
+  highlighted: boolean;
+  onHover: (id: string | null) => void;
+};
+
+function SegmentRow({
+  segment,
+  layout,
+  engines,
+  disabled,
+  highlighted,
+  onHover,
+  onRetranslate,
+  onEdit,
+}: SegmentRowProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const retranslate = async (engineName: string) => {
+    setBusy(true);
+    try {
+      await onRetranslate(segment.id, engineName);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = async () => {
+    setBusy(true);
+    try {
+      await onEdit(segment.id, draft);
+      setEditing(false);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const cellClass = cn(
+    'rounded-md px-3 py-2 transition-colors',
+    highlighted && 'bg-primary/10 ring-1 ring-primary/30',
+  );
+
+  return (
+    <div
+      className={cn(
+        'group',
+        layout === 'columns' ? 'grid grid-cols-2 gap-4' : 'space-y-1',
+      )}
+      onMouseEnter={() => onHover(segment.id)}
+      onMouseLeave={() => onHover(null)}
+    >
+      <div
+        className={cn(cellClass, layout === 'interleaved' && 'opacity-70')}
+        dangerouslySetInnerHTML={{ __html: segment.sourceHtml }}
+      />
+      <div className={cn(cellClass, 'relative')}>
+        {editing ? (
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              className="w-full min-h-20 rounded-md border border-input bg-transparent px-3 py-2 text-sm font-mono outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+              autoFocus
+            />
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                Conserva las marcas como [[1]]...[[/1]] para mantener el formato
+              </p>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => setEditing(false)}
+                  disabled={busy}
+                  title="Cancelar"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="icon-sm"
+                  onClick={save}
+                  disabled={busy || !draft.trim()}
+                  title="Guardar"
+                >
+                  <Check className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <>
+            {segment.translationHtml === null ? (
+              <p className="text-sm italic text-muted-foreground">
+                Sin traducir
+              </p>
+            ) : (
+              <div
+                dangerouslySetInnerHTML={{ __html: segment.translationHtml }}
+              />
+            )}
+            <div className="absolute top-1 right-1 hidden items-center gap-1 rounded-md bg-background/90 p-0.5 shadow-sm group-hover:flex">
+              {busy ? (
+                <Loader2 className="w-4 h-4 m-1.5 animate-spin text-muted-foreground" />
+              ) : (
+                <>
+                  <Select
+                    value=""
+                    onValueChange={retranslate}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger size="sm" className="h-7 text-xs">
+                      <SelectValue placeholder="Retraducir" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {engines.map(engine => (
+                        <SelectItem key={engine.name} value={engine.name}>
+                          {engine.alias}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => {
+                      setDraft(segment.translation || '');
+                      setEditing(true);
+                    }}
+                    disabled={disabled}
+                    title="Editar traducción"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Original and translated segments side by side or interleaved, with
+ * per-segment re-translation and manual edits
+ */
+export function BilingualView({ segments, ...props }: BilingualViewProps) {
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  return (
+    <div className="prose prose-sm dark:prose-invert max-w-none text-foreground space-y-2">
+      {segments.map(segment => (
+        <SegmentRow
+          key={segment.id}
+          segment={segment}
+          highlighted={hovered === segment.id}
+          onHover={setHovered}
+          {...props}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Pause, Play, RotateCcw, Trash2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { exportDownloadJob } from '@/hooks/useEpubExport';
+import {
+  DownloadJob,
+  DownloadStatus,
+  downloadManager,
+  getDownloadProgress,
+} from '@/lib/downloads';
+
+const STATUS_VARIANTS: Record<
+  DownloadStatus,
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  running: 'default',
+  paused: 'secondary',
+  completed: 'outline',
+  failed: 'destructive',
+};
+
+function DownloadRow({ job }: { job: DownloadJob }) {
+  const progress = getDownloadProgress(job);
+  const percent =
+    progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+  const running = job.status === 'running';
+
+  return (
+    <div className="space-y-2 p-3 border rounded-lg">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-medium text-sm text-foreground truncate">
+            {job.novel.name}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {progress.done}/{progress.total} chapters
+            {progress.failed > 0 && `, ${progress.failed} failed`}
+            {job.error && ` - ${job.error}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <Badge variant={STATUS_VARIANTS[job.status]} className="capitalize">
+            {job.status}
+          </Badge>
+          {running ? (
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => downloadManager.pause(job.id)}
+              title="Pause"
+            >
+              <Pause className="w-4 h-4" />
+            </Button>
+          ) : (
+            job.status === 'paused' && (
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => downloadManager.resume(job.id)}
+                title="Resume"
+              >
+                <Play className="w-4 h-4" />
+              </Button>
+            )
+          )}
+          {!running && progress.failed > 0 && (
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => downloadManager.retryFailed(job.id)}
+              title="Retry failed chapters"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => exportDownloadJob(job)}
+            disabled={running || progress.done === 0}
+            title="Export EPUB"
+          >
+            <Download className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => downloadManager.remove(job.id)}
+            title="Delete"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className="h-full bg-primary transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Chapter download jobs, kept across reloads until deleted
+ */
+export function DownloadQueue() {
+  const [jobs, setJobs] = useState<DownloadJob[]>(() =>
+    downloadManager.getJobs(),
+  );
+
+  useEffect(() => {
+    // Job objects are updated in place, copy them so rows re-render
+    const update = () =>
+      setJobs(
+        downloadManager
+          .getJobs()
+          .map(job => ({ ...job, chapters: job.chapters.slice() })),
+      );
+    const unsubscribe = downloadManager.subscribe(update);
+    downloadManager.load().then(update);
+    return unsubscribe;
+  }, []);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold text-foreground">Downloads</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Chapters are saved as they download, paused jobs can be resumed later
+        </p>
+      </div>
+      <div className="space-y-3">
+        {jobs.map(job => (
+          <DownloadRow key={job.id} job={job} />
+        ))}
+      </div>
+    </Card>
+  );
+}
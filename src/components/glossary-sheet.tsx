@@ -0,0 +1,229 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Plus, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CacheScope } from '@/translation/cache';
+import {
+  GLOBAL_GLOSSARY,
+  GlossaryTerm,
+  glossaryStore,
+} from '@/translation/glossary';
+
+type GlossaryListProps = {
+  listKey: string;
+  fileName: string;
+};
+
+function GlossaryList({ listKey, fileName }: GlossaryListProps) {
+  const [terms, setTerms] = useState<GlossaryTerm[]>(() =>
+    glossaryStore.getList(listKey),
+  );
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const update = () => setTerms(glossaryStore.getList(listKey));
+    update();
+    return glossaryStore.subscribe(update);
+  }, [listKey]);
+
+  const addTerm = () => {
+    if (!source.trim() || !target.trim()) {
+      return;
+    }
+    glossaryStore.setList(listKey, terms.concat({ source, target }));
+    setSource('');
+    setTarget('');
+  };
+
+  const updateTerm = (index: number, term: GlossaryTerm) => {
+    setTerms(terms.map((t, i) => (i === index ? term : t)));
+  };
+
+  const removeTerm = (index: number) => {
+    glossaryStore.setList(
+      listKey,
+      terms.filter((_, i) => i !== index),
+    );
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([glossaryStore.exportCsv(listKey)], {
+      type: 'text/csv;charset=utf-8',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importCsv = async (file: File) => {
+    try {
+      const imported = glossaryStore.importCsv(listKey, await file.text());
+      toast.success(`${imported} términos importados`);
+    } catch (error) {
+      console.error('Error importing glossary:', error);
+      toast.error('Error al importar el archivo CSV');
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      addTerm();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Original"
+          value={source}
+          onChange={e => setSource(e.target.value)}
+          onKeyDown={handleKeyPress}
+        />
+        <Input
+          placeholder="Traducción"
+          value={target}
+          onChange={e => setTarget(e.target.value)}
+          onKeyDown={handleKeyPress}
+        />
+        <Button
+          size="icon"
+          onClick={addTerm}
+          disabled={!source.trim() || !target.trim()}
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {terms.length > 0 ? (
+        <div className="space-y-2">
+          {terms.map((term, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                value={term.source}
+                onChange={e =>
+                  updateTerm(index, { ...term, source: e.target.value })
+                }
+                onBlur={() => glossaryStore.setList(listKey, terms)}
+              />
+              <Input
+                value={term.target}
+                onChange={e =>
+                  updateTerm(index, { ...term, target: e.target.value })
+                }
+                onBlur={() => glossaryStore.setList(listKey, terms)}
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => removeTerm(index)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No hay términos en este glosario
+        </p>
+      )}
+
+      <div className="flex gap-2 pt-4 border-t border-border">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) {
+              importCsv(file);
+            }
+            e.target.value = '';
+          }}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1 gap-2"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="w-4 h-4" />
+          Importar CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1 gap-2"
+          onClick={exportCsv}
+          disabled={terms.length === 0}
+        >
+          <Download className="w-4 h-4" />
+          Exportar CSV
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+type GlossarySheetProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scope?: CacheScope;
+};
+
+export function GlossarySheet({
+  open,
+  onOpenChange,
+  scope,
+}: GlossarySheetProps) {
+  const novelKey = glossaryStore.getNovelKey(scope);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Glosario</SheetTitle>
+          <SheetDescription>
+            Nombres, rangos y lugares que siempre se traducen igual
+          </SheetDescription>
+        </SheetHeader>
+        <Tabs defaultValue={novelKey ? 'novel' : 'global'} className="py-6">
+          <TabsList className="w-full">
+            <TabsTrigger value="novel" disabled={!novelKey}>
+              Novela
+            </TabsTrigger>
+            <TabsTrigger value="global">Global</TabsTrigger>
+          </TabsList>
+          {novelKey && (
+            <TabsContent value="novel">
+              <GlossaryList listKey={novelKey} fileName="glossary.csv" />
+            </TabsContent>
+          )}
+          <TabsContent value="global">
+            <GlossaryList
+              listKey={GLOBAL_GLOSSARY}
+              fileName="glossary-global.csv"
+            />
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,5 +1,17 @@
-import React, { useState, useEffect } from 'react';
-import { Copy, FileText, Code, Languages, RotateCcw } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  BookMarked,
+  Columns2,
+  Copy,
+  FileText,
+  Code,
+  Languages,
+  RotateCcw,
+  Rows2,
+  Download,
+  Upload,
+  X,
+} from 'lucide-react';
 import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
@@ -19,6 +31,8 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import { BilingualLayout, BilingualView } from '@/components/bilingual-view';
+import { GlossarySheet } from '@/components/glossary-sheet';
 import { useAppStore } from '@/store';
 import { usePluginCustomAssets } from '@/hooks/usePluginCustomAssets';
 import { useTranslation } from '@/hooks/useTranslation';
@@ -33,18 +47,30 @@ export default function ParseChapterSection() {
   const clearParseChapterPath = useAppStore(
     state => state.clearParseChapterPath,
   );
+  const parseChapterNovelPath = useAppStore(
+    state => state.parseChapterNovelPath,
+  );
   const [chapterPath, setChapterPath] = useState('');
+  const [novelPath, setNovelPath] = useState<string | undefined>();
+  const [glossaryOpen, setGlossaryOpen] = useState(false);
+  const memoryInputRef = useRef<HTMLInputElement>(null);
   const [chapterText, setChapterText] = useState('');
   const [loading, setLoading] = useState(false);
   const [fetchError, setFetchError] = useState('');
   const [showRawHtml, setShowRawHtml] = useState(false);
+  const [bilingual, setBilingual] = useState(false);
+  const [bilingualLayout, setBilingualLayout] =
+    useState<BilingualLayout>('columns');
 
   const { customCSSLoaded, customJSLoaded, customCSSError, customJSError } =
     usePluginCustomAssets(plugin, chapterText);
 
+  const translationScope = { pluginId: plugin?.id, novelPath };
   const {
     translate,
     isTranslating,
+    progress,
+    cancelTranslation,
     translatedText,
     targetLanguage,
     setTargetLanguage,
@@ -52,13 +78,22 @@ export default function ParseChapterSection() {
     resetTranslation,
     useMultipleEngines,
     setUseMultipleEngines,
+    contextMode,
+    setContextMode,
+    hasLlmEngines,
     autoTranslate,
     setAutoTranslate,
     cacheStats,
     clearCache,
-    SUPPORTED_LANGUAGES,
+    exportMemory,
+    importMemory,
+    engineWins,
+    languages,
+    bilingualSegments,
+    retranslateSegment,
+    editSegment,
     availableEngines,
-  } = useTranslation();
+  } = useTranslation(translationScope, chapterPath, chapterText);
 
   const fetchChapterByPath = async (path: string) => {
     if (!plugin || !path.trim()) {
@@ -129,6 +164,7 @@ export default function ParseChapterSection() {
   useEffect(() => {
     if (parseChapterPath) {
       setChapterPath(parseChapterPath);
+      setNovelPath(parseChapterNovelPath);
 
       if (shouldAutoSubmitChapter && plugin) {
         fetchChapterByPath(parseChapterPath);
@@ -259,6 +295,47 @@ export default function ParseChapterSection() {
                     onCheckedChange={setShowRawHtml}
                   />
                 </div>
+                {bilingualSegments.length > 0 && (
+                  <div className="flex items-center gap-2 px-3 py-2 border border-border rounded-lg bg-muted/50">
+                    <span className="text-sm text-muted-foreground">
+                      Bilingüe
+                    </span>
+                    <Switch
+                      checked={bilingual}
+                      onCheckedChange={setBilingual}
+                    />
+                    {bilingual && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() =>
+                              setBilingualLayout(
+                                bilingualLayout === 'columns'
+                                  ? 'interleaved'
+                                  : 'columns',
+                              )
+                            }
+                          >
+                            {bilingualLayout === 'columns' ? (
+                              <Columns2 className="w-4 h-4" />
+                            ) : (
+                              <Rows2 className="w-4 h-4" />
+                            )}
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>
+                            {bilingualLayout === 'columns'
+                              ? 'Ver párrafos intercalados'
+                              : 'Ver en dos columnas'}
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                  </div>
+                )}
                 {chapterText && (
                   <div className="flex items-center gap-2 px-3 py-2 border border-border rounded-lg bg-muted/50 flex-wrap">
                     <Languages className="w-4 h-4 text-muted-foreground" />
@@ -277,9 +354,18 @@ export default function ParseChapterSection() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {SUPPORTED_LANGUAGES.map(lang => (
-                          <SelectItem key={lang.code} value={lang.code}>
+                        {languages.map(lang => (
+                          <SelectItem
+                            key={lang.code}
+                            value={lang.code}
+                            disabled={lang.engines.length === 0}
+                          >
                             {lang.name}
+                            {lang.engines.length === 0 && (
+                              <span className="ml-1 text-xs text-muted-foreground">
+                                (sin motor compatible)
+                              </span>
+                            )}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -297,6 +383,29 @@ export default function ParseChapterSection() {
                         className="h-4 w-7"
                       />
                     </div>
+                    {hasLlmEngines && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <div className="flex items-center gap-1 px-2 py-1 rounded bg-background/50">
+                            <span className="text-xs text-muted-foreground">
+                              Contexto
+                            </span>
+                            <Switch
+                              checked={contextMode}
+                              onCheckedChange={setContextMode}
+                              disabled={isTranslating}
+                              className="h-4 w-7"
+                            />
+                          </div>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>
+                            Traducir el capítulo completo con IA, usando un
+                            resumen de los capítulos anteriores
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
                     {chapterText && (
                       <Tooltip>
                         <TooltipTrigger asChild>
@@ -339,6 +448,22 @@ export default function ParseChapterSection() {
                     )}
                   </div>
                 )}
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2 bg-transparent"
+                      onClick={() => setGlossaryOpen(true)}
+                    >
+                      <BookMarked className="w-4 h-4" />
+                      Glosario
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Gestionar nombres y términos de la novela</p>
+                  </TooltipContent>
+                </Tooltip>
                 <Tooltip>
                   <TooltipTrigger asChild>
                     <Button
@@ -383,6 +508,36 @@ export default function ParseChapterSection() {
               </div>
             </div>
 
+            {isTranslating && (
+              <div className="flex items-center gap-3">
+                <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{
+                      width: `${progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%`,
+                    }}
+                  />
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {progress
+                    ? `${progress.done}/${progress.total} segmentos`
+                    : 'Traduciendo...'}
+                  {progress?.engine && ` · ${progress.engine}`}
+                  {!!progress?.retries &&
+                    ` · ${progress.retries} ${progress.retries === 1 ? 'reintento' : 'reintentos'}`}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 gap-1"
+                  onClick={cancelTranslation}
+                >
+                  <X className="w-3 h-3" />
+                  Cancelar
+                </Button>
+              </div>
+            )}
+
             <div className="border border-border rounded-lg">
               <div className="bg-muted/50 rounded-t-lg px-4 py-2 border-b border-border">
                 <p className="text-xs text-muted-foreground font-medium">
@@ -391,7 +546,16 @@ export default function ParseChapterSection() {
                 </p>
               </div>
               <div className="bg-background rounded-b-lg p-6 max-h-[600px] overflow-y-auto">
-                {showRawHtml ? (
+                {bilingual && !showRawHtml && bilingualSegments.length > 0 ? (
+                  <BilingualView
+                    segments={bilingualSegments}
+                    layout={bilingualLayout}
+                    engines={availableEngines}
+                    disabled={isTranslating}
+                    onRetranslate={retranslateSegment}
+                    onEdit={editSegment}
+                  />
+                ) : showRawHtml ? (
                   <pre className="text-xs text-foreground font-mono whitespace-pre-wrap break-words">
                     {isTranslated && translatedText
                       ? translatedText
@@ -420,17 +584,35 @@ export default function ParseChapterSection() {
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <span className="text-xs px-2 py-1 rounded bg-blue-500/10 text-blue-600 dark:text-blue-400 border border-blue-500/20 cursor-help">
-                        Caché: {cacheStats.size}/{cacheStats.maxSize}
+                        {`Caché: ${cacheStats.size} (${(cacheStats.bytes / 1024 / 1024).toFixed(1)}/${Math.round(cacheStats.maxBytes / 1024 / 1024)} MB)`}
                       </span>
                     </TooltipTrigger>
                     <TooltipContent>
+                      <p>{cacheStats.size} traducciones en memoria.</p>
                       <p>
-                        {cacheStats.size} traducciones en caché. Haz clic para
-                        limpiar.
+                        {`Aciertos: ${Math.round(cacheStats.hitRate * 100)}% (${cacheStats.hits}/${cacheStats.hits + cacheStats.misses})`}
                       </p>
                     </TooltipContent>
                   </Tooltip>
                 )}
+                {isTranslated && Object.keys(engineWins).length > 1 && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <span className="text-xs px-2 py-1 rounded bg-amber-500/10 text-amber-600 dark:text-amber-400 border border-amber-500/20 cursor-help">
+                        Consenso: {Object.keys(engineWins).length} motores
+                      </span>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      {Object.entries(engineWins)
+                        .sort((a, b) => b[1] - a[1])
+                        .map(([engine, wins]) => (
+                          <p key={engine}>
+                            {engine}: {wins} segmentos
+                          </p>
+                        ))}
+                    </TooltipContent>
+                  </Tooltip>
+                )}
                 {plugin?.customCSS && (
                   <span
                     className={`text-xs px-2 py-1 rounded flex items-center gap-1 ${
@@ -469,6 +651,53 @@ export default function ParseChapterSection() {
                 )}
               </div>
               <div className="flex gap-2">
+                <input
+                  ref={memoryInputRef}
+                  type="file"
+                  accept=".tmx,.xml"
+                  className="hidden"
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) {
+                      importMemory(file);
+                    }
+                    e.target.value = '';
+                  }}
+                />
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => memoryInputRef.current?.click()}
+                      className="text-xs gap-1"
+                    >
+                      <Upload className="w-3 h-3" />
+                      TMX
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Importar memoria de traducción (TMX)</p>
+                  </TooltipContent>
+                </Tooltip>
+                {cacheStats.size > 0 && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={exportMemory}
+                        className="text-xs gap-1"
+                      >
+                        <Download className="w-3 h-3" />
+                        TMX
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Exportar memoria de traducción (TMX)</p>
+                    </TooltipContent>
+                  </Tooltip>
+                )}
                 {cacheStats.size > 0 && (
                   <Tooltip>
                     <TooltipTrigger asChild>
@@ -493,6 +722,7 @@ export default function ParseChapterSection() {
                     setChapterText('');
                     setChapterPath('');
                     setShowRawHtml(false);
+                    setBilingual(false);
                     resetTranslation();
                   }}
                 >
@@ -503,6 +733,12 @@ export default function ParseChapterSection() {
           </div>
         ) : null}
       </Card>
+
+      <GlossarySheet
+        open={glossaryOpen}
+        onOpenChange={setGlossaryOpen}
+        scope={translationScope}
+      />
     </div>
   );
 }
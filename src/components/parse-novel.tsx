@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   BookOpen,
   ChevronLeft,
@@ -14,6 +14,13 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Tooltip,
   TooltipContent,
@@ -21,7 +28,24 @@ import {
 } from '@/components/ui/tooltip';
 import { useAppStore } from '@/store';
 import { Plugin } from '@/types/plugin';
+import { DownloadQueue } from '@/components/download-queue';
+import { TranslateMetadataToggle } from '@/components/translate-metadata-toggle';
 import { useEpubExport } from '@/hooks/useEpubExport';
+import { useTranslatedNovel } from '@/hooks/useMetadataTranslation';
+import { ChapterRange, selectChapters } from '@/lib/chapter-range';
+import { EpubExportMode, EpubExportOptions } from '@/lib/epub';
+import { EpubImageOptions } from '@/lib/epub-images';
+import { getTargetLanguageSetting } from '@/hooks/useTranslation';
+
+type ImageMode = 'original' | 'downscale' | 'jpeg';
+
+// Image settings of each export choice, phones and e-readers rarely need
+// more than 1200px
+const IMAGE_OPTIONS: Record<ImageMode, EpubImageOptions | undefined> = {
+  original: undefined,
+  downscale: { maxWidth: 1200, maxHeight: 1600 },
+  jpeg: { maxWidth: 1200, maxHeight: 1600, convertToJpeg: true },
+};
 
 type ParseNovelSectionProps = {
   onNavigateToParseChapter?: () => void;
@@ -45,6 +69,16 @@ export default function ParseNovelSection({
   const [loading, setLoading] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [fetchError, setFetchError] = useState('');
+  const [exportMode, setExportMode] = useState<EpubExportMode>('original');
+  const [rangeBy, setRangeBy] = useState<ChapterRange['by']>('index');
+  const [rangeFrom, setRangeFrom] = useState('');
+  const [rangeTo, setRangeTo] = useState('');
+  const [volumeMode, setVolumeMode] = useState<'none' | 'page' | 'size'>(
+    'none',
+  );
+  const [volumeSize, setVolumeSize] = useState('100');
+  const [splitSize, setSplitSize] = useState('');
+  const [imageMode, setImageMode] = useState<ImageMode>('original');
 
   const { exportEpub, isExporting } = useEpubExport({
     plugin: plugin || null,
@@ -53,6 +87,62 @@ export default function ParseNovelSection({
     novelPath,
   });
 
+  // The chapters of the current page are translated with the novel
+  const pageNovel = useMemo(
+    () => sourceNovel && { ...sourceNovel, chapters },
+    [sourceNovel, chapters],
+  );
+  const { novel: shownNovel, isTranslating } = useTranslatedNovel(
+    pageNovel,
+    plugin?.id,
+    sourceNovel?.path,
+  );
+  const shownChapters = shownNovel?.chapters || chapters;
+
+  const paged = !!sourceNovel?.totalPages && sourceNovel.totalPages > 1;
+
+  const parseBound = (value: string) =>
+    value.trim() && !isNaN(Number(value)) ? Number(value) : undefined;
+
+  const getExportOptions = (): EpubExportOptions => {
+    const from = parseBound(rangeFrom);
+    const to = parseBound(rangeTo);
+    const chaptersPerVolume = parseBound(volumeSize);
+    const chaptersPerFile = parseBound(splitSize);
+    return {
+      mode: exportMode,
+      range:
+        from === undefined && to === undefined
+          ? undefined
+          : { by: rangeBy, from, to },
+      volumes:
+        volumeMode === 'page'
+          ? 'page'
+          : volumeMode === 'size' && chaptersPerVolume && chaptersPerVolume > 0
+            ? chaptersPerVolume
+            : undefined,
+      splitSize:
+        chaptersPerFile && chaptersPerFile > 0 ? chaptersPerFile : undefined,
+      images: IMAGE_OPTIONS[imageMode],
+    };
+  };
+
+  // Chapters of the current page within the export range, positions are
+  // only known when every chapter is listed
+  const getSelectedPaths = (): Set<string> | null => {
+    const { range } = getExportOptions();
+    if (!range || (paged && range.by === 'index')) {
+      return null;
+    }
+    const pageChapters = paged
+      ? chapters.map(chapter => ({ ...chapter, page: String(currentPage) }))
+      : chapters;
+    return new Set(
+      selectChapters(pageChapters, range).map(chapter => chapter.path),
+    );
+  };
+  const selectedPaths = getSelectedPaths();
+
   const fetchNovelByPath = async (path: string) => {
     if (plugin && path.trim()) {
       setLoading(true);
@@ -113,7 +203,7 @@ export default function ParseNovelSection({
   };
 
   const handleParseChapter = (path: string) => {
-    setParseChapterPath(path, true);
+    setParseChapterPath(path, true, novelPath);
     onNavigateToParseChapter?.();
   };
 
@@ -157,6 +247,10 @@ export default function ParseNovelSection({
                 : 'Select a plugin to parse novels'}
             </p>
           </div>
+          <TranslateMetadataToggle
+            isTranslating={isTranslating}
+            disabled={!plugin}
+          />
         </div>
 
         <div className="flex gap-3 mb-6">
@@ -214,7 +308,7 @@ export default function ParseNovelSection({
                 : 'Please select a plugin from the sidebar to get started.'}
             </p>
           </div>
-        ) : sourceNovel ? (
+        ) : shownNovel ? (
           <div className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               {/* Novel Info */}
@@ -231,14 +325,14 @@ export default function ParseNovelSection({
                         (sourceNovel.cover ? '/' : '') + sourceNovel.cover ||
                         '/static/coverNotAvailable.webp'
                       }
-                      alt={sourceNovel.name}
+                      alt={shownNovel.name}
                       className="w-32 h-48 rounded-lg object-cover hover:opacity-80 transition-opacity"
                       title="Click to copy cover URL"
                     />
                   </div>
                   <div className="flex-1">
                     <h3 className="text-2xl font-bold text-foreground mb-3 line-clamp-3">
-                      {sourceNovel.name}
+                      {shownNovel.name}
                     </h3>
                     <div className="grid grid-cols-2 gap-3 mb-4">
                       {sourceNovel.status && (
@@ -301,13 +395,33 @@ export default function ParseNovelSection({
                           <p>Copy novel path to clipboard</p>
                         </TooltipContent>
                       </Tooltip>
+                      <Select
+                        value={exportMode}
+                        onValueChange={mode =>
+                          setExportMode(mode as EpubExportMode)
+                        }
+                        disabled={isExporting}
+                      >
+                        <SelectTrigger size="sm" className="w-[130px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="original">Original</SelectItem>
+                          <SelectItem value="translated">
+                            Translated ({getTargetLanguageSetting()})
+                          </SelectItem>
+                          <SelectItem value="bilingual">
+                            Bilingual ({getTargetLanguageSetting()})
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
                       <Tooltip>
                         <TooltipTrigger asChild>
                           <Button
                             variant="outline"
                             size="sm"
                             className="gap-2 bg-transparent"
-                            onClick={exportEpub}
+                            onClick={() => exportEpub(getExportOptions())}
                             disabled={isExporting || chapters.length === 0}
                           >
                             <Download className="w-4 h-4" />
@@ -318,7 +432,9 @@ export default function ParseNovelSection({
                           <p>
                             {isExporting
                               ? 'Exporting chapters to EPUB...'
-                              : 'Export all chapters as EPUB file'}
+                              : exportMode === 'original'
+                                ? 'Export the selected chapters as EPUB file'
+                                : 'Translate and export the selected chapters as EPUB file, reusing cached translations'}
                           </p>
                         </TooltipContent>
                       </Tooltip>
@@ -326,13 +442,13 @@ export default function ParseNovelSection({
                   </div>
                 </div>
 
-                {sourceNovel.genres && (
+                {shownNovel.genres && (
                   <div>
                     <h4 className="font-semibold text-foreground mb-2">
                       Genres
                     </h4>
                     <div className="flex flex-wrap gap-2">
-                      {sourceNovel.genres.split(/,\s*/).map((genre, index) => (
+                      {shownNovel.genres.split(/,\s*/).map((genre, index) => (
                         <Badge key={`genre-${index}`} variant="secondary">
                           {genre}
                         </Badge>
@@ -341,13 +457,13 @@ export default function ParseNovelSection({
                   </div>
                 )}
 
-                {sourceNovel.summary && (
+                {shownNovel.summary && (
                   <div>
                     <h4 className="font-semibold text-foreground mb-2">
                       Summary
                     </h4>
                     <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
-                      {sourceNovel.summary}
+                      {shownNovel.summary}
                     </p>
                   </div>
                 )}
@@ -437,6 +553,94 @@ export default function ParseNovelSection({
                     </div>
                   )}
                 </div>
+                <div className="flex flex-wrap items-center gap-3 p-3 mb-4 border border-border rounded-lg bg-muted/30 text-sm">
+                  <span className="text-muted-foreground">Export</span>
+                  <Select
+                    value={rangeBy}
+                    onValueChange={by => setRangeBy(by as ChapterRange['by'])}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger size="sm" className="w-[140px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="index">Position</SelectItem>
+                      <SelectItem value="chapterNumber">Chapter #</SelectItem>
+                      <SelectItem value="page">Page</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    placeholder="From"
+                    value={rangeFrom}
+                    onChange={e => setRangeFrom(e.target.value)}
+                    className="w-20 h-8"
+                    disabled={isExporting}
+                  />
+                  <Input
+                    type="number"
+                    placeholder="To"
+                    value={rangeTo}
+                    onChange={e => setRangeTo(e.target.value)}
+                    className="w-20 h-8"
+                    disabled={isExporting}
+                  />
+                  <span className="text-muted-foreground ml-2">Volumes</span>
+                  <Select
+                    value={volumeMode}
+                    onValueChange={mode =>
+                      setVolumeMode(mode as 'none' | 'page' | 'size')
+                    }
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger size="sm" className="w-[150px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      <SelectItem value="page">One per page</SelectItem>
+                      <SelectItem value="size">Every N chapters</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {volumeMode === 'size' && (
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="N"
+                      value={volumeSize}
+                      onChange={e => setVolumeSize(e.target.value)}
+                      className="w-20 h-8"
+                      disabled={isExporting}
+                    />
+                  )}
+                  <span className="text-muted-foreground ml-2">
+                    Chapters per file
+                  </span>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="All"
+                    value={splitSize}
+                    onChange={e => setSplitSize(e.target.value)}
+                    className="w-20 h-8"
+                    disabled={isExporting}
+                  />
+                  <span className="text-muted-foreground ml-2">Images</span>
+                  <Select
+                    value={imageMode}
+                    onValueChange={mode => setImageMode(mode as ImageMode)}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger size="sm" className="w-[150px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="original">Original</SelectItem>
+                      <SelectItem value="downscale">Downscaled</SelectItem>
+                      <SelectItem value="jpeg">Downscaled JPEG</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div className="overflow-x-auto border border-border rounded-lg">
                   <table className="w-full text-sm">
                     <thead className="bg-muted/50">
@@ -461,11 +665,15 @@ export default function ParseNovelSection({
                       </tr>
                     </thead>
                     <tbody>
-                      {chapters.map((chapter, index) => (
+                      {shownChapters.map((chapter, index) => (
                         <tr
                           key={`${chapter.path}-${index}`}
                           className={`border-b border-border hover:bg-muted/70 transition-colors ${
-                            index % 2 === 0 ? 'bg-background' : 'bg-muted/20'
+                            selectedPaths?.has(chapter.path)
+                              ? 'bg-primary/10'
+                              : index % 2 === 0
+                                ? 'bg-background'
+                                : 'bg-muted/20'
                           }`}
                         >
                           <td className="py-2.5 px-4 text-muted-foreground text-xs">
@@ -533,6 +741,8 @@ export default function ParseNovelSection({
           </div>
         ) : null}
       </Card>
+
+      <DownloadQueue />
     </div>
   );
 }
@@ -3,6 +3,7 @@ import { Filter, BookOpen } from 'lucide-react';
 
 import { FiltersSheet } from '@/components/filters/filters-sheet';
 import { NovelCard } from '@/components/novel-card';
+import { TranslateMetadataToggle } from '@/components/translate-metadata-toggle';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
@@ -11,6 +12,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { useAppStore } from '@/store';
 import { FilterToValues, Filters } from '@libs/filterInputs';
 import { Plugin } from '@/types/plugin';
+import { useTranslatedNovels } from '@/hooks/useMetadataTranslation';
 
 type PopularNovelsSectionProps = {
   onNavigateToParseNovel?: () => void;
@@ -22,6 +24,10 @@ export default function PopularNovelsSection({
   const plugin = useAppStore(state => state.plugin);
   const setParseNovelPath = useAppStore(state => state.setParseNovelPath);
   const [novels, setNovels] = useState<Plugin.NovelItem[]>([]);
+  const { novels: shownNovels, isTranslating } = useTranslatedNovels(
+    novels,
+    plugin?.id,
+  );
   const [loading, setLoading] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [maxIndex, setMaxIndex] = useState(0);
@@ -107,6 +113,10 @@ export default function PopularNovelsSection({
             </p>
           </div>
           <div className="flex gap-2">
+            <TranslateMetadataToggle
+              isTranslating={isTranslating}
+              disabled={!plugin}
+            />
             <Button
               variant="outline"
               size="sm"
@@ -202,7 +212,7 @@ export default function PopularNovelsSection({
           </div>
         ) : (
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-3 lg:gap-4">
-            {novels.map((novel, index) => (
+            {shownNovels.map((novel, index) => (
               <NovelCard
                 key={`${novel.path}-${index}`}
                 novel={novel}
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Search as SearchIcon } from 'lucide-react';
 
 import { NovelCard } from '@/components/novel-card';
+import { TranslateMetadataToggle } from '@/components/translate-metadata-toggle';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
@@ -10,6 +11,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { useAppStore } from '@/store';
 import { Plugin } from '@/types/plugin';
 import { searchCache } from '@/lib/cache';
+import { useTranslatedNovels } from '@/hooks/useMetadataTranslation';
 
 type SearchNovelsSectionProps = {
   onNavigateToParseNovel?: () => void;
@@ -23,6 +25,10 @@ export default function SearchNovelsSection({
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [novels, setNovels] = useState<Plugin.NovelItem[]>([]);
+  const { novels: shownNovels, isTranslating } = useTranslatedNovels(
+    novels,
+    plugin?.id,
+  );
   const [loading, setLoading] = useState(false);
   const [fetchError, setFetchError] = useState('');
 
@@ -119,9 +125,15 @@ export default function SearchNovelsSection({
                 : 'Select a plugin to search novels'}
             </p>
           </div>
-          {currentPage > 1 && (
-            <Badge variant="secondary">Page {currentPage}</Badge>
-          )}
+          <div className="flex items-center gap-2">
+            {currentPage > 1 && (
+              <Badge variant="secondary">Page {currentPage}</Badge>
+            )}
+            <TranslateMetadataToggle
+              isTranslating={isTranslating}
+              disabled={!plugin}
+            />
+          </div>
         </div>
 
         <div className="flex gap-3 mb-6">
@@ -190,7 +202,7 @@ export default function SearchNovelsSection({
           </div>
         ) : (
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-3 lg:gap-4">
-            {novels.map((novel, index) => (
+            {shownNovels.map((novel, index) => (
               <NovelCard
                 key={`${novel.path}-${index}`}
                 novel={novel}
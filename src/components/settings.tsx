@@ -6,6 +6,7 @@ import { Card } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import TranslationSettings from '@/components/translation-settings';
 import {
   Select,
   SelectContent,
@@ -194,6 +195,8 @@ export default function SettingsSection() {
           </div>
         </div>
       </Card>
+
+      <TranslationSettings />
     </div>
   );
 }
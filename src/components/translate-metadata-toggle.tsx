@@ -0,0 +1,51 @@
+import React from 'react';
+import { Languages, Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { useAppStore } from '@/store';
+
+type TranslateMetadataToggleProps = {
+  isTranslating?: boolean;
+  disabled?: boolean;
+};
+
+export function TranslateMetadataToggle({
+  isTranslating,
+  disabled,
+}: TranslateMetadataToggleProps) {
+  const translateMetadata = useAppStore(state => state.translateMetadata);
+  const setTranslateMetadata = useAppStore(state => state.setTranslateMetadata);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant={translateMetadata ? 'default' : 'outline'}
+          size="sm"
+          className={translateMetadata ? 'gap-2' : 'gap-2 bg-transparent'}
+          disabled={disabled}
+          onClick={() => setTranslateMetadata(!translateMetadata)}
+        >
+          {isTranslating ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Languages className="w-4 h-4" />
+          )}
+          {translateMetadata ? 'Translated' : 'Original'}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>
+          {translateMetadata
+            ? 'Show the original names, summaries and genres'
+            : 'Translate names, summaries, genres and chapter names'}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,422 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ChevronDown,
+  ChevronUp,
+  FlaskConical,
+  KeyRound,
+  Loader2,
+  Lock,
+  LockOpen,
+  Trash2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  EngineEntry,
+  EngineOption,
+  engineSettings,
+} from '@/translation/engine-settings';
+import { EngineError } from '@/translation/errors';
+import { keyVault } from '@/translation/key-vault';
+
+const OPTION_LABELS: Record<
+  EngineOption,
+  { label: string; hint: string; multiline?: boolean }
+> = {
+  region: { label: 'Región', hint: 'global' },
+  baseUrl: { label: 'URL base', hint: 'URL por defecto del motor' },
+  model: { label: 'Modelo', hint: 'Modelo por defecto del motor' },
+  temperature: { label: 'Temperatura', hint: 'Temperatura por defecto' },
+  maxTokens: { label: 'Tokens máximos', hint: 'Límite por defecto' },
+  systemPrompt: {
+    label: 'Prompt del sistema ({source}, {target})',
+    hint: 'Prompt por defecto',
+    multiline: true,
+  },
+  userPrompt: {
+    label: 'Prompt del usuario ({text})',
+    hint: '{text}',
+    multiline: true,
+  },
+};
+
+/**
+ * Options of an engine as the text shown in the inputs
+ */
+function getOptionValues(
+  entry: EngineEntry,
+): Partial<Record<EngineOption, string>> {
+  const config = engineSettings.getConfig(entry.name);
+  const values: Partial<Record<EngineOption, string>> = {};
+  entry.options.forEach(option => {
+    if (config[option] !== undefined) {
+      values[option] = String(config[option]);
+    }
+  });
+  return values;
+}
+
+/**
+ * Split a list of keys written one per line or separated by commas
+ */
+function parseKeys(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map(key => key.trim())
+    .filter(Boolean);
+}
+
+function KeyVaultPanel() {
+  const [unlocked, setUnlocked] = useState(keyVault.isUnlocked());
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const exists = keyVault.exists();
+
+  useEffect(
+    () => keyVault.subscribe(() => setUnlocked(keyVault.isUnlocked())),
+    [],
+  );
+
+  const unlock = async () => {
+    if (!passphrase) {
+      return;
+    }
+    setBusy(true);
+    try {
+      if (await keyVault.unlock(passphrase)) {
+        setPassphrase('');
+        toast.success(
+          exists ? 'Claves desbloqueadas' : 'Almacén de claves creado',
+        );
+      } else {
+        toast.error('Frase de acceso incorrecta');
+      }
+    } catch (error) {
+      console.error('Error unlocking key vault:', error);
+      toast.error('No se pudo abrir el almacén de claves');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const clear = () => {
+    if (window.confirm('¿Borrar todas las claves de API guardadas?')) {
+      keyVault.clear();
+      toast.success('Claves de API borradas');
+    }
+  };
+
+  if (unlocked) {
+    return (
+      <div className="flex items-center justify-between gap-3 rounded-lg border border-border bg-muted/50 px-3 py-2">
+        <div className="flex items-center gap-2 text-sm text-foreground">
+          <LockOpen className="w-4 h-4 text-green-500" />
+          Claves de API desbloqueadas
+        </div>
+        <Button variant="outline" size="sm" onClick={() => keyVault.lock()}>
+          <Lock className="w-4 h-4" />
+          Bloquear
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="key-passphrase" className="font-semibold text-foreground">
+        Frase de acceso
+      </Label>
+      <div className="flex items-center gap-2">
+        <Input
+          id="key-passphrase"
+          type="password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && unlock()}
+          placeholder={
+            exists
+              ? 'Desbloquear claves guardadas'
+              : 'Elige una frase de acceso'
+          }
+        />
+        <Button onClick={unlock} disabled={busy || !passphrase}>
+          {busy ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <KeyRound className="w-4 h-4" />
+          )}
+          {exists ? 'Desbloquear' : 'Crear'}
+        </Button>
+        {exists && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={clear}
+            title="Borrar claves"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Las claves se guardan cifradas (AES-GCM) en este navegador. La frase de
+        acceso no se guarda: hay que introducirla en cada sesión. Sin ella, los
+        motores que necesitan clave no se usan.
+      </p>
+    </div>
+  );
+}
+
+type EngineRowProps = {
+  entry: EngineEntry;
+  index: number;
+  count: number;
+  unlocked: boolean;
+};
+
+function EngineRow({ entry, index, count, unlocked }: EngineRowProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [keys, setKeys] = useState('');
+  const [values, setValues] = useState(() => getOptionValues(entry));
+  const [testing, setTesting] = useState(false);
+  const keyCount = keyVault.getKeys(entry.name).length;
+  const missingKey = entry.requiresApiKey && keyCount === 0;
+
+  const saveKeys = async () => {
+    try {
+      await engineSettings.setApiKeys(entry.name, parseKeys(keys));
+      setKeys('');
+      toast.success(`Claves de ${entry.alias} guardadas`);
+    } catch (error) {
+      console.error('Error saving API keys:', error);
+      toast.error('No se pudieron guardar las claves');
+    }
+  };
+
+  const saveOption = (option: EngineOption, value: string) => {
+    engineSettings.setOption(entry.name, option, value);
+    setValues(getOptionValues(entry));
+  };
+
+  const test = async () => {
+    setTesting(true);
+    try {
+      const result = await engineSettings.test(entry.name);
+      toast.success(`${entry.alias} (${result.latency} ms): ${result.text}`);
+    } catch (error) {
+      const type = error instanceof EngineError ? ` [${error.type}]` : '';
+      toast.error(
+        `${entry.alias}${type}: ${error instanceof Error ? error.message : error}`,
+      );
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border">
+      <div className="flex items-center gap-3 px-3 py-2">
+        <Checkbox
+          id={`engine-${entry.name}`}
+          checked={entry.enabled}
+          onCheckedChange={checked =>
+            engineSettings.setEnabled(entry.name, checked === true)
+          }
+        />
+        <Label
+          htmlFor={`engine-${entry.name}`}
+          className="flex-1 cursor-pointer text-sm text-foreground"
+        >
+          {entry.alias}
+        </Label>
+        <Badge variant={entry.free ? 'secondary' : 'outline'}>
+          {entry.free ? 'Gratis' : 'De pago'}
+        </Badge>
+        {keyCount > 1 && <Badge variant="outline">{keyCount} claves</Badge>}
+        {missingKey && entry.enabled && (
+          <Badge variant="destructive">Sin clave</Badge>
+        )}
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => engineSettings.move(entry.name, -1)}
+            disabled={index === 0}
+            title="Subir prioridad"
+          >
+            <ChevronUp className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => engineSettings.move(entry.name, 1)}
+            disabled={index === count - 1}
+            title="Bajar prioridad"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+          {(entry.acceptsApiKey || entry.options.length > 0) && (
+            <Button
+              variant={expanded ? 'secondary' : 'ghost'}
+              size="icon-sm"
+              onClick={() => setExpanded(!expanded)}
+              title="Configurar"
+            >
+              <KeyRound className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={test}
+            disabled={testing || (missingKey && !unlocked)}
+            title="Probar con una frase de ejemplo"
+          >
+            {testing ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <FlaskConical className="w-4 h-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="space-y-3 border-t border-border px-3 py-3">
+          {entry.acceptsApiKey && (
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">
+                Claves de API{' '}
+                {keyCount > 0 &&
+                  `(${keyCount} guardada${keyCount > 1 ? 's' : ''})`}
+              </Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="password"
+                  value={keys}
+                  onChange={e => setKeys(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && unlocked && saveKeys()}
+                  placeholder={
+                    unlocked
+                      ? 'clave1, clave2... (varias claves se turnan)'
+                      : 'Desbloquea las claves primero'
+                  }
+                  disabled={!unlocked}
+                  className="font-mono text-xs"
+                />
+                <Button
+                  size="sm"
+                  onClick={saveKeys}
+                  disabled={!unlocked || (!keys.trim() && keyCount === 0)}
+                >
+                  {keys.trim() || keyCount === 0 ? 'Guardar' : 'Borrar'}
+                </Button>
+              </div>
+            </div>
+          )}
+          {entry.options.map(option => {
+            const { label, hint, multiline } = OPTION_LABELS[option];
+            const fieldProps = {
+              id: `${entry.name}-${option}`,
+              value: values[option] || '',
+              onChange: (
+                e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
+              ) => setValues({ ...values, [option]: e.target.value }),
+              onBlur: (
+                e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>,
+              ) => saveOption(option, e.target.value),
+              placeholder:
+                entry.defaults[option] !== undefined
+                  ? String(entry.defaults[option])
+                  : hint,
+            };
+
+            return (
+              <div key={option} className="space-y-1">
+                <Label
+                  htmlFor={fieldProps.id}
+                  className="text-xs text-muted-foreground"
+                >
+                  {label}
+                </Label>
+                {multiline ? (
+                  <textarea
+                    {...fieldProps}
+                    className="w-full min-h-20 rounded-md border border-input bg-transparent px-3 py-2 font-mono text-xs outline-none placeholder:text-muted-foreground focus-visible:ring-[3px] focus-visible:ring-ring/50"
+                  />
+                ) : (
+                  <Input
+                    {...fieldProps}
+                    type={
+                      option === 'temperature' || option === 'maxTokens'
+                        ? 'number'
+                        : 'text'
+                    }
+                    step="any"
+                    className="font-mono text-xs"
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Engines used to translate chapters, their priority and API keys
+ */
+export default function TranslationSettings() {
+  const [engines, setEngines] = useState(() => engineSettings.getEngines());
+  const [unlocked, setUnlocked] = useState(keyVault.isUnlocked());
+
+  useEffect(() => {
+    const update = () => {
+      setEngines(engineSettings.getEngines());
+      setUnlocked(keyVault.isUnlocked());
+    };
+    const stopSettings = engineSettings.subscribe(update);
+    const stopVault = keyVault.subscribe(update);
+    return () => {
+      stopSettings();
+      stopVault();
+    };
+  }, []);
+
+  return (
+    <Card className="p-6">
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-foreground">
+          Ajustes de traducción
+        </h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Motores activos, su orden de prioridad y sus claves de API
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <KeyVaultPanel />
+
+        <div className="space-y-2">
+          {engines.map((entry, index) => (
+            <EngineRow
+              key={entry.name}
+              entry={entry}
+              index={index}
+              count={engines.length}
+              unlocked={unlocked}
+            />
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+}
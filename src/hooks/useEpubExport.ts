@@ -1,7 +1,27 @@
 import { useState } from 'react';
 import { toast } from 'sonner';
 import { Plugin } from '@/types/plugin';
-import { createEpub, downloadBlob } from '@/lib/epub';
+import { createEpub, downloadBlob, EpubExportOptions } from '@/lib/epub';
+import {
+  getRangePages,
+  selectChapters,
+  splitChapters,
+} from '@/lib/chapter-range';
+import {
+  DownloadJob,
+  downloadManager,
+  getDownloadProgress,
+} from '@/lib/downloads';
+import { getTargetLanguageSetting } from '@/hooks/useTranslation';
+import { getPlugin } from '@/provider/plugins';
+import { BUILTIN_ENGINES } from '@/translation/engines';
+import { engineSettings } from '@/translation/engine-settings';
+import { glossaryStore } from '@/translation/glossary';
+import { detectLanguage } from '@/translation/language-detector';
+import {
+  createTranslator,
+  MultiEngineTranslator,
+} from '@/translation/translator';
 
 interface UseEpubExportOptions {
   plugin: Plugin.PluginBase | null;
@@ -10,6 +30,148 @@ interface UseEpubExportOptions {
   novelPath: string;
 }
 
+/**
+ * Translator for the export, with the engines and glossary of the chapter
+ * view and the same cache scope, so chapters read before are not sent to
+ * the engines again
+ */
+function createExportTranslator(
+  pluginId: string,
+  novelPath: string,
+  targetLanguage: string,
+): MultiEngineTranslator {
+  const scope = { pluginId, novelPath };
+  const engines = engineSettings.getEngineClasses();
+  return createTranslator(targetLanguage, {
+    engines: engines.length > 0 ? engines : [BUILTIN_ENGINES[0]],
+    // One engine with fallback, voting would multiply the requests
+    useMultipleEngines: false,
+    scope,
+    glossary: glossaryStore.getTerms(scope),
+    engineConfigs: engineSettings.getEngineConfigs(),
+  });
+}
+
+/**
+ * Build the EPUB of a download job from its stored chapters and download it,
+ * split into several files when the job's export options ask for it
+ * Chapters are translated as the options say; chapters that failed to
+ * download are left out
+ */
+export async function exportDownloadJob(
+  job: DownloadJob,
+  toastId: string | number = toast.loading('Starting EPUB export...'),
+): Promise<void> {
+  try {
+    const chapterContents = await downloadManager.getChapters(job.id);
+    if (chapterContents.length === 0) {
+      toast.error('No downloaded chapters to export', { id: toastId });
+      return;
+    }
+
+    const { mode } = job.exportOptions;
+    const targetLanguage =
+      job.exportOptions.targetLanguage || getTargetLanguageSetting();
+    const translator =
+      mode === 'original'
+        ? null
+        : createExportTranslator(job.pluginId, job.novelPath, targetLanguage);
+    const firstContent = chapterContents.find(chapter => chapter.content);
+    const sourceLanguage = firstContent
+      ? detectLanguage(firstContent.content.replace(/<[^>]*>/g, ' '))
+      : null;
+    let untranslated = 0;
+
+    if (translator) {
+      for (let i = 0; i < chapterContents.length; i++) {
+        const chapter = chapterContents[i];
+        toast.loading('Translating chapters...', {
+          id: toastId,
+          description: `${i + 1}/${chapterContents.length} - ${chapter.title}`,
+        });
+        try {
+          chapter.content =
+            mode === 'bilingual'
+              ? await translator.translateHtmlBilingual(chapter.content)
+              : await translator.translateHtml(chapter.content);
+        } catch (error) {
+          // Keep the original text of chapters that failed
+          untranslated++;
+          console.error(`Error translating chapter ${i + 1}:`, error);
+        }
+      }
+
+      try {
+        const titles = await translator.translateBatch(
+          chapterContents.map(chapter => chapter.title),
+        );
+        chapterContents.forEach((chapter, i) => {
+          chapter.title = titles[i] || chapter.title;
+        });
+      } catch (error) {
+        console.error('Error translating chapter titles:', error);
+      }
+    }
+
+    toast.loading('Generating EPUB file...', {
+      id: toastId,
+      description: 'Creating EPUB structure',
+    });
+
+    // Images are requested as the plugin does, relative ones from its site
+    const plugin = getPlugin(job.pluginId);
+    const suffix = translator ? `_${targetLanguage}` : '';
+    const baseName = `${job.novel.name.replace(/[^a-z0-9]/gi, '_')}${suffix}`;
+    const parts = splitChapters(chapterContents, job.exportOptions.splitSize);
+    const filenames: string[] = [];
+
+    for (let i = 0; i < parts.length; i++) {
+      const multiple = parts.length > 1;
+      if (multiple) {
+        toast.loading('Generating EPUB files...', {
+          id: toastId,
+          description: `Part ${i + 1}/${parts.length}`,
+        });
+      }
+
+      const epubBlob = await createEpub(parts[i], {
+        title: multiple ? `${job.novel.name} - Part ${i + 1}` : job.novel.name,
+        author: job.novel.author,
+        description: job.novel.summary,
+        cover: job.novel.cover,
+        language: translator ? targetLanguage : sourceLanguage || 'en',
+        sourceLanguage:
+          mode === 'bilingual' ? sourceLanguage || undefined : undefined,
+        imageRequestInit: plugin?.imageRequestInit,
+        baseUrl: plugin?.site,
+        images: job.exportOptions.images,
+      });
+
+      const filename = `${baseName}${multiple ? `_part${i + 1}` : ''}.epub`;
+      downloadBlob(epubBlob, filename);
+      filenames.push(filename);
+    }
+
+    const missing = job.chapters.length - chapterContents.length;
+    const notes = [
+      missing > 0 ? `${missing} missing` : '',
+      untranslated > 0 ? `${untranslated} left untranslated` : '',
+    ].filter(Boolean);
+    toast.success('EPUB exported successfully!', {
+      id: toastId,
+      description: `Downloaded ${chapterContents.length} chapters as ${filenames.join(', ')}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Failed to export EPUB';
+    toast.error('Export failed', {
+      id: toastId,
+      description: errorMessage,
+    });
+    console.error('Error exporting EPUB:', error);
+  }
+}
+
 export function useEpubExport({
   plugin,
   sourceNovel,
@@ -18,7 +180,14 @@ export function useEpubExport({
 }: UseEpubExportOptions) {
   const [isExporting, setIsExporting] = useState(false);
 
-  const exportEpub = async () => {
+  /**
+   * Download the selected chapters as a job and export the EPUB once it
+   * completes. The job keeps running in the download queue if the export is
+   * left
+   */
+  const exportEpub = async (
+    exportOptions: EpubExportOptions = { mode: 'original' },
+  ) => {
     if (!plugin || !sourceNovel || chapters.length === 0) {
       toast.error('No novel or chapters available to export');
       return;
@@ -30,81 +199,41 @@ export function useEpubExport({
     });
 
     try {
-      const allChapters: Plugin.ChapterItem[] = [];
+      let allChapters: Plugin.ChapterItem[] = chapters;
+      const { range } = exportOptions;
 
       if (sourceNovel.totalPages && sourceNovel.totalPages > 1) {
+        const totalPages = sourceNovel.totalPages;
+        // Only the pages of a page range are fetched
+        const pageNumbers = getRangePages(totalPages, range);
         toast.loading('Fetching all chapters...', {
           id: toastId,
-          description: `Found ${sourceNovel.totalPages} pages`,
+          description: `Found ${pageNumbers.length} pages`,
         });
 
-        for (let page = 1; page <= sourceNovel.totalPages; page++) {
-          try {
-            const pageResult = await (plugin as Plugin.PagePlugin).parsePage(
-              novelPath,
-              page.toString(),
-            );
-            allChapters.push(...pageResult.chapters);
-
+        allChapters = await downloadManager.collectChapters(
+          plugin,
+          novelPath,
+          pageNumbers,
+          fetched =>
             toast.loading('Fetching chapters...', {
               id: toastId,
-              description: `Page ${page}/${sourceNovel.totalPages} - ${allChapters.length} chapters collected`,
-            });
-          } catch (error) {
-            console.error(`Error fetching page ${page}:`, error);
-          }
-        }
-      } else {
-        allChapters.push(...chapters);
+              description: `Page ${fetched}/${pageNumbers.length}`,
+            }),
+        );
       }
 
-      if (allChapters.length === 0) {
-        toast.error('No chapters found to export', { id: toastId });
-        setIsExporting(false);
+      // Positions number the volumes; with a page range only its pages were
+      // fetched, so they count from the first of them
+      const selected = selectChapters(allChapters, range);
+      if (selected.length === 0) {
+        toast.error('No chapters found to export', {
+          id: toastId,
+          description: range ? 'No chapter is within the range' : undefined,
+        });
         return;
       }
 
-      toast.loading('Fetching chapter content...', {
-        id: toastId,
-        description: `0/${allChapters.length} chapters processed`,
-      });
-
-      const chapterContents: Array<{
-        title: string;
-        content: string;
-        path: string;
-      }> = [];
-
-      for (let i = 0; i < allChapters.length; i++) {
-        const chapter = allChapters[i];
-        try {
-          const content = await plugin.parseChapter(chapter.path);
-          chapterContents.push({
-            title: chapter.name,
-            content: content || '<p>No content available</p>',
-            path: chapter.path,
-          });
-
-          const progress = Math.round(((i + 1) / allChapters.length) * 100);
-          toast.loading('Fetching chapter content...', {
-            id: toastId,
-            description: `${i + 1}/${allChapters.length} chapters processed (${progress}%)`,
-          });
-        } catch (error) {
-          console.error(`Error fetching chapter ${i + 1}:`, error);
-          chapterContents.push({
-            title: chapter.name,
-            content: `<p>Error: Failed to fetch chapter content</p>`,
-            path: chapter.path,
-          });
-        }
-      }
-
-      toast.loading('Generating EPUB file...', {
-        id: toastId,
-        description: 'Creating EPUB structure',
-      });
-
       let coverUrl = sourceNovel.cover;
       if (coverUrl && plugin.resolveUrl) {
         coverUrl = plugin.resolveUrl(coverUrl, true);
@@ -116,21 +245,47 @@ export function useEpubExport({
         coverUrl = coverUrl.startsWith('/') ? coverUrl : '/' + coverUrl;
       }
 
-      const epubBlob = await createEpub(chapterContents, {
-        title: sourceNovel.name,
-        author: sourceNovel.author,
-        description: sourceNovel.summary,
-        cover: coverUrl,
-        language: 'en',
-      });
+      const job = await downloadManager.create(
+        plugin,
+        novelPath,
+        {
+          name: sourceNovel.name,
+          author: sourceNovel.author,
+          summary: sourceNovel.summary,
+          cover: coverUrl,
+        },
+        selected,
+        exportOptions,
+      );
 
-      const filename = `${sourceNovel.name.replace(/[^a-z0-9]/gi, '_')}.epub`;
-      downloadBlob(epubBlob, filename);
+      const showProgress = () => {
+        const progress = getDownloadProgress(job);
+        const percent = Math.round((progress.done / progress.total) * 100);
+        toast.loading('Fetching chapter content...', {
+          id: toastId,
+          description: `${progress.done}/${progress.total} chapters downloaded (${percent}%)${progress.failed > 0 ? `, ${progress.failed} failed` : ''}`,
+        });
+      };
+      showProgress();
+      const stop = downloadManager.subscribe(showProgress);
+      const finished = await downloadManager.waitFor(job.id);
+      stop();
 
-      toast.success('EPUB exported successfully!', {
-        id: toastId,
-        description: `Downloaded ${allChapters.length} chapters as ${filename}`,
-      });
+      if (finished?.status === 'completed') {
+        await exportDownloadJob(finished, toastId);
+      } else if (finished?.status === 'paused') {
+        toast.info('Download paused', {
+          id: toastId,
+          description: 'Resume it from the download queue',
+        });
+      } else if (finished) {
+        toast.error('Some chapters could not be downloaded', {
+          id: toastId,
+          description: `${getDownloadProgress(finished).failed} chapters failed, retry them from the download queue`,
+        });
+      } else {
+        toast.dismiss(toastId);
+      }
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Failed to export EPUB';
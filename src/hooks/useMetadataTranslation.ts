@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { Plugin } from '@/types/plugin';
+import { useAppStore } from '@/store';
+import { getTargetLanguageSetting } from '@/hooks/useTranslation';
+import { CacheScope } from '@/translation/cache';
+import { BUILTIN_ENGINES } from '@/translation/engines';
+import { engineSettings } from '@/translation/engine-settings';
+import { glossaryStore } from '@/translation/glossary';
+import { TranslateOptions } from '@/translation/job';
+import {
+  translateNovelItems,
+  translateSourceNovel,
+} from '@/translation/metadata';
+import {
+  createTranslator,
+  MultiEngineTranslator,
+} from '@/translation/translator';
+import { isAbortError } from '@/translation/utils/abort';
+
+type TranslateMetadata<T> = (
+  translator: MultiEngineTranslator,
+  value: T,
+  options?: TranslateOptions,
+) => Promise<T>;
+
+/**
+ * Translator with the engines and glossary of the chapter view, cached
+ * under the same scope
+ */
+function createMetadataTranslator(scope: CacheScope): MultiEngineTranslator {
+  const engines = engineSettings.getEngineClasses();
+  return createTranslator(getTargetLanguageSetting(), {
+    engines: engines.length > 0 ? engines : [BUILTIN_ENGINES[0]],
+    useMultipleEngines: false,
+    scope,
+    glossary: glossaryStore.getTerms(scope),
+    engineConfigs: engineSettings.getEngineConfigs(),
+  });
+}
+
+/**
+ * Translated copy of a value while metadata translation is on
+ * The original is returned until the translation is ready or when it fails
+ */
+function useMetadataTranslation<T>(
+  value: T | undefined,
+  pluginId: string | undefined,
+  novelPath: string | undefined,
+  translate: TranslateMetadata<T>,
+) {
+  const enabled = useAppStore(state => state.translateMetadata);
+  const [translated, setTranslated] = useState<T>();
+  const [isTranslating, setIsTranslating] = useState(false);
+
+  useEffect(() => {
+    setTranslated(undefined);
+    if (!enabled || !value || !pluginId) {
+      setIsTranslating(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const translator = createMetadataTranslator({ pluginId, novelPath });
+    setIsTranslating(true);
+    translate(translator, value, { signal: controller.signal })
+      .then(result => {
+        // A translation finishing after the value changed is for the old one
+        if (!controller.signal.aborted) {
+          setTranslated(result);
+        }
+      })
+      .catch(error => {
+        if (!isAbortError(error)) {
+          console.error('Error translating metadata:', error);
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsTranslating(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [enabled, value, pluginId, novelPath, translate]);
+
+  return { value: (enabled && translated) || value, isTranslating };
+}
+
+/**
+ * Novel list (popular or search results) with translated names
+ */
+export function useTranslatedNovels(
+  novels: Plugin.NovelItem[],
+  pluginId?: string,
+) {
+  const { value, isTranslating } = useMetadataTranslation(
+    novels,
+    pluginId,
+    undefined,
+    translateNovelItems,
+  );
+  return { novels: value || novels, isTranslating };
+}
+
+/**
+ * Novel with translated name, summary, genres and chapter names
+ */
+export function useTranslatedNovel<T extends Plugin.SourceNovel>(
+  novel: T | undefined,
+  pluginId?: string,
+  novelPath?: string,
+) {
+  const { value, isTranslating } = useMetadataTranslation<T>(
+    novel,
+    pluginId,
+    novelPath,
+    translateSourceNovel,
+  );
+  return { novel: value, isTranslating };
+}
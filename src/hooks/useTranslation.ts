@@ -1,40 +1,45 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { toast } from 'sonner';
 import {
   createTranslator,
+  MergeSegment,
   MultiEngineTranslator,
 } from '@/translation/translator';
-import { BUILTIN_ENGINES, FREE_ENGINES } from '@/translation/engines';
-import { translationCache } from '@/translation/cache';
-
-export interface Language {
-  code: string;
-  name: string;
-}
+import {
+  BUILTIN_ENGINES,
+  FREE_ENGINES,
+  LlmEngine,
+} from '@/translation/engines';
+import { CacheScope, translationCache } from '@/translation/cache';
+import { capabilityRegistry } from '@/translation/capabilities';
+import { engineSettings } from '@/translation/engine-settings';
+import { keyVault } from '@/translation/key-vault';
+import { normalizeLanguage } from '@/translation/languages';
+import { glossaryStore } from '@/translation/glossary';
+import { canSegmentHtml, SegmentedHtml } from '@/translation/segmenter';
+import { TranslateOptions, TranslationEvent } from '@/translation/job';
+import { isAbortError } from '@/translation/utils/abort';
 
-export const SUPPORTED_LANGUAGES: Language[] = [
-  { code: 'es', name: 'Español' },
-  { code: 'en', name: 'English' },
-  { code: 'fr', name: 'Français' },
-  { code: 'de', name: 'Deutsch' },
-  { code: 'it', name: 'Italiano' },
-  { code: 'pt', name: 'Português' },
-  { code: 'ru', name: 'Русский' },
-  { code: 'ja', name: '日本語' },
-  { code: 'ko', name: '한국어' },
-  { code: 'zh-CN', name: '中文 (简体)' },
-  { code: 'zh-TW', name: '中文 (繁體)' },
-  { code: 'ar', name: 'العربية' },
-  { code: 'hi', name: 'हिन्दी' },
-];
+// A segment of the chapter next to its translation, for the bilingual view
+export type BilingualSegment = {
+  id: string;
+  sourceHtml: string;
+  translationHtml: string | null;
+  // Translation with placeholder tokens for inline markup, as edited
+  translation: string | null;
+};
 
 /**
  * Translate text using multi-engine translation system
+ * HTML is translated progressively, reporting each partial result with the
+ * translations by segment ID
  */
 async function translateText(
   text: string,
   targetLang: string,
   translator: MultiEngineTranslator,
+  onPartial: (html: string, translations: Record<string, string>) => void,
+  options: TranslateOptions,
 ): Promise<string> {
   if (!text.trim()) {
     return text;
@@ -45,12 +50,22 @@ async function translateText(
     const hasHtml = /<[a-z][\s\S]*>/i.test(text);
 
     if (hasHtml) {
-      return await translator.translateHtml(text);
+      let result = text;
+      for await (const progress of translator.translateHtmlStream(
+        text,
+        options,
+      )) {
+        result = progress.html;
+        onPartial(result, progress.translations);
+      }
+      return result;
     } else {
-      return await translator.translate(text);
+      return await translator.translate(text, options);
     }
   } catch (error) {
-    console.error('Translation error:', error);
+    if (!isAbortError(error)) {
+      console.error('Translation error:', error);
+    }
     throw error;
   }
 }
@@ -60,12 +75,30 @@ const getAutoTranslateSetting = (): boolean => {
   return true;
 };
 
-const getTargetLanguageSetting = (): string => {
+export const getTargetLanguageSetting = (): string => {
   if (typeof window === 'undefined') return 'es';
-  return localStorage.getItem('lnreader_target_language') || 'es';
+  // Older versions stored regional codes such as zh-CN
+  return normalizeLanguage(
+    localStorage.getItem('lnreader_target_language') || 'es',
+  );
+};
+
+const getContextModeSetting = (): boolean => {
+  if (typeof window === 'undefined') return false;
+  return localStorage.getItem('lnreader_llm_context_mode') === 'true';
 };
 
-export function useTranslation() {
+/**
+ * @param scope Novel/plugin whose translation memory is used
+ * @param chapterPath Chapter folded into the novel summary in context mode
+ * @param chapterText Chapter being shown, translations of any other text are
+ * cancelled when it changes
+ */
+export function useTranslation(
+  scope?: CacheScope,
+  chapterPath?: string,
+  chapterText?: string,
+) {
   const [isTranslating, setIsTranslating] = useState(false);
   const [translatedText, setTranslatedText] = useState<string | null>(null);
   const [targetLanguage, setTargetLanguage] = useState<string>(
@@ -75,16 +108,106 @@ export function useTranslation() {
   const [useMultipleEngines, setUseMultipleEngines] = useState(true);
   const [autoTranslate, setAutoTranslate] = useState(getAutoTranslateSetting());
   const [cacheStats, setCacheStats] = useState(translationCache.getStats());
+  const [mergeSegments, setMergeSegments] = useState<MergeSegment[]>([]);
+  const [contextMode, setContextMode] = useState(getContextModeSetting());
+  const [glossary, setGlossary] = useState(() => glossaryStore.getTerms(scope));
+  const [progress, setProgress] = useState<TranslationEvent | null>(null);
+  const [, setSettingsVersion] = useState(0);
+  const [segmentTranslations, setSegmentTranslations] = useState<
+    Record<string, string>
+  >({});
+  const abortRef = useRef<AbortController | null>(null);
+  // Text of the latest translation, running or finished
+  const sourceRef = useRef<string | null>(null);
+  // Latest segment translations, edits can finish while others are running
+  const segmentTranslationsRef = useRef<Record<string, string>>({});
+
+  // The chapter split into the same segments as the translator splits it
+  const segmented = useMemo(
+    () =>
+      chapterText && canSegmentHtml() ? new SegmentedHtml(chapterText) : null,
+    [chapterText],
+  );
+
+  // Follow glossary edits and novel changes
+  useEffect(() => {
+    const update = () => setGlossary(glossaryStore.getTerms(scope));
+    update();
+    return glossaryStore.subscribe(update);
+  }, [scope?.pluginId, scope?.novelPath]);
+
+  // Follow engine settings and API keys being unlocked
+  useEffect(() => {
+    const update = () => setSettingsVersion(version => version + 1);
+    const stopSettings = engineSettings.subscribe(update);
+    const stopVault = keyVault.subscribe(update);
+    return () => {
+      stopSettings();
+      stopVault();
+    };
+  }, []);
+
+  // Enabled engines in priority order, Google when every engine is disabled
+  const enabledEngines = engineSettings.getEngineClasses();
+  const engines =
+    enabledEngines.length > 0 ? enabledEngines : [BUILTIN_ENGINES[0]];
 
   // Create translator instance
   const translator = createTranslator(targetLanguage, {
     engines: useMultipleEngines
-      ? Array.from(BUILTIN_ENGINES) // Use all available engines
-      : [BUILTIN_ENGINES[0]], // Use only first engine
+      ? engines // Use all enabled engines
+      : [engines[0]], // Use only the first one
     useMultipleEngines,
+    mergeStrategy: 'vote',
     sourceLang: 'auto',
+    scope,
+    glossary,
+    contextMode,
+    chapterPath,
+    engineConfigs: engineSettings.getEngineConfigs(),
   });
 
+  // Target languages, with the active engines translating into each one
+  const engineNames = translator.getEngines().map(engine => engine.name);
+  const languages = capabilityRegistry.getTargetLanguages().map(language => ({
+    ...language,
+    engines: language.engines.filter(name => engineNames.indexOf(name) !== -1),
+  }));
+
+  // Paragraph-aligned segments, empty until some segment is translated
+  const bilingualSegments = useMemo<BilingualSegment[]>(() => {
+    if (!segmented || Object.keys(segmentTranslations).length === 0) {
+      return [];
+    }
+    return segmented.segments.map(segment => {
+      const translation = segmentTranslations[segment.id];
+      return {
+        id: segment.id,
+        sourceHtml: segmented.render(segment.id),
+        translationHtml:
+          translation === undefined
+            ? null
+            : segmented.render(segment.id, translation),
+        translation: translation === undefined ? null : translation,
+      };
+    });
+  }, [segmented, segmentTranslations]);
+
+  // Usage counters are read from IndexedDB asynchronously
+  useEffect(() => {
+    translationCache.loadStats().then(setCacheStats);
+  }, []);
+
+  // Stop the running translation when the component goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // A translation of the previous chapter must not replace the new one
+  useEffect(() => {
+    if (sourceRef.current !== null && sourceRef.current !== chapterText) {
+      resetTranslation();
+    }
+  }, [chapterText]);
+
   const translate = async (
     text: string,
     lang: string = targetLanguage,
@@ -95,7 +218,14 @@ export function useTranslation() {
       return;
     }
 
+    // A new translation replaces the one in progress
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    sourceRef.current = text;
+
     setIsTranslating(true);
+    setProgress(null);
     setTargetLanguage(lang);
 
     // Save language preference
@@ -103,26 +233,139 @@ export function useTranslation() {
 
     // Update translator with new language
     translator.setTargetLang(lang);
+    translator.clearMergeReports();
 
     try {
       if (!silent) {
         toast.info('Traduciendo capítulo con múltiples motores...');
       }
-      const result = await translateText(text, lang, translator);
+      const result = await translateText(
+        text,
+        lang,
+        translator,
+        (html, translations) => {
+          if (controller.signal.aborted) return;
+          setTranslatedText(html);
+          setIsTranslated(true);
+          updateSegmentTranslations(translations);
+        },
+        { signal: controller.signal, onProgress: setProgress },
+      );
+      if (controller.signal.aborted) {
+        return;
+      }
       setTranslatedText(result);
       setIsTranslated(true);
+      setMergeSegments(
+        translator.getMergeReports().flatMap(report => report.segments),
+      );
       if (!silent) {
         toast.success(
           `Capítulo traducido exitosamente usando ${useMultipleEngines ? 'múltiples motores' : translator.getEngines()[0].name}`,
         );
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
       console.error('Error translating:', error);
       if (!silent) {
         toast.error('Error al traducir el capítulo. Intenta nuevamente.');
       }
     } finally {
-      setIsTranslating(false);
+      // A newer translation owns the state once this one was replaced
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsTranslating(false);
+        setProgress(null);
+        setCacheStats(translationCache.getStats());
+      }
+    }
+  };
+
+  /**
+   * Stop the running translation, keeping the segments already translated
+   */
+  const cancelTranslation = () => {
+    const controller = abortRef.current;
+    if (!controller) {
+      return;
+    }
+    abortRef.current = null;
+    controller.abort();
+    setIsTranslating(false);
+    setProgress(null);
+    setCacheStats(translationCache.getStats());
+    toast.info('Traducción cancelada');
+  };
+
+  const updateSegmentTranslations = (translations: Record<string, string>) => {
+    segmentTranslationsRef.current = translations;
+    setSegmentTranslations(translations);
+  };
+
+  /**
+   * Show a new translation of a segment, and of every segment with the same
+   * source text since they share the cache entry
+   */
+  const replaceSegment = (id: string, translation: string) => {
+    const segment = segmented?.segments.find(s => s.id === id);
+    if (!segmented || !segment) {
+      return;
+    }
+
+    const translations = { ...segmentTranslationsRef.current };
+    segmented.segments.forEach(other => {
+      if (other.source === segment.source) {
+        translations[other.id] = translation;
+      }
+    });
+    updateSegmentTranslations(translations);
+    setTranslatedText(segmented.apply(translations));
+    setCacheStats(translationCache.getStats());
+  };
+
+  /**
+   * Translate a segment again with another engine
+   */
+  const retranslateSegment = async (id: string, engineName: string) => {
+    const segment = segmented?.segments.find(s => s.id === id);
+    if (!segment) {
+      return;
+    }
+
+    const source = sourceRef.current;
+    try {
+      const result = await translator.translateWith(engineName, segment.source);
+      // The chapter changed while translating
+      if (sourceRef.current !== source) return;
+      replaceSegment(id, result);
+    } catch (error) {
+      console.error('Error translating segment:', error);
+      toast.error(
+        `Error al traducir el segmento con ${engineName}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  };
+
+  /**
+   * Replace the translation of a segment with one written by hand
+   * Stored in the translation memory as authoritative, so engines never
+   * overwrite it
+   */
+  const editSegment = async (id: string, translation: string) => {
+    const segment = segmented?.segments.find(s => s.id === id);
+    if (!segment || !translation.trim()) {
+      return;
+    }
+
+    try {
+      await translator.setTranslation(segment.source, translation.trim());
+      replaceSegment(id, translation.trim());
+      toast.success('Traducción del segmento guardada');
+    } catch (error) {
+      console.error('Error saving segment translation:', error);
+      toast.error('Error al guardar la traducción del segmento');
     }
   };
 
@@ -131,17 +374,65 @@ export function useTranslation() {
     localStorage.setItem('lnreader_auto_translate', enabled.toString());
   };
 
+  const setContextModeEnabled = (enabled: boolean) => {
+    setContextMode(enabled);
+    localStorage.setItem('lnreader_llm_context_mode', enabled.toString());
+  };
+
   const resetTranslation = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    sourceRef.current = null;
+    setIsTranslating(false);
+    setProgress(null);
     setTranslatedText(null);
     setIsTranslated(false);
+    setMergeSegments([]);
+    updateSegmentTranslations({});
   };
 
-  const clearCache = () => {
-    translationCache.clear();
+  // Number of merged segments won by each engine
+  const engineWins = mergeSegments.reduce<Record<string, number>>(
+    (wins, segment) => {
+      wins[segment.engine] = (wins[segment.engine] || 0) + 1;
+      return wins;
+    },
+    {},
+  );
+
+  const clearCache = async () => {
+    await translationCache.clear();
     setCacheStats(translationCache.getStats());
     toast.success('Caché de traducciones limpiado');
   };
 
+  const exportMemory = async () => {
+    try {
+      const tmx = await translationCache.exportTmx();
+      const blob = new Blob([tmx], { type: 'application/x-tmx+xml' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'translation-memory.tmx';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting translation memory:', error);
+      toast.error('Error al exportar la memoria de traducción');
+    }
+  };
+
+  const importMemory = async (file: File) => {
+    try {
+      const imported = await translationCache.importTmx(await file.text());
+      setCacheStats(translationCache.getStats());
+      toast.success(`${imported} traducciones importadas`);
+    } catch (error) {
+      console.error('Error importing translation memory:', error);
+      toast.error('Error al importar el archivo TMX');
+    }
+  };
+
   const refreshCacheStats = () => {
     setCacheStats(translationCache.getStats());
   };
@@ -149,6 +440,8 @@ export function useTranslation() {
   return {
     translate,
     isTranslating,
+    progress,
+    cancelTranslation,
     translatedText,
     targetLanguage,
     setTargetLanguage,
@@ -158,10 +451,22 @@ export function useTranslation() {
     setUseMultipleEngines,
     autoTranslate,
     setAutoTranslate: setAutoTranslateEnabled,
+    contextMode,
+    setContextMode: setContextModeEnabled,
+    hasLlmEngines: translator
+      .getEngines()
+      .some(engine => engine instanceof LlmEngine),
     cacheStats,
     clearCache,
     refreshCacheStats,
-    SUPPORTED_LANGUAGES,
+    exportMemory,
+    importMemory,
+    mergeSegments,
+    engineWins,
+    languages,
+    bilingualSegments,
+    retranslateSegment,
+    editSegment,
     availableEngines: translator.getEngines().map(e => ({
       name: e.name,
       alias: e.alias,
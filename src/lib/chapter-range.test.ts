@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getVolumes, selectChapters } from './chapter-range';
+
+const CHAPTERS = Array.from({ length: 200 }, (_, i) => ({
+  name: `Chapter ${i + 1}`,
+  path: `/chapter/${i + 1}`,
+  chapterNumber: i + 1,
+}));
+
+describe('getVolumes', () => {
+  it('numbers fixed-size volumes from the position in the full list', () => {
+    const selected = selectChapters(CHAPTERS, { by: 'index', from: 101 });
+    const volumes = getVolumes(selected, 50, 'index');
+
+    expect(selected).toHaveLength(100);
+    expect(volumes[0]).toBe('Volume 3');
+    expect(volumes[49]).toBe('Volume 3');
+    expect(volumes[50]).toBe('Volume 4');
+  });
+
+  it('numbers volumes from chapter numbers in chapter number ranges', () => {
+    // The prologue puts every chapter one place after its number
+    const chapters = [{ name: 'Prologue', path: '/prologue' }, ...CHAPTERS];
+    const selected = selectChapters(chapters, {
+      by: 'chapterNumber',
+      from: 100,
+      to: 151,
+    });
+    const volumes = getVolumes(selected, 50, 'chapterNumber');
+
+    expect(volumes[0]).toBe('Volume 2');
+    expect(volumes[1]).toBe('Volume 3');
+    expect(volumes[50]).toBe('Volume 3');
+    expect(volumes[51]).toBe('Volume 4');
+  });
+
+  it('groups chapters by page', () => {
+    const chapters = [
+      { name: 'A', path: '/a', page: '2' },
+      { name: 'B', path: '/b', page: 'Arc One' },
+    ];
+
+    expect(getVolumes(chapters, 'page')).toEqual(['Volume 2', 'Arc One']);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Chapter selection for EPUB export
+ * Picks a range of chapters, groups them into volumes and splits them into
+ * several books
+ */
+
+import { Plugin } from '@/types/plugin';
+
+export type ChapterRange = {
+  // Position in the chapter list (from 1), chapter number or source page
+  by: 'index' | 'chapterNumber' | 'page';
+  // Inclusive bounds, open when unset
+  from?: number;
+  to?: number;
+};
+
+// Volumes of a fixed number of chapters, or one volume per source page
+export type VolumeGrouping = number | 'page';
+
+type PagedChapter = { page?: string };
+
+// Chapter of a selection, with its place in the full chapter list
+export type SelectedChapter = Plugin.ChapterItem & { position?: number };
+
+type VolumeChapter = PagedChapter & {
+  chapterNumber?: number;
+  position?: number;
+};
+
+function inRange(value: number, range: ChapterRange): boolean {
+  return (
+    (range.from === undefined || value >= range.from) &&
+    (range.to === undefined || value <= range.to)
+  );
+}
+
+/**
+ * Number of each chapter's page, from 1. Plugins without pages may use page
+ * names such as "Volume 1", those are numbered in order of appearance
+ */
+function getPageNumbers(chapters: PagedChapter[]): number[] {
+  const pages: string[] = [];
+  return chapters.map(chapter => {
+    const page = chapter.page || '';
+    if (page && !isNaN(Number(page))) {
+      return Number(page);
+    }
+    if (pages.indexOf(page) === -1) {
+      pages.push(page);
+    }
+    return pages.indexOf(page) + 1;
+  });
+}
+
+/**
+ * Chapters within a range with their position in the list (from 1), every
+ * chapter without one. Chapters without a number are left out of chapter
+ * number ranges
+ */
+export function selectChapters(
+  chapters: Plugin.ChapterItem[],
+  range?: ChapterRange,
+): SelectedChapter[] {
+  const positioned = chapters.map((chapter, i) => ({
+    ...chapter,
+    position: i + 1,
+  }));
+  if (!range || (range.from === undefined && range.to === undefined)) {
+    return positioned;
+  }
+
+  const pageNumbers = getPageNumbers(chapters);
+  return positioned.filter((chapter, i) => {
+    switch (range.by) {
+      case 'chapterNumber':
+        return (
+          chapter.chapterNumber !== undefined &&
+          inRange(chapter.chapterNumber, range)
+        );
+      case 'page':
+        return inRange(pageNumbers[i], range);
+      default:
+        return inRange(i + 1, range);
+    }
+  });
+}
+
+/**
+ * Pages of a paged novel holding the chapters of a range
+ */
+export function getRangePages(
+  totalPages: number,
+  range?: ChapterRange,
+): number[] {
+  const pages = Array.from({ length: totalPages }, (_, i) => i + 1);
+  return range?.by === 'page'
+    ? pages.filter(page => inRange(page, range))
+    : pages;
+}
+
+/**
+ * Volume title of each chapter, none without a grouping
+ * Fixed-size volumes are numbered from each chapter's position in the full
+ * list, or from its number when the chapters were picked by chapter number,
+ * so a range starting midway keeps the volumes of the whole novel
+ */
+export function getVolumes(
+  chapters: VolumeChapter[],
+  grouping?: VolumeGrouping,
+  rangeBy?: ChapterRange['by'],
+): (string | undefined)[] {
+  if (grouping === 'page') {
+    const pageNumbers = getPageNumbers(chapters);
+    return chapters.map((chapter, i) =>
+      chapter.page && isNaN(Number(chapter.page))
+        ? chapter.page
+        : `Volume ${pageNumbers[i]}`,
+    );
+  }
+  if (grouping && grouping > 0) {
+    return chapters.map((chapter, i) => {
+      const position =
+        rangeBy === 'chapterNumber' && chapter.chapterNumber !== undefined
+          ? chapter.chapterNumber
+          : chapter.position || i + 1;
+      return `Volume ${Math.max(1, Math.floor((position - 1) / grouping) + 1)}`;
+    });
+  }
+  return chapters.map(() => undefined);
+}
+
+/**
+ * Split chapters into parts of a number of chapters, a single part when the
+ * size is unset
+ */
+export function splitChapters<T>(chapters: T[], size?: number): T[][] {
+  if (!size || size <= 0 || chapters.length <= size) {
+    return [chapters];
+  }
+  const parts: T[][] = [];
+  for (let i = 0; i < chapters.length; i += size) {
+    parts.push(chapters.slice(i, i + size));
+  }
+  return parts;
+}
@@ -0,0 +1,219 @@
+/**
+ * Download job storage backends
+ * Jobs and the chapters they downloaded are kept in IndexedDB, so a job can
+ * resume after the page is reloaded. A Map is used everywhere else.
+ */
+
+import type { EpubExportOptions } from '@/lib/epub';
+
+export type DownloadStatus = 'running' | 'paused' | 'completed' | 'failed';
+
+export type DownloadChapter = {
+  path: string;
+  name: string;
+  // Source page, used to group chapters into volumes
+  page?: string;
+  // Position in the novel's chapter list (from 1) and chapter number, used
+  // to number fixed-size volumes
+  position?: number;
+  chapterNumber?: number;
+  status: 'pending' | 'done' | 'failed';
+  // Last error of a failed chapter
+  error?: string;
+};
+
+export type DownloadJob = {
+  id: string;
+  pluginId: string;
+  novelPath: string;
+  novel: {
+    name: string;
+    author?: string;
+    summary?: string;
+    cover?: string;
+  };
+  // How the EPUB is built once every chapter is downloaded
+  exportOptions: EpubExportOptions;
+  status: DownloadStatus;
+  // Why the whole job failed, e.g. an unknown plugin
+  error?: string;
+  chapters: DownloadChapter[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type StoredChapter = {
+  key: string;
+  jobId: string;
+  path: string;
+  content: string;
+};
+
+export type DownloadStore = {
+  getJobs(): Promise<DownloadJob[]>;
+  putJob(job: DownloadJob): Promise<void>;
+  /**
+   * Delete a job and every chapter it downloaded
+   */
+  deleteJob(jobId: string): Promise<void>;
+  putChapter(chapter: StoredChapter): Promise<void>;
+  getChapters(jobId: string): Promise<StoredChapter[]>;
+  /**
+   * Paths of the chapters downloaded by a job, without reading their content
+   */
+  getChapterPaths(jobId: string): Promise<string[]>;
+};
+
+const DB_NAME = 'lnreader_downloads';
+const DB_VERSION = 1;
+const JOB_STORE = 'jobs';
+const CHAPTER_STORE = 'chapters';
+const KEY_SEPARATOR = '\u0000';
+
+export function getChapterKey(jobId: string, path: string): string {
+  return jobId + KEY_SEPARATOR + path;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * IndexedDB backend, chapters are indexed by job
+ */
+export class IndexedDbDownloadStore implements DownloadStore {
+  private db?: Promise<IDBDatabase>;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(JOB_STORE, { keyPath: 'id' });
+          const chapters = request.result.createObjectStore(CHAPTER_STORE, {
+            keyPath: 'key',
+          });
+          chapters.createIndex('jobId', 'jobId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async objectStore(name: string, mode: 'readonly' | 'readwrite') {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  async getJobs(): Promise<DownloadJob[]> {
+    const store = await this.objectStore(JOB_STORE, 'readonly');
+    return await promisify<DownloadJob[]>(store.getAll());
+  }
+
+  async putJob(job: DownloadJob): Promise<void> {
+    const store = await this.objectStore(JOB_STORE, 'readwrite');
+    await promisify(store.put(job));
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([JOB_STORE, CHAPTER_STORE], 'readwrite');
+    transaction.objectStore(JOB_STORE).delete(jobId);
+
+    const request = transaction
+      .objectStore(CHAPTER_STORE)
+      .index('jobId')
+      .openKeyCursor(IDBKeyRange.only(jobId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        transaction.objectStore(CHAPTER_STORE).delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+
+    await transactionDone(transaction);
+  }
+
+  async putChapter(chapter: StoredChapter): Promise<void> {
+    const store = await this.objectStore(CHAPTER_STORE, 'readwrite');
+    await promisify(store.put(chapter));
+  }
+
+  async getChapters(jobId: string): Promise<StoredChapter[]> {
+    const store = await this.objectStore(CHAPTER_STORE, 'readonly');
+    return await promisify<StoredChapter[]>(
+      store.index('jobId').getAll(IDBKeyRange.only(jobId)),
+    );
+  }
+
+  async getChapterPaths(jobId: string): Promise<string[]> {
+    const store = await this.objectStore(CHAPTER_STORE, 'readonly');
+    const keys = await promisify(
+      store.index('jobId').getAllKeys(IDBKeyRange.only(jobId)),
+    );
+    const prefix = getChapterKey(jobId, '');
+    return keys.map(key => String(key).substring(prefix.length));
+  }
+}
+
+/**
+ * In-memory backend for environments without IndexedDB
+ */
+export class MemoryDownloadStore implements DownloadStore {
+  private jobs = new Map<string, DownloadJob>();
+  private chapters = new Map<string, StoredChapter>();
+
+  async getJobs(): Promise<DownloadJob[]> {
+    return Array.from(this.jobs.values());
+  }
+
+  async putJob(job: DownloadJob): Promise<void> {
+    this.jobs.set(job.id, job);
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+    this.chapters.forEach((chapter, key) => {
+      if (chapter.jobId === jobId) {
+        this.chapters.delete(key);
+      }
+    });
+  }
+
+  async putChapter(chapter: StoredChapter): Promise<void> {
+    this.chapters.set(chapter.key, chapter);
+  }
+
+  async getChapters(jobId: string): Promise<StoredChapter[]> {
+    return Array.from(this.chapters.values()).filter(
+      chapter => chapter.jobId === jobId,
+    );
+  }
+
+  async getChapterPaths(jobId: string): Promise<string[]> {
+    return (await this.getChapters(jobId)).map(chapter => chapter.path);
+  }
+}
+
+/**
+ * Pick the best backend available in the current environment
+ */
+export function createDownloadStore(): DownloadStore {
+  return typeof indexedDB !== 'undefined'
+    ? new IndexedDbDownloadStore()
+    : new MemoryDownloadStore();
+}
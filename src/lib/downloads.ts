@@ -0,0 +1,415 @@
+/**
+ * Bulk chapter downloads
+ * Chapters of a novel are downloaded as a job: several at a time per plugin,
+ * retried with backoff and stored as they arrive, so a job survives page
+ * reloads and only the missing chapters are fetched again
+ */
+
+import { Plugin } from '@/types/plugin';
+import { getPlugin } from '@/provider/plugins';
+import type { ChapterData, EpubExportOptions } from '@/lib/epub';
+import { getVolumes, SelectedChapter } from '@/lib/chapter-range';
+import {
+  createDownloadStore,
+  DownloadJob,
+  DownloadStore,
+  getChapterKey,
+  MemoryDownloadStore,
+} from '@/lib/download-store';
+import { rateLimiter, RateLimits } from '@/translation/rate-limiter';
+import { isAbortError, sleep } from '@/translation/utils/abort';
+
+export type {
+  DownloadChapter,
+  DownloadJob,
+  DownloadStatus,
+} from '@/lib/download-store';
+
+// Requests sent to a plugin's site at the same time, by every job
+const PLUGIN_LIMITS: RateLimits = {
+  concurrency: 3,
+  interval: 0.2,
+  requestsPerMinute: 0,
+  charsPerMinute: 0,
+};
+const MAX_ATTEMPTS = 3;
+// Delay before the first retry, doubled on each attempt
+const RETRY_DELAY = 1000;
+
+export type DownloadNovel = DownloadJob['novel'];
+
+export type DownloadProgress = {
+  done: number;
+  failed: number;
+  total: number;
+};
+
+export function getDownloadProgress(job: DownloadJob): DownloadProgress {
+  const progress: DownloadProgress = {
+    done: 0,
+    failed: 0,
+    total: job.chapters.length,
+  };
+  job.chapters.forEach(chapter => {
+    if (chapter.status === 'done') progress.done++;
+    if (chapter.status === 'failed') progress.failed++;
+  });
+  return progress;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Run a plugin request within the plugin's limits, retrying failures
+ */
+async function withRetries<T>(
+  pluginId: string,
+  task: () => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await rateLimiter.schedule(
+        `plugin:${pluginId}`,
+        PLUGIN_LIMITS,
+        0,
+        task,
+        signal,
+      );
+    } catch (error) {
+      if (isAbortError(error) || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+      await sleep(RETRY_DELAY * 2 ** (attempt - 1), signal);
+    }
+  }
+}
+
+export class DownloadManager {
+  private store: DownloadStore;
+  private jobs: DownloadJob[] = [];
+  private controllers: Record<string, AbortController> = {};
+  private listeners = new Set<() => void>();
+  private ready?: Promise<void>;
+
+  constructor(store?: DownloadStore) {
+    this.store = store || createDownloadStore();
+  }
+
+  /**
+   * Load the saved jobs (once), resuming the ones a reload interrupted
+   */
+  load(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.restore();
+    }
+    return this.ready;
+  }
+
+  /**
+   * Jobs from the newest to the oldest
+   */
+  getJobs(): DownloadJob[] {
+    return this.jobs.slice().sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  getJob(jobId: string): DownloadJob | undefined {
+    return this.jobs.find(job => job.id === jobId);
+  }
+
+  /**
+   * Chapters of the given pages of a novel, fetched within the plugin's
+   * limits and tagged with their page. Pages that keep failing are skipped
+   */
+  async collectChapters(
+    plugin: Plugin.PluginBase,
+    novelPath: string,
+    pageNumbers: number[],
+    onPage?: (fetched: number) => void,
+  ): Promise<Plugin.ChapterItem[]> {
+    let fetched = 0;
+    const pages = await Promise.all(
+      pageNumbers.map(async pageNumber => {
+        try {
+          const page = await withRetries(plugin.id, () =>
+            (plugin as Plugin.PagePlugin).parsePage(
+              novelPath,
+              pageNumber.toString(),
+            ),
+          );
+          return page.chapters.map(chapter => ({
+            ...chapter,
+            page: pageNumber.toString(),
+          }));
+        } catch (error) {
+          console.error(`Error fetching page ${pageNumber}:`, error);
+          return [];
+        } finally {
+          onPage?.(++fetched);
+        }
+      }),
+    );
+    return pages.reduce(
+      (all, chapters) => all.concat(chapters),
+      [] as Plugin.ChapterItem[],
+    );
+  }
+
+  /**
+   * Create a job downloading chapters of a novel and start it
+   */
+  async create(
+    plugin: Plugin.PluginBase,
+    novelPath: string,
+    novel: DownloadNovel,
+    chapters: SelectedChapter[],
+    exportOptions: EpubExportOptions,
+  ): Promise<DownloadJob> {
+    await this.load();
+
+    const now = Date.now();
+    const job: DownloadJob = {
+      id: `${now.toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+      pluginId: plugin.id,
+      novelPath,
+      novel,
+      exportOptions,
+      status: 'running',
+      // A chapter listed twice is downloaded once
+      chapters: chapters
+        .filter(
+          (chapter, i) =>
+            chapters.findIndex(other => other.path === chapter.path) === i,
+        )
+        .map(chapter => ({
+          path: chapter.path,
+          name: chapter.name,
+          page: chapter.page,
+          position: chapter.position,
+          chapterNumber: chapter.chapterNumber,
+          status: 'pending',
+        })),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.push(job);
+    await this.save(job);
+    this.run(job);
+    return job;
+  }
+
+  /**
+   * Stop a running job, chapters downloaded so far are kept
+   */
+  pause(jobId: string): void {
+    this.controllers[jobId]?.abort();
+  }
+
+  /**
+   * Continue a paused or failed job with the chapters still pending
+   */
+  resume(jobId: string): void {
+    const job = this.getJob(jobId);
+    if (job && job.status !== 'running') {
+      this.run(job);
+    }
+  }
+
+  /**
+   * Download the failed chapters of a job again
+   */
+  retryFailed(jobId: string): void {
+    const job = this.getJob(jobId);
+    if (!job || job.status === 'running') {
+      return;
+    }
+    job.chapters.forEach(chapter => {
+      if (chapter.status === 'failed') {
+        chapter.status = 'pending';
+        delete chapter.error;
+      }
+    });
+    this.run(job);
+  }
+
+  /**
+   * Delete a job and the chapters it downloaded
+   */
+  async remove(jobId: string): Promise<void> {
+    this.pause(jobId);
+    this.jobs = this.jobs.filter(job => job.id !== jobId);
+    try {
+      await this.store.deleteJob(jobId);
+    } catch (error) {
+      console.warn('Failed to delete download job:', error);
+    }
+    this.notify();
+  }
+
+  /**
+   * Downloaded chapters of a job in reading order with their volumes,
+   * failed ones left out
+   */
+  async getChapters(jobId: string): Promise<ChapterData[]> {
+    const job = this.getJob(jobId);
+    if (!job) {
+      return [];
+    }
+
+    const contents: Record<string, string> = {};
+    (await this.store.getChapters(jobId)).forEach(chapter => {
+      contents[chapter.path] = chapter.content;
+    });
+
+    // Volumes are numbered before missing chapters are dropped
+    const volumes = getVolumes(
+      job.chapters,
+      job.exportOptions.volumes,
+      job.exportOptions.range?.by,
+    );
+    const chapters: ChapterData[] = [];
+    job.chapters.forEach((chapter, i) => {
+      const content = contents[chapter.path];
+      if (content !== undefined) {
+        chapters.push({
+          title: chapter.name,
+          content: content || '<p>No content available</p>',
+          path: chapter.path,
+          volume: volumes[i],
+        });
+      }
+    });
+    return chapters;
+  }
+
+  /**
+   * Wait until a job stops running (completed, failed or paused)
+   */
+  waitFor(jobId: string): Promise<DownloadJob | undefined> {
+    return new Promise(resolve => {
+      const check = () => {
+        const job = this.getJob(jobId);
+        if (!job || job.status !== 'running') {
+          stop();
+          resolve(job);
+        }
+      };
+      const stop = this.subscribe(check);
+      check();
+    });
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      this.jobs = await this.store.getJobs();
+    } catch (error) {
+      console.warn('Download jobs unavailable, using memory:', error);
+      this.store = new MemoryDownloadStore();
+      this.jobs = [];
+    }
+
+    // Chapter statuses are only saved on job changes, the stored chapters
+    // tell which downloads finished
+    for (const job of this.jobs) {
+      const downloaded = await this.store.getChapterPaths(job.id);
+      job.chapters.forEach(chapter => {
+        if (downloaded.indexOf(chapter.path) !== -1) {
+          chapter.status = 'done';
+        } else if (chapter.status === 'done') {
+          chapter.status = 'pending';
+        }
+      });
+    }
+    this.notify();
+
+    this.jobs
+      .filter(job => job.status === 'running')
+      .forEach(job => this.run(job));
+  }
+
+  private async save(job: DownloadJob): Promise<void> {
+    // Removed while its last requests were running
+    if (this.jobs.indexOf(job) === -1) {
+      return;
+    }
+    job.updatedAt = Date.now();
+    try {
+      await this.store.putJob(job);
+    } catch (error) {
+      console.warn('Failed to save download job:', error);
+    }
+    this.notify();
+  }
+
+  private async run(job: DownloadJob): Promise<void> {
+    const plugin = getPlugin(job.pluginId);
+    if (!plugin) {
+      job.status = 'failed';
+      job.error = `Plugin ${job.pluginId} not found`;
+      await this.save(job);
+      return;
+    }
+
+    const controller = new AbortController();
+    this.controllers[job.id] = controller;
+    job.status = 'running';
+    delete job.error;
+    await this.save(job);
+
+    // Requests already sent when pausing are let finish
+    await Promise.all(
+      job.chapters
+        .filter(chapter => chapter.status === 'pending')
+        .map(async chapter => {
+          try {
+            const content = await withRetries(
+              plugin.id,
+              () => plugin.parseChapter(chapter.path),
+              controller.signal,
+            );
+            if (controller.signal.aborted && !this.getJob(job.id)) return;
+            await this.store.putChapter({
+              key: getChapterKey(job.id, chapter.path),
+              jobId: job.id,
+              path: chapter.path,
+              content,
+            });
+            chapter.status = 'done';
+          } catch (error) {
+            if (isAbortError(error)) return;
+            chapter.status = 'failed';
+            chapter.error = errorMessage(error);
+            console.error(`Error fetching chapter ${chapter.path}:`, error);
+          }
+          this.notify();
+        }),
+    );
+    delete this.controllers[job.id];
+
+    if (controller.signal.aborted) {
+      job.status = 'paused';
+    } else if (job.chapters.some(chapter => chapter.status === 'failed')) {
+      job.status = 'failed';
+    } else {
+      job.status = 'completed';
+    }
+    await this.save(job);
+  }
+}
+
+// Singleton instance
+export const downloadManager = new DownloadManager();
@@ -0,0 +1,249 @@
+/**
+ * EPUB image embedding
+ * Images referenced by chapters are downloaded with the plugin's image
+ * request options, optionally downscaled or converted to JPEG, and stored in
+ * the book so it reads offline
+ */
+
+import { Plugin } from '@/types/plugin';
+import { fetchApi } from '@libs/fetch';
+
+export type EpubImageOptions = {
+  // Larger images are downscaled, keeping their aspect ratio
+  maxWidth?: number;
+  maxHeight?: number;
+  convertToJpeg?: boolean;
+  // From 0 to 1
+  jpegQuality?: number;
+};
+
+export type EpubImage = {
+  id: string;
+  // Path inside OEBPS
+  href: string;
+  mediaType: string;
+  data: ArrayBuffer;
+};
+
+type FetchedImage = {
+  data: ArrayBuffer;
+  mediaType: string;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+// Images downloaded at the same time
+const CONCURRENCY = 4;
+const DEFAULT_JPEG_QUALITY = 0.85;
+
+/**
+ * Media type from the file signature, the content type or the URL
+ * Only types EPUB readers support are returned
+ */
+function detectMediaType(
+  data: ArrayBuffer,
+  contentType: string,
+  url: string,
+): string | null {
+  const bytes = new Uint8Array(data.slice(0, 12));
+  const ascii = String.fromCharCode.apply(null, Array.from(bytes));
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (ascii.substring(1, 4) === 'PNG') return 'image/png';
+  if (ascii.substring(0, 3) === 'GIF') return 'image/gif';
+  if (ascii.substring(0, 4) === 'RIFF' && ascii.substring(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (EXTENSIONS[type]) {
+    return type;
+  }
+  if (/\.svg(\?|#|$)/i.test(url) || /^\s*<(\?xml|svg)/.test(ascii)) {
+    return 'image/svg+xml';
+  }
+  return null;
+}
+
+export function getImageExtension(mediaType: string): string {
+  return EXTENSIONS[mediaType] || 'jpg';
+}
+
+function decodeDataUrl(url: string): FetchedImage | null {
+  const match = url.match(/^data:([^;,]*)(;base64)?,(.*)$/);
+  if (!match) {
+    return null;
+  }
+  const text = match[2] ? atob(match[3]) : decodeURIComponent(match[3]);
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i);
+  }
+  const mediaType = detectMediaType(bytes.buffer, match[1], url);
+  return mediaType ? { data: bytes.buffer, mediaType } : null;
+}
+
+/**
+ * Download an image with the plugin's image request options
+ */
+export async function fetchImage(
+  url: string,
+  requestInit?: Plugin.ImageRequestInit,
+): Promise<FetchedImage | null> {
+  if (url.startsWith('data:')) {
+    return decodeDataUrl(url);
+  }
+
+  const response = await fetchApi(url, {
+    method: requestInit?.method,
+    headers: requestInit?.headers,
+    body: requestInit?.body,
+  });
+  if (!response.ok) {
+    return null;
+  }
+
+  const data = await response.arrayBuffer();
+  const mediaType = detectMediaType(
+    data,
+    response.headers.get('content-type') || '',
+    url,
+  );
+  return mediaType ? { data, mediaType } : null;
+}
+
+/**
+ * Downscale or convert a raster image with a canvas
+ * The image is kept as is when nothing changes or no canvas is available
+ */
+async function transcode(
+  image: FetchedImage,
+  options: EpubImageOptions,
+): Promise<FetchedImage> {
+  if (
+    image.mediaType === 'image/svg+xml' ||
+    typeof document === 'undefined' ||
+    typeof createImageBitmap === 'undefined'
+  ) {
+    return image;
+  }
+
+  const bitmap = await createImageBitmap(
+    new Blob([image.data], { type: image.mediaType }),
+  );
+  const scale = Math.min(
+    1,
+    options.maxWidth ? options.maxWidth / bitmap.width : 1,
+    options.maxHeight ? options.maxHeight / bitmap.height : 1,
+  );
+  const toJpeg = !!options.convertToJpeg && image.mediaType !== 'image/jpeg';
+  if (scale === 1 && !toJpeg) {
+    bitmap.close();
+    return image;
+  }
+
+  // Scaled GIF and WebP are written as JPEG, readers may not decode WebP
+  const mediaType =
+    image.mediaType === 'image/png' && !options.convertToJpeg
+      ? 'image/png'
+      : 'image/jpeg';
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    return image;
+  }
+  if (mediaType === 'image/jpeg') {
+    // JPEG has no transparency
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve =>
+    canvas.toBlob(
+      resolve,
+      mediaType,
+      options.jpegQuality || DEFAULT_JPEG_QUALITY,
+    ),
+  );
+  return blob ? { data: await blob.arrayBuffer(), mediaType } : image;
+}
+
+/**
+ * Images of a book, each URL downloaded once however many chapters use it
+ */
+export class EpubImageCollector {
+  readonly images: EpubImage[] = [];
+
+  private hrefs: Record<string, Promise<string | null>> = {};
+  private queue: (() => void)[] = [];
+  private active = 0;
+
+  constructor(
+    private requestInit?: Plugin.ImageRequestInit,
+    private options: EpubImageOptions = {},
+  ) {}
+
+  /**
+   * Path of the embedded image inside OEBPS, null when it could not be
+   * downloaded
+   */
+  add(url: string): Promise<string | null> {
+    if (!this.hrefs[url]) {
+      this.hrefs[url] = this.limit(() => this.download(url));
+    }
+    return this.hrefs[url];
+  }
+
+  private async download(url: string): Promise<string | null> {
+    try {
+      const fetched = await fetchImage(url, this.requestInit);
+      if (!fetched) {
+        return null;
+      }
+      const image = await transcode(fetched, this.options).catch(error => {
+        console.warn(`Failed to convert image ${url}:`, error);
+        return fetched;
+      });
+
+      const id = `image${this.images.length + 1}`;
+      const href = `images/${id}.${getImageExtension(image.mediaType)}`;
+      this.images.push({ id, href, ...image });
+      return href;
+    } catch (error) {
+      console.error(`Error fetching image ${url}:`, error);
+      return null;
+    }
+  }
+
+  private limit<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<void>(resolve => {
+      if (this.active < CONCURRENCY) {
+        this.active++;
+        resolve();
+      } else {
+        this.queue.push(resolve);
+      }
+    })
+      .then(task)
+      .finally(() => {
+        const next = this.queue.shift();
+        if (next) {
+          next();
+        } else {
+          this.active--;
+        }
+      });
+  }
+}
@@ -1,5 +1,12 @@
 import JSZip from 'jszip';
 import { Plugin } from '@/types/plugin';
+import type { ChapterRange, VolumeGrouping } from '@/lib/chapter-range';
+import {
+  EpubImageCollector,
+  EpubImageOptions,
+  fetchImage,
+  getImageExtension,
+} from '@/lib/epub-images';
 
 export interface EpubOptions {
   title: string;
@@ -7,12 +14,107 @@ export interface EpubOptions {
   description?: string;
   cover?: string;
   language?: string;
+  // Language of the original text in bilingual books
+  sourceLanguage?: string;
+  // Headers of the plugin's image requests, for hotlink-protected hosts
+  imageRequestInit?: Plugin.ImageRequestInit;
+  // Relative image URLs are resolved against it
+  baseUrl?: string;
+  images?: EpubImageOptions;
 }
 
+// Original text only, translation only, or each paragraph followed by its
+// translation
+export type EpubExportMode = 'original' | 'translated' | 'bilingual';
+
+export type EpubExportOptions = {
+  mode: EpubExportMode;
+  // Defaults to the target language chosen in the chapter view
+  targetLanguage?: string;
+  // Every chapter when unset
+  range?: ChapterRange;
+  volumes?: VolumeGrouping;
+  // Chapters per EPUB file, a single file when unset
+  splitSize?: number;
+  images?: EpubImageOptions;
+};
+
 export interface ChapterData {
   title: string;
   content: string;
   path: string;
+  // Consecutive chapters of the same volume are nested in the TOC
+  volume?: string;
+}
+
+type TocEntry = {
+  title: string;
+  // Chapter number in the book, from 1
+  index: number;
+  children?: TocEntry[];
+};
+
+/**
+ * Table of contents entries, chapters nested in their volumes
+ */
+function buildToc(chapters: ChapterData[]): TocEntry[] {
+  const entries: TocEntry[] = [];
+  let volume: TocEntry | undefined;
+  chapters.forEach((chapter, i) => {
+    const entry = { title: chapter.title, index: i + 1 };
+    if (!chapter.volume) {
+      volume = undefined;
+      entries.push(entry);
+      return;
+    }
+    if (!volume || volume.title !== chapter.volume) {
+      // A volume links to its first chapter
+      volume = { title: chapter.volume, index: i + 1, children: [] };
+      entries.push(volume);
+    }
+    volume.children?.push(entry);
+  });
+  return entries;
+}
+
+/**
+ * NCX navPoints, a volume shares the play order of its first chapter since
+ * both point to the same file
+ */
+function renderNavPoints(entries: TocEntry[], indent: string): string {
+  return entries
+    .map(entry => {
+      const id = entry.children
+        ? `navpoint-volume-${entry.index}`
+        : `navpoint-${entry.index}`;
+      const children = entry.children
+        ? renderNavPoints(entry.children, indent + '  ')
+        : '';
+      return `
+${indent}<navPoint id="${id}" playOrder="${entry.index}">
+${indent}  <navLabel>
+${indent}    <text>${escapeXml(entry.title)}</text>
+${indent}  </navLabel>
+${indent}  <content src="chapter${entry.index}.xhtml"/>${children}
+${indent}</navPoint>`;
+    })
+    .join('');
+}
+
+function renderNavList(entries: TocEntry[], indent: string): string {
+  return entries
+    .map(entry => {
+      const link = `<a href="chapter${entry.index}.xhtml">${escapeXml(entry.title)}</a>`;
+      if (!entry.children) {
+        return `${indent}<li>${link}</li>`;
+      }
+      return `${indent}<li>${link}
+${indent}  <ol>
+${renderNavList(entry.children, indent + '    ')}
+${indent}  </ol>
+${indent}</li>`;
+    })
+    .join('\n');
 }
 
 function sanitizeHtml(html: string): string {
@@ -36,6 +138,82 @@ function sanitizeHtml(html: string): string {
   return html;
 }
 
+// Elements dropped from chapters, with their content
+const REMOVED_TAGS =
+  'script, style, link, meta, iframe, object, embed, noscript';
+
+// Attribute names that are valid in XML, without namespace prefixes
+const XML_NAME_REGEX = /^[A-Za-z_][\w.-]*$/;
+
+/**
+ * Sanitized chapter HTML as well-formed XHTML, with its images embedded
+ * through the collector. Images that fail to download are replaced by their
+ * alternative text.
+ */
+async function toXhtml(
+  html: string,
+  images: EpubImageCollector,
+  baseUrl?: string,
+): Promise<string> {
+  if (
+    typeof DOMParser === 'undefined' ||
+    typeof XMLSerializer === 'undefined'
+  ) {
+    // Without a DOM only void elements are closed
+    return sanitizeHtml(html).replace(
+      /<(br|hr|img|wbr|col|source)\b([^>]*?)\/?>/gi,
+      '<$1$2/>',
+    );
+  }
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const body = doc.body;
+  body.querySelectorAll(REMOVED_TAGS).forEach(element => element.remove());
+
+  body.querySelectorAll('*').forEach(element => {
+    Array.from(element.attributes).forEach(attribute => {
+      if (!XML_NAME_REGEX.test(attribute.name) || /^on/i.test(attribute.name)) {
+        element.removeAttribute(attribute.name);
+      }
+    });
+  });
+
+  await Promise.all(
+    Array.from(body.querySelectorAll('img')).map(async img => {
+      const src =
+        img.getAttribute('src') ||
+        img.getAttribute('data-src') ||
+        img.getAttribute('data-original') ||
+        '';
+      let url = src;
+      try {
+        url = baseUrl ? new URL(src, baseUrl).href : src;
+      } catch {
+        // Kept as written
+      }
+      const href = src ? await images.add(url) : null;
+      if (!href) {
+        img.replaceWith(doc.createTextNode(img.getAttribute('alt') || ''));
+        return;
+      }
+      ['srcset', 'sizes', 'data-src', 'data-original', 'loading'].forEach(
+        name => img.removeAttribute(name),
+      );
+      img.setAttribute('src', href);
+      if (!img.hasAttribute('alt')) {
+        img.setAttribute('alt', '');
+      }
+    }),
+  );
+
+  // The serialized body is XHTML, only its own tag is dropped
+  return new XMLSerializer()
+    .serializeToString(body)
+    .replace(/^<body[^>]*>/, '')
+    .replace(/<\/body>$/, '')
+    .replace(/^<body[^>]*\/>$/, '');
+}
+
 function generateUUID(): string {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
     const r = (Math.random() * 16) | 0;
@@ -44,7 +222,10 @@ function generateUUID(): string {
   });
 }
 
-async function fetchCoverImage(coverUrl?: string): Promise<{
+async function fetchCoverImage(
+  coverUrl?: string,
+  requestInit?: Plugin.ImageRequestInit,
+): Promise<{
   data: ArrayBuffer | null;
   mimeType: string;
   extension: string;
@@ -59,31 +240,15 @@ async function fetchCoverImage(coverUrl?: string): Promise<{
       url = coverUrl.startsWith('/') ? coverUrl : '/' + coverUrl;
     }
 
-    const response = await fetch(url);
-
-    if (!response.ok) {
+    const image = await fetchImage(url, requestInit);
+    if (!image) {
       return { data: null, mimeType: '', extension: '' };
     }
 
-    const arrayBuffer = await response.arrayBuffer();
-    const contentType = response.headers.get('content-type') || 'image/jpeg';
-
-    let extension = 'jpg';
-    if (contentType.includes('png')) extension = 'png';
-    else if (contentType.includes('gif')) extension = 'gif';
-    else if (contentType.includes('webp')) extension = 'webp';
-
-    if (extension === 'jpg') {
-      const urlLower = coverUrl.toLowerCase();
-      if (urlLower.includes('.png')) extension = 'png';
-      else if (urlLower.includes('.gif')) extension = 'gif';
-      else if (urlLower.includes('.webp')) extension = 'webp';
-    }
-
     return {
-      data: arrayBuffer,
-      mimeType: contentType,
-      extension,
+      data: image.data,
+      mimeType: image.mediaType,
+      extension: getImageExtension(image.mediaType),
     };
   } catch (error) {
     console.error('Error fetching cover image:', error);
@@ -98,8 +263,27 @@ export async function createEpub(
   const zip = new JSZip();
   const uuid = generateUUID();
   const now = new Date().toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+  const language = escapeXml(options.language || 'en');
+  const languages = [options.language || 'en'];
+  if (options.sourceLanguage && options.sourceLanguage !== languages[0]) {
+    languages.push(options.sourceLanguage);
+  }
 
-  const coverImage = await fetchCoverImage(options.cover);
+  const toc = buildToc(chapters);
+
+  const images = new EpubImageCollector(
+    options.imageRequestInit,
+    options.images,
+  );
+  const contents: string[] = [];
+  for (const chapter of chapters) {
+    contents.push(await toXhtml(chapter.content, images, options.baseUrl));
+  }
+
+  const coverImage = await fetchCoverImage(
+    options.cover,
+    options.imageRequestInit,
+  );
   const hasCover = coverImage.data !== null;
 
   zip.file('mimetype', 'application/epub+zip');
@@ -130,6 +314,13 @@ export async function createEpub(
     );
   }
 
+  images.images.forEach(image => {
+    zip.file(`OEBPS/${image.href}`, image.data);
+    manifestItems.push(
+      `<item id="${image.id}" href="${image.href}" media-type="${image.mediaType}"/>`,
+    );
+  });
+
   manifestItems.push(
     ...chapters.map(
       (_, i) =>
@@ -152,7 +343,7 @@ export async function createEpub(
     <dc:title>${escapeXml(options.title)}</dc:title>
     ${options.author ? `<dc:creator>${escapeXml(options.author)}</dc:creator>` : ''}
     ${options.description ? `<dc:description>${escapeXml(options.description)}</dc:description>` : ''}
-    <dc:language>${options.language || 'en'}</dc:language>
+    ${languages.map(lang => `<dc:language>${escapeXml(lang)}</dc:language>`).join('\n    ')}
     <dc:date>${now}</dc:date>
     <meta property="dcterms:modified">${now}</meta>
     ${hasCover ? '<meta name="cover" content="cover-image"/>' : ''}
@@ -171,25 +362,14 @@ export async function createEpub(
 <ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
   <head>
     <meta name="dtb:uid" content="urn:uuid:${uuid}"/>
-    <meta name="dtb:depth" content="1"/>
+    <meta name="dtb:depth" content="${toc.some(entry => entry.children) ? 2 : 1}"/>
     <meta name="dtb:totalPageCount" content="0"/>
     <meta name="dtb:maxPageNumber" content="0"/>
   </head>
   <docTitle>
     <text>${escapeXml(options.title)}</text>
   </docTitle>
-  <navMap>
-    ${chapters
-      .map(
-        (chapter, i) => `
-    <navPoint id="navpoint-${i + 1}" playOrder="${i + 1}">
-      <navLabel>
-        <text>${escapeXml(chapter.title)}</text>
-      </navLabel>
-      <content src="chapter${i + 1}.xhtml"/>
-    </navPoint>`,
-      )
-      .join('')}
+  <navMap>${renderNavPoints(toc, '    ')}
   </navMap>
 </ncx>`;
 
@@ -197,7 +377,7 @@ export async function createEpub(
 
   const navXhtml = `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE html>
-<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
 <head>
   <title>Navigation</title>
   <meta charset="UTF-8"/>
@@ -206,7 +386,7 @@ export async function createEpub(
   <nav epub:type="toc">
     <h1>Table of Contents</h1>
     <ol>
-      ${chapters.map((chapter, i) => `<li><a href="chapter${i + 1}.xhtml">${escapeXml(chapter.title)}</a></li>`).join('\n      ')}
+${renderNavList(toc, '      ')}
     </ol>
   </nav>
 </body>
@@ -217,7 +397,7 @@ export async function createEpub(
   if (hasCover) {
     const coverXhtml = `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE html>
-<html xmlns="http://www.w3.org/1999/xhtml">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="${language}" lang="${language}">
 <head>
   <title>Cover</title>
   <meta charset="UTF-8"/>
@@ -234,10 +414,9 @@ export async function createEpub(
   }
 
   chapters.forEach((chapter, i) => {
-    const sanitizedContent = sanitizeHtml(chapter.content);
     const chapterXhtml = `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE html>
-<html xmlns="http://www.w3.org/1999/xhtml">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="${language}" lang="${language}">
 <head>
   <title>${escapeXml(chapter.title)}</title>
   <meta charset="UTF-8"/>
@@ -246,11 +425,12 @@ export async function createEpub(
     h1, h2, h3 { margin-top: 1em; margin-bottom: 0.5em; }
     p { margin: 0.5em 0; text-align: justify; }
     img { max-width: 100%; height: auto; }
+    .translation { color: #1f4e79; margin-bottom: 1em; }
   </style>
 </head>
 <body>
   <h1>${escapeXml(chapter.title)}</h1>
-  ${sanitizedContent}
+  ${contents[i]}
 </body>
 </html>`;
 
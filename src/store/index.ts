@@ -6,6 +6,9 @@ export type AppStore = PluginStore &
   NavigationStore & {
     theme: 'light' | 'dark';
     setTheme(value: 'light' | 'dark'): void;
+    // Novel names, summaries, genres and chapter names shown translated
+    translateMetadata: boolean;
+    setTranslateMetadata(value: boolean): void;
   };
 
 // Helper types to use "slicing" like in Redux... We could just not use slicing, but eh
@@ -21,6 +24,8 @@ const getInitialTheme = (): 'light' | 'dark' => {
   return 'light';
 };
 
+const TRANSLATE_METADATA_KEY = 'lnreader_translate_metadata';
+
 export const useAppStore = create<AppStore>((set: SetStore, get: GetStore) => ({
   ...PluginStore(set, get),
   ...NavigationStore(set, get),
@@ -32,4 +37,12 @@ export const useAppStore = create<AppStore>((set: SetStore, get: GetStore) => ({
     }));
     localStorage.setItem('theme', theme);
   },
+  translateMetadata: localStorage.getItem(TRANSLATE_METADATA_KEY) === 'true',
+  setTranslateMetadata(translateMetadata: boolean) {
+    set(state => ({
+      ...state,
+      translateMetadata,
+    }));
+    localStorage.setItem(TRANSLATE_METADATA_KEY, String(translateMetadata));
+  },
 }));
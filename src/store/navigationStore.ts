@@ -3,11 +3,17 @@ import { StoreCreator } from '.';
 export type NavigationStore = {
   parseNovelPath?: string;
   parseChapterPath?: string;
+  // Novel the chapter being parsed belongs to
+  parseChapterNovelPath?: string;
   shouldAutoSubmitNovel: boolean;
   shouldAutoSubmitChapter: boolean;
   setParseNovelPath(path: string, autoSubmit?: boolean): void;
   clearParseNovelPath(): void;
-  setParseChapterPath(path: string, autoSubmit?: boolean): void;
+  setParseChapterPath(
+    path: string,
+    autoSubmit?: boolean,
+    novelPath?: string,
+  ): void;
   clearParseChapterPath(): void;
 };
 
@@ -18,6 +24,7 @@ export type NavigationStore = {
 export const NavigationStore: StoreCreator<NavigationStore> = set => ({
   parseNovelPath: undefined,
   parseChapterPath: undefined,
+  parseChapterNovelPath: undefined,
   shouldAutoSubmitNovel: false,
   shouldAutoSubmitChapter: false,
 
@@ -37,10 +44,11 @@ export const NavigationStore: StoreCreator<NavigationStore> = set => ({
     }));
   },
 
-  setParseChapterPath(path: string, autoSubmit = true) {
+  setParseChapterPath(path: string, autoSubmit = true, novelPath?: string) {
     set(state => ({
       ...state,
       parseChapterPath: path,
+      parseChapterNovelPath: novelPath,
       shouldAutoSubmitChapter: autoSubmit,
     }));
   },
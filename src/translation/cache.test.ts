@@ -0,0 +1,90 @@
+// @vitest-environment happy-dom
+import { describe, expect, it, vi } from 'vitest';
+import { TranslationCache } from './cache';
+import { MemoryStore } from './memory-store';
+
+const TMX = `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="other-tool" segtype="sentence" o-tmf="other" adminlang="en" srclang="ja" datatype="plaintext"/>
+  <body>
+    <tu creationdate="20240101T120000Z">
+      <tuv xml:lang="ja"><seg>こんにちは</seg></tuv>
+      <tuv xml:lang="es"><seg>Hola</seg></tuv>
+      <tuv xml:lang="en"><seg>Hello</seg></tuv>
+    </tu>
+  </body>
+</tmx>`;
+
+describe('TranslationCache TMX import', () => {
+  it('finds units of another tool from auto-detecting translators', async () => {
+    const cache = new TranslationCache(new MemoryStore());
+
+    expect(await cache.importTmx(TMX)).toBe(2);
+    expect(await cache.get('こんにちは', 'auto', 'es')).toBe('Hola');
+    expect(await cache.get('こんにちは', 'auto', 'en')).toBe('Hello');
+    expect(await cache.get('こんにちは', 'auto', 'fr')).toBeNull();
+  });
+
+  it('finds imported units for an explicit source language', async () => {
+    const cache = new TranslationCache(new MemoryStore());
+    await cache.importTmx(TMX);
+
+    expect(await cache.get('こんにちは', 'ja', 'es')).toBe('Hola');
+  });
+
+  it('keeps the source language of the TMX on export', async () => {
+    const cache = new TranslationCache(new MemoryStore());
+    await cache.importTmx(TMX);
+
+    const exported = await cache.exportTmx();
+    expect(exported).toContain(
+      '<tuv xml:lang="ja"><seg>こんにちは</seg></tuv>',
+    );
+
+    const copy = new TranslationCache(new MemoryStore());
+    expect(await copy.importTmx(exported)).toBe(2);
+    expect(await copy.get('こんにちは', 'auto', 'es')).toBe('Hola');
+  });
+
+  it('imports its own scoped and authoritative entries', async () => {
+    const cache = new TranslationCache(new MemoryStore());
+    const scope = { pluginId: 'plugin', novelPath: '/novel' };
+    await cache.set('Hello', 'Hola', 'auto', 'es', 'manual', scope, true);
+
+    const copy = new TranslationCache(new MemoryStore());
+    await copy.importTmx(await cache.exportTmx());
+
+    expect(await copy.get('Hello', 'auto', 'es')).toBeNull();
+    const entry = await copy.getEntry('Hello', 'auto', 'es', scope);
+    expect(entry?.translatedText).toBe('Hola');
+    expect(entry?.authoritative).toBe(true);
+  });
+});
+
+describe('TranslationCache reads', () => {
+  it('does not write recent entries back on every hit', async () => {
+    const store = new MemoryStore();
+    const cache = new TranslationCache(store);
+    await cache.set('Hello', 'Hola', 'auto', 'es', 'google');
+    const put = vi.spyOn(store, 'put');
+
+    for (let i = 0; i < 5; i++) {
+      expect(await cache.get('Hello', 'auto', 'es')).toBe('Hola');
+    }
+    expect(put).not.toHaveBeenCalled();
+  });
+
+  it('refreshes the last access of entries read long ago', async () => {
+    const store = new MemoryStore();
+    const cache = new TranslationCache(store);
+    await cache.set('Hello', 'Hola', 'auto', 'es', 'google');
+    const [entry] = await store.getAll();
+    entry.lastAccess = Date.now() - 2 * 60 * 60 * 1000;
+    const put = vi.spyOn(store, 'put');
+
+    await cache.get('Hello', 'auto', 'es');
+
+    expect(put).toHaveBeenCalledTimes(1);
+    expect(entry.lastAccess).toBeGreaterThan(Date.now() - 1000);
+  });
+});
@@ -1,194 +1,440 @@
 /**
  * Translation Cache System
- * Stores translated content to avoid re-translating the same text
+ * Translation memory stored in IndexedDB to avoid re-translating the same text
  */
 
-export interface CacheEntry {
-  originalText: string;
-  translatedText: string;
-  sourceLang: string;
-  targetLang: string;
-  engine: string;
-  timestamp: number;
+import {
+  CacheEntry,
+  createDefaultStore,
+  MemoryStore,
+  TranslationMemoryStore,
+} from './memory-store';
+
+export type { CacheEntry, TranslationMemoryStore } from './memory-store';
+
+export type CacheScope = {
+  pluginId?: string;
+  novelPath?: string;
+};
+
+export type CacheStats = {
+  size: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+};
+
+// Engine recorded for translations edited by hand
+export const MANUAL_ENGINE = 'manual';
+
+const LEGACY_STORAGE_KEY = 'lnreader_translation_cache';
+const KEY_SEPARATOR = '\u0000';
+
+// Source language written to TMX files for auto-detected entries
+const TMX_UNDETERMINED = 'und';
+
+// Source language of translators that detect it, imported entries are
+// looked up under it whatever language the TMX names
+const AUTO_SOURCE = 'auto';
+
+// Last access times are written back when older than this, so reading a
+// cached text does not cost a write every time
+const LAST_ACCESS_RESOLUTION = 60 * 60 * 1000;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Format a timestamp as a TMX date (YYYYMMDDThhmmssZ)
+ */
+function toTmxDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]|\.\d+/g, '');
+}
+
+function fromTmxDate(date: string | null): number {
+  const match = date?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) {
+    return Date.now();
+  }
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds);
 }
 
 export class TranslationCache {
-  private cache: Map<string, CacheEntry> = new Map();
-  private maxSize: number = 1000; // Maximum cache entries
-  private ttl: number = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
+  private store: TranslationMemoryStore;
+  private maxBytes: number = 50 * 1024 * 1024; // 50 MB
+  private count = 0;
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private ready?: Promise<void>;
+
+  constructor(store?: TranslationMemoryStore) {
+    this.store = store || createDefaultStore();
+  }
+
+  /**
+   * Move to another storage backend, optionally with a smaller size budget
+   * Usage counters are reloaded from the new store
+   */
+  setStore(store: TranslationMemoryStore, maxBytes?: number): void {
+    this.store = store;
+    if (maxBytes) {
+      this.maxBytes = maxBytes;
+    }
+    this.count = 0;
+    this.bytes = 0;
+    this.ready = undefined;
+  }
+
+  /**
+   * Scope keys from the most to the least specific one
+   */
+  private getScopes(scope?: CacheScope): string[] {
+    const scopes: string[] = [];
+    if (scope?.pluginId) {
+      if (scope.novelPath) {
+        scopes.push(`${scope.pluginId}:${scope.novelPath}`);
+      }
+      scopes.push(scope.pluginId);
+    }
+    scopes.push('');
+    return scopes;
+  }
 
   /**
    * Generate cache key from text and language pair
+   * The full text is part of the key, so different texts never collide
    */
   private getCacheKey(
+    scope: string,
     text: string,
     sourceLang: string,
     targetLang: string,
-    engine: string,
   ): string {
-    // Use hash of text + languages + engine as key
-    const content = `${text}|${sourceLang}|${targetLang}|${engine}`;
-    return this.hashString(content);
+    return [scope, sourceLang, targetLang, text].join(KEY_SEPARATOR);
   }
 
   /**
-   * Simple hash function for cache keys
+   * Approximate UTF-16 size of an entry
    */
-  private hashString(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  private getEntrySize(originalText: string, translatedText: string): number {
+    return (originalText.length + translatedText.length) * 2;
+  }
+
+  /**
+   * Load usage counters from the store (once)
+   */
+  private initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.loadUsage();
+    }
+    return this.ready;
+  }
+
+  private async loadUsage(): Promise<void> {
+    try {
+      const usage = await this.store.getUsage();
+      this.count = usage.count;
+      this.bytes = usage.bytes;
+    } catch (error) {
+      this.fallbackToMemory(error);
     }
-    return hash.toString(36);
+
+    // The old cache lived in a single localStorage key
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+  }
+
+  /**
+   * Keep working in memory when IndexedDB is unavailable (private mode...)
+   */
+  private fallbackToMemory(error: unknown): void {
+    console.warn('Translation memory unavailable, using memory:', error);
+    this.store = new MemoryStore();
+    this.count = 0;
+    this.bytes = 0;
   }
 
   /**
-   * Check if entry exists and is still valid
+   * Look up a translation, from the most specific scope to the global one
    */
-  get(
+  async get(
     text: string,
     sourceLang: string,
     targetLang: string,
-    engine: string,
-  ): string | null {
-    const key = this.getCacheKey(text, sourceLang, targetLang, engine);
-    const entry = this.cache.get(key);
+    scope?: CacheScope,
+  ): Promise<string | null> {
+    const entry = await this.getEntry(text, sourceLang, targetLang, scope);
+    return entry ? entry.translatedText : null;
+  }
+
+  /**
+   * Look up the entry of a translation, see get
+   * Entries stored for an auto-detected source are found for any source
+   */
+  async getEntry(
+    text: string,
+    sourceLang: string,
+    targetLang: string,
+    scope?: CacheScope,
+  ): Promise<CacheEntry | null> {
+    await this.initialize();
 
-    if (!entry) {
-      return null;
+    const sourceLangs =
+      sourceLang === AUTO_SOURCE ? [sourceLang] : [sourceLang, AUTO_SOURCE];
+
+    try {
+      for (const scopeKey of this.getScopes(scope)) {
+        for (const lang of sourceLangs) {
+          const entry = await this.store.get(
+            this.getCacheKey(scopeKey, text, lang, targetLang),
+          );
+          if (entry) {
+            this.hits++;
+            await this.touch(entry);
+            return entry;
+          }
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to read translation cache:', error);
     }
 
-    // Check if entry has expired
+    this.misses++;
+    return null;
+  }
+
+  /**
+   * Record a read for the LRU eviction, at most once per resolution period
+   */
+  private async touch(entry: CacheEntry): Promise<void> {
     const now = Date.now();
-    if (now - entry.timestamp > this.ttl) {
-      this.cache.delete(key);
-      return null;
+    if (now - entry.lastAccess > LAST_ACCESS_RESOLUTION) {
+      entry.lastAccess = now;
+      await this.store.put(entry);
     }
-
-    return entry.translatedText;
   }
 
   /**
-   * Store translation in cache
+   * Store translation in cache, under the most specific scope given
+   * Authoritative translations replace any other, the others never replace
+   * an authoritative one
    */
-  set(
+  async set(
     originalText: string,
     translatedText: string,
     sourceLang: string,
     targetLang: string,
     engine: string,
-  ): void {
-    // Clean up old entries if cache is full
-    if (this.cache.size >= this.maxSize) {
-      this.cleanup();
-    }
-
-    const key = this.getCacheKey(originalText, sourceLang, targetLang, engine);
+    scope?: CacheScope,
+    authoritative = false,
+  ): Promise<void> {
+    const scopeKey = this.getScopes(scope)[0];
+    const now = Date.now();
 
-    const entry: CacheEntry = {
+    await this.put({
+      key: this.getCacheKey(scopeKey, originalText, sourceLang, targetLang),
+      scope: scopeKey,
       originalText,
       translatedText,
       sourceLang,
       targetLang,
       engine,
-      timestamp: Date.now(),
-    };
-
-    this.cache.set(key, entry);
-    this.saveToStorage();
+      authoritative: authoritative || undefined,
+      timestamp: now,
+      lastAccess: now,
+      size: this.getEntrySize(originalText, translatedText),
+    });
   }
 
-  /**
-   * Remove expired entries
-   */
-  private cleanup(): void {
-    const now = Date.now();
-    const keysToDelete: string[] = [];
+  private async put(entry: CacheEntry): Promise<void> {
+    await this.initialize();
 
-    this.cache.forEach((entry, key) => {
-      if (now - entry.timestamp > this.ttl) {
-        keysToDelete.push(key);
+    try {
+      const existing = await this.store.get(entry.key);
+      if (existing?.authoritative && !entry.authoritative) {
+        return;
       }
-    });
+      await this.store.put(entry);
 
-    keysToDelete.forEach(key => this.cache.delete(key));
+      if (existing) {
+        this.bytes += entry.size - existing.size;
+      } else {
+        this.count++;
+        this.bytes += entry.size;
+      }
 
-    // If still too many entries, remove oldest ones
-    if (this.cache.size >= this.maxSize) {
-      const entries = Array.from(this.cache.entries());
-      entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-      const toRemove = entries.slice(0, this.cache.size - this.maxSize + 100);
-      toRemove.forEach(([key]) => this.cache.delete(key));
+      if (this.bytes > this.maxBytes) {
+        await this.cleanup();
+      }
+    } catch (error) {
+      console.warn('Failed to save translation cache:', error);
     }
   }
 
+  /**
+   * Evict least recently used entries down to 90% of the size budget
+   */
+  private async cleanup(): Promise<void> {
+    const freed = await this.store.evict(this.bytes - this.maxBytes * 0.9);
+    this.count -= freed.count;
+    this.bytes -= freed.bytes;
+  }
+
   /**
    * Clear all cache
    */
-  clear(): void {
-    this.cache.clear();
-    this.saveToStorage();
+  async clear(): Promise<void> {
+    await this.initialize();
+
+    try {
+      await this.store.clear();
+    } catch (error) {
+      console.warn('Failed to clear translation cache:', error);
+    }
+    this.count = 0;
+    this.bytes = 0;
+    this.hits = 0;
+    this.misses = 0;
   }
 
   /**
    * Get cache statistics
    */
-  getStats(): { size: number; maxSize: number; hitRate?: number } {
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
     return {
-      size: this.cache.size,
-      maxSize: this.maxSize,
+      size: this.count,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
     };
   }
 
   /**
-   * Save cache to localStorage
+   * Wait for the usage counters to be loaded from the store
    */
-  private saveToStorage(): void {
-    try {
-      const entries = Array.from(this.cache.entries());
-      const data = JSON.stringify(entries);
-      localStorage.setItem('lnreader_translation_cache', data);
-    } catch (error) {
-      console.warn('Failed to save translation cache:', error);
-    }
+  async loadStats(): Promise<CacheStats> {
+    await this.initialize();
+    return this.getStats();
   }
 
   /**
-   * Load cache from localStorage
+   * Export the whole memory as a TMX 1.4 document
    */
-  loadFromStorage(): void {
-    try {
-      const data = localStorage.getItem('lnreader_translation_cache');
-      if (!data) return;
+  async exportTmx(): Promise<string> {
+    await this.initialize();
+    const entries = await this.store.getAll();
 
-      const entries: [string, CacheEntry][] = JSON.parse(data);
-      const now = Date.now();
+    const units = entries.map(entry => {
+      const sourceLang =
+        entry.sourceLang === AUTO_SOURCE ? TMX_UNDETERMINED : entry.sourceLang;
+      return [
+        `    <tu creationdate="${toTmxDate(entry.timestamp)}">`,
+        `      <prop type="x-engine">${escapeXml(entry.engine)}</prop>`,
+        entry.scope
+          ? `      <prop type="x-scope">${escapeXml(entry.scope)}</prop>`
+          : '',
+        entry.authoritative
+          ? '      <prop type="x-authoritative">true</prop>'
+          : '',
+        `      <tuv xml:lang="${escapeXml(sourceLang)}"><seg>${escapeXml(entry.originalText)}</seg></tuv>`,
+        `      <tuv xml:lang="${escapeXml(entry.targetLang)}"><seg>${escapeXml(entry.translatedText)}</seg></tuv>`,
+        '    </tu>',
+      ]
+        .filter(Boolean)
+        .join('\n');
+    });
 
-      entries.forEach(([key, entry]) => {
-        // Only load non-expired entries
-        if (now - entry.timestamp <= this.ttl) {
-          this.cache.set(key, entry);
-        }
-      });
-    } catch (error) {
-      console.warn('Failed to load translation cache:', error);
-    }
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<tmx version="1.4">',
+      '  <header creationtool="lnreader-plugins" creationtoolversion="1.0" segtype="sentence" o-tmf="lnreader" adminlang="en" srclang="*all*" datatype="plaintext"/>',
+      '  <body>',
+      ...units,
+      '  </body>',
+      '</tmx>',
+      '',
+    ].join('\n');
   }
 
   /**
-   * Initialize cache (load from storage)
+   * Import translation units from a TMX document
+   * The first variant of each unit is the source, every other one a target
+   * Units are keyed as auto-detected, the TMX language is kept on the entry
+   * Returns the number of translations imported
    */
-  initialize(): void {
-    this.loadFromStorage();
+  async importTmx(xml: string): Promise<number> {
+    if (typeof DOMParser === 'undefined') {
+      throw new Error('TMX import requires DOMParser');
+    }
+
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Invalid TMX file');
+    }
+
+    const header = doc.getElementsByTagName('header')[0];
+    const headerSourceLang = header?.getAttribute('srclang');
+    let imported = 0;
+
+    for (const unit of Array.from(doc.getElementsByTagName('tu'))) {
+      const props: Record<string, string> = {};
+      Array.from(unit.getElementsByTagName('prop')).forEach(prop => {
+        props[prop.getAttribute('type') || ''] = prop.textContent || '';
+      });
+
+      const variants = Array.from(unit.getElementsByTagName('tuv')).map(
+        tuv => ({
+          lang:
+            tuv.getAttribute('xml:lang') || tuv.getAttribute('lang') || 'und',
+          text: tuv.getElementsByTagName('seg')[0]?.textContent || '',
+        }),
+      );
+      const source =
+        variants.find(variant => variant.lang === headerSourceLang) ||
+        variants[0];
+      if (!source?.text.trim()) continue;
+
+      const sourceLang =
+        source.lang === TMX_UNDETERMINED ? AUTO_SOURCE : source.lang;
+      const timestamp = fromTmxDate(unit.getAttribute('creationdate'));
+      const scope = props['x-scope'] || '';
+
+      for (const target of variants) {
+        if (target === source || !target.text.trim()) continue;
+
+        await this.put({
+          key: this.getCacheKey(scope, source.text, AUTO_SOURCE, target.lang),
+          scope,
+          originalText: source.text,
+          translatedText: target.text,
+          sourceLang,
+          targetLang: target.lang,
+          engine: props['x-engine'] || 'tmx',
+          authoritative: props['x-authoritative'] === 'true' || undefined,
+          timestamp,
+          lastAccess: Date.now(),
+          size: this.getEntrySize(source.text, target.text),
+        });
+        imported++;
+      }
+    }
+
+    return imported;
   }
 }
 
 // Singleton instance
 export const translationCache = new TranslationCache();
-
-// Initialize on module load
-if (typeof window !== 'undefined') {
-  translationCache.initialize();
-}
@@ -0,0 +1,87 @@
+/**
+ * Engine capability registry
+ * Built from the langCodes tables of the engines, answers which engines
+ * translate a language pair and which languages each one offers
+ */
+
+import { BaseEngine, BUILTIN_ENGINES, EngineClass } from './engines';
+import { normalizeLanguage } from './languages';
+
+export type LanguageOption = {
+  // Normalised code, see normalizeLanguage
+  code: string;
+  name: string;
+  // Names of the engines translating into the language
+  engines: string[];
+};
+
+export class CapabilityRegistry {
+  private engines: BaseEngine[] | null = null;
+
+  constructor(private engineClasses: EngineClass[]) {}
+
+  /**
+   * Names of the engines that translate between two languages
+   * @param sourceLang - Language code in any form, or 'auto'
+   */
+  findEngines(sourceLang: string, targetLang: string): string[] {
+    return this.getEngines()
+      .filter(engine => engine.supportsPair(sourceLang, targetLang))
+      .map(engine => engine.name);
+  }
+
+  /**
+   * Whether an engine translates between two languages
+   * Unknown engines are assumed to support every pair
+   */
+  supports(engineName: string, sourceLang: string, targetLang: string) {
+    const engine = this.getEngines().find(e => e.name === engineName);
+    return !engine || engine.supportsPair(sourceLang, targetLang);
+  }
+
+  /**
+   * Every language some engine translates into, sorted by name
+   * @param sourceLang - Only count engines translating from this language
+   */
+  getTargetLanguages(sourceLang = 'auto'): LanguageOption[] {
+    const options: Record<string, LanguageOption> = {};
+
+    this.getEngines().forEach(engine => {
+      const table = engine.langCodes.target;
+      Object.keys(table).forEach(name => {
+        if (table[name] === 'auto') return;
+        const code = normalizeLanguage(table[name]);
+        const option = (options[code] = options[code] || {
+          code,
+          name,
+          engines: [],
+        });
+        if (
+          option.engines.indexOf(engine.name) === -1 &&
+          engine.supportsPair(sourceLang, code)
+        ) {
+          option.engines.push(engine.name);
+        }
+      });
+    });
+
+    return Object.keys(options)
+      .map(code => options[code])
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private getEngines(): BaseEngine[] {
+    // Created on first use, the tables are instance fields
+    if (!this.engines) {
+      this.engines = this.engineClasses.map(
+        EngineClass => new EngineClass() as BaseEngine,
+      );
+    }
+    return this.engines;
+  }
+}
+
+// Singleton instance, with the built-in engines
+export const capabilityRegistry = new CapabilityRegistry(
+  Array.from(BUILTIN_ENGINES),
+);
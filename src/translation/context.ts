@@ -0,0 +1,128 @@
+/**
+ * Chapter context for LLM translation
+ * Keeps a short rolling summary of the chapters already translated for each
+ * novel, so consecutive chapters keep the same names, genders and tone
+ */
+
+import type { CacheScope } from './cache';
+
+export type NovelSummary = {
+  summary: string;
+  // Paths of the chapters already folded into the summary, oldest first
+  chapters: string[];
+  updatedAt: number;
+};
+
+const STORAGE_KEY = 'lnreader_novel_summaries';
+
+// Chapters remembered per novel to avoid summarizing one twice
+const MAX_CHAPTERS = 50;
+
+/**
+ * Instructions given to the model along with a chapter window
+ */
+export function contextInstructions(
+  summary: string,
+  previousTranslation: string,
+): string {
+  const parts: string[] = [];
+  if (summary) {
+    parts.push(
+      `Summary of the previous chapters, for context only (do not translate it): ${summary}`,
+    );
+  }
+  if (previousTranslation) {
+    parts.push(
+      `The translation of the preceding passage ended with, for continuity only (do not repeat it): ${previousTranslation}`,
+    );
+  }
+  if (parts.length > 0) {
+    parts.push(
+      'Keep names, pronouns, genders and tone consistent with this context.',
+    );
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Rolling summaries stored in localStorage, one per novel
+ */
+export class NovelSummaryStore {
+  private summaries: Record<string, NovelSummary> = {};
+  private loaded = false;
+
+  private getKey(scope?: CacheScope): string | null {
+    if (!scope?.pluginId || !scope.novelPath) {
+      return null;
+    }
+    return `${scope.pluginId}:${scope.novelPath}`;
+  }
+
+  get(scope?: CacheScope): NovelSummary | null {
+    this.load();
+    const key = this.getKey(scope);
+    return key ? this.summaries[key] || null : null;
+  }
+
+  /**
+   * Whether a chapter is already part of the novel summary
+   */
+  hasChapter(scope: CacheScope | undefined, chapterPath: string): boolean {
+    return !!this.get(scope)?.chapters.includes(chapterPath);
+  }
+
+  set(scope: CacheScope | undefined, summary: string, chapterPath: string) {
+    const key = this.getKey(scope);
+    if (!key) {
+      return;
+    }
+
+    const chapters = (this.get(scope)?.chapters || [])
+      .filter(path => path !== chapterPath)
+      .concat(chapterPath)
+      .slice(-MAX_CHAPTERS);
+
+    this.summaries[key] = { summary, chapters, updatedAt: Date.now() };
+    this.save();
+  }
+
+  clear(scope?: CacheScope): void {
+    this.load();
+    const key = this.getKey(scope);
+    if (key) {
+      delete this.summaries[key];
+      this.save();
+    }
+  }
+
+  private load(): void {
+    if (this.loaded || typeof localStorage === 'undefined') {
+      return;
+    }
+    this.loaded = true;
+
+    try {
+      const data = localStorage.getItem(STORAGE_KEY);
+      if (data) {
+        this.summaries = JSON.parse(data);
+      }
+    } catch (error) {
+      console.warn('Failed to load novel summaries:', error);
+    }
+  }
+
+  private save(): void {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.summaries));
+    } catch (error) {
+      console.warn('Failed to save novel summaries:', error);
+    }
+  }
+}
+
+// Singleton instance
+export const novelSummaryStore = new NovelSummaryStore();
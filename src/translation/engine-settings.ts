@@ -0,0 +1,323 @@
+/**
+ * Engine settings
+ * Which engines translate and in which order, with their options. API keys
+ * live in the key vault, everything else in localStorage.
+ */
+
+import {
+  BaseEngine,
+  BUILTIN_ENGINES,
+  EngineClass,
+  LlmEngine,
+  TranslationConfig,
+} from './engines';
+import { EngineError, toEngineError } from './errors';
+import { engineHealth } from './health';
+import { keyVault } from './key-vault';
+
+// Options edited in the settings, besides the API keys
+export type EngineOption =
+  | 'region'
+  | 'baseUrl'
+  | 'model'
+  | 'temperature'
+  | 'maxTokens'
+  | 'systemPrompt'
+  | 'userPrompt';
+
+export type EngineEntry = {
+  name: string;
+  alias: string;
+  free: boolean;
+  enabled: boolean;
+  requiresApiKey: boolean;
+  // Whether API keys can be set (required or optional)
+  acceptsApiKey: boolean;
+  options: EngineOption[];
+  // Values used for the options left empty
+  defaults: TranslationConfig;
+  EngineClass: EngineClass;
+};
+
+export type EngineTestResult = {
+  text: string;
+  // Milliseconds
+  latency: number;
+};
+
+type StoredSettings = {
+  // Engine names in priority order
+  order: string[];
+  disabled: string[];
+  configs: Record<string, TranslationConfig>;
+};
+
+const STORAGE_KEY = 'lnreader_engine_settings';
+
+// Options stored as numbers, the others are text
+const NUMBER_OPTIONS: EngineOption[] = ['temperature', 'maxTokens'];
+const INTEGER_OPTIONS: EngineOption[] = ['maxTokens'];
+
+export const TEST_SENTENCE = 'The quick brown fox jumps over the lazy dog.';
+
+export class EngineSettingsStore {
+  private settings: StoredSettings = { order: [], disabled: [], configs: {} };
+  private engines: BaseEngine[] | null = null;
+  private listeners = new Set<() => void>();
+  private loaded = false;
+
+  /**
+   * Every built-in engine in priority order
+   */
+  getEngines(): EngineEntry[] {
+    this.load();
+    const { order, disabled } = this.settings;
+
+    return this.getInstances()
+      .map((engine, i) => ({ engine, EngineClass: BUILTIN_ENGINES[i] }))
+      .sort((a, b) => rank(order, a.engine.name) - rank(order, b.engine.name))
+      .map(({ engine, EngineClass }) => ({
+        name: engine.name,
+        alias: engine.alias,
+        free: engine.free,
+        enabled: disabled.indexOf(engine.name) === -1,
+        requiresApiKey: engine.requiresApiKey(),
+        acceptsApiKey: engine.requiresApiKey() || engine instanceof LlmEngine,
+        options: getOptions(engine),
+        defaults: engine instanceof LlmEngine ? engine.getDefaultConfig() : {},
+        EngineClass,
+      }));
+  }
+
+  /**
+   * Engines to translate with: enabled, in priority order, and with an API
+   * key when they need one (none while the key vault is locked)
+   */
+  getEngineClasses(): EngineClass[] {
+    return this.getEngines()
+      .filter(
+        entry =>
+          entry.enabled &&
+          (!entry.requiresApiKey || keyVault.getKeys(entry.name).length > 0),
+      )
+      .map(entry => entry.EngineClass);
+  }
+
+  /**
+   * Per-engine configs for the translator, API keys included
+   */
+  getEngineConfigs(): Record<string, TranslationConfig> {
+    const configs: Record<string, TranslationConfig> = {};
+    this.getEngines().forEach(({ name }) => {
+      const config = this.getConfig(name);
+      const apiKeys = keyVault.getKeys(name);
+      if (apiKeys.length > 0) {
+        config.apiKeys = apiKeys;
+        config.apiKey = apiKeys[0];
+      }
+      if (Object.keys(config).length > 0) {
+        configs[name] = config;
+      }
+    });
+    return configs;
+  }
+
+  getConfig(engineName: string): TranslationConfig {
+    this.load();
+    return { ...this.settings.configs[engineName] };
+  }
+
+  /**
+   * Change options of an engine, empty values go back to the defaults
+   */
+  setConfig(engineName: string, config: TranslationConfig): void {
+    this.load();
+    const updated: Record<string, unknown> = { ...this.getConfig(engineName) };
+    (Object.keys(config) as (keyof TranslationConfig)[]).forEach(key => {
+      if (config[key] === undefined || config[key] === '') {
+        delete updated[key];
+      } else {
+        updated[key] = config[key];
+      }
+    });
+
+    if (Object.keys(updated).length > 0) {
+      this.settings.configs[engineName] = updated as TranslationConfig;
+    } else {
+      delete this.settings.configs[engineName];
+    }
+    this.save();
+  }
+
+  /**
+   * Change an option as typed in the settings. Numbers are parsed, empty
+   * or invalid values go back to the default
+   */
+  setOption(engineName: string, option: EngineOption, value: string): void {
+    const text = value.trim();
+    if (NUMBER_OPTIONS.indexOf(option) === -1) {
+      this.setConfig(engineName, { [option]: text });
+      return;
+    }
+
+    const number =
+      INTEGER_OPTIONS.indexOf(option) === -1
+        ? parseFloat(text)
+        : parseInt(text, 10);
+    this.setConfig(engineName, {
+      [option]: isNaN(number) ? undefined : number,
+    });
+  }
+
+  /**
+   * Replace the API keys of an engine (several keys form a pool)
+   * The engine health is reset so a new key is tried right away
+   */
+  async setApiKeys(engineName: string, keys: string[]): Promise<void> {
+    await keyVault.setKeys(engineName, keys);
+    engineHealth.reset(engineName);
+    this.notify();
+  }
+
+  setEnabled(engineName: string, enabled: boolean): void {
+    this.load();
+    const disabled = this.settings.disabled.filter(name => name !== engineName);
+    this.settings.disabled = enabled ? disabled : disabled.concat(engineName);
+    this.save();
+  }
+
+  /**
+   * Move an engine up (negative offset) or down in the priority order
+   */
+  move(engineName: string, offset: number): void {
+    const order = this.getEngines().map(entry => entry.name);
+    const from = order.indexOf(engineName);
+    const to = Math.max(0, Math.min(order.length - 1, from + offset));
+    if (from === -1 || from === to) {
+      return;
+    }
+
+    order.splice(to, 0, order.splice(from, 1)[0]);
+    this.settings.order = order;
+    this.save();
+  }
+
+  /**
+   * Translate a sample sentence with an engine and its current settings
+   * The outcome is recorded in the engine health
+   */
+  async test(engineName: string, targetLang = 'es'): Promise<EngineTestResult> {
+    const entry = this.getEngines().find(e => e.name === engineName);
+    if (!entry) {
+      throw new Error(`Unknown engine ${engineName}`);
+    }
+
+    const engine: BaseEngine = new entry.EngineClass(
+      this.getEngineConfigs()[engineName] || {},
+    );
+    engine.setSourceLang('en');
+    engine.setTargetLang(targetLang);
+
+    const start = Date.now();
+    try {
+      const text = await engine.translate(TEST_SENTENCE);
+      const latency = Date.now() - start;
+      engineHealth.recordSuccess(engine, latency);
+      return { text, latency };
+    } catch (error) {
+      const engineError = toEngineError(error, engineName);
+      if (engineError instanceof EngineError) {
+        engineHealth.recordFailure(engine, engineError);
+      }
+      throw engineError;
+    }
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getInstances(): BaseEngine[] {
+    // Names and tables are instance fields
+    if (!this.engines) {
+      this.engines = BUILTIN_ENGINES.map(
+        EngineClass => new EngineClass() as BaseEngine,
+      );
+    }
+    return this.engines;
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private load(): void {
+    if (this.loaded || typeof localStorage === 'undefined') {
+      return;
+    }
+    this.loaded = true;
+
+    try {
+      const data = localStorage.getItem(STORAGE_KEY);
+      if (data) {
+        this.settings = { ...this.settings, ...JSON.parse(data) };
+      } else {
+        // Engines that need a key or a server of their own start disabled
+        this.settings.disabled = this.getInstances()
+          .filter(engine => !engine.free || engine.selfHosted)
+          .map(engine => engine.name);
+      }
+    } catch (error) {
+      console.warn('Failed to load engine settings:', error);
+    }
+  }
+
+  private save(): void {
+    if (typeof localStorage !== 'undefined') {
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+      } catch (error) {
+        console.warn('Failed to save engine settings:', error);
+      }
+    }
+    this.notify();
+  }
+}
+
+/**
+ * Options of an engine shown in the settings
+ */
+function getOptions(engine: BaseEngine): EngineOption[] {
+  const options: EngineOption[] = [];
+  if (engine.name === 'Microsoft') {
+    options.push('region');
+  }
+  // LLM APIs can be proxied, LibreTranslate is usually self-hosted
+  if (engine instanceof LlmEngine || engine.name === 'LibreTranslate') {
+    options.push('baseUrl');
+  }
+  if (engine instanceof LlmEngine) {
+    options.push(
+      'model',
+      'temperature',
+      'maxTokens',
+      'systemPrompt',
+      'userPrompt',
+    );
+  }
+  return options;
+}
+
+/**
+ * Position of an engine in the saved order, engines added later go last
+ */
+function rank(order: string[], engineName: string): number {
+  const index = order.indexOf(engineName);
+  return index === -1 ? order.length : index;
+}
+
+// Singleton instance
+export const engineSettings = new EngineSettingsStore();
@@ -1,4 +1,6 @@
-import { BaseEngine } from './base';
+import { LlmEngine } from './llm';
+import { readSseJson } from '../utils/sse';
+import { EngineError, EngineErrorType } from '../errors';
 
 /**
  * Anthropic Claude Translation Engine
@@ -46,13 +48,32 @@ const ANTHROPIC_LANGUAGES: Record<string, string> = {
   'Swahili': 'sw',
 };
 
-export class ClaudeTranslate extends BaseEngine {
+// Error events sent in the middle of a stream
+const STREAM_ERROR_TYPES: Record<string, EngineErrorType> = {
+  authentication_error: 'auth',
+  permission_error: 'auth',
+  rate_limit_error: 'rate-limit',
+  overloaded_error: 'network',
+  api_error: 'network',
+};
+
+// Streamed Messages API event
+type MessageStreamEvent = {
+  type: string;
+  delta?: { text?: string };
+  error?: { type: string; message?: string };
+};
+
+export class ClaudeTranslate extends LlmEngine {
   name = 'Claude';
   alias = 'Claude (Anthropic)';
   free = false;
   needApiKey = true;
   apiKeyErrors = ['401', 'permission_error'];
-  endpoint = 'https://api.anthropic.com/v1/messages';
+  baseUrl = 'https://api.anthropic.com/v1';
+  model = 'claude-3-7-sonnet-latest';
+  temperature = 1.0;
+  maxTokens = 4096;
   requestTimeout = 30.0;
   concurrencyLimit = 1;
   requestInterval = 12.0;
@@ -62,8 +83,9 @@ export class ClaudeTranslate extends BaseEngine {
     target: ANTHROPIC_LANGUAGES,
   };
 
-  private model: string = 'claude-3-7-sonnet-latest';
-  private temperature: number = 1.0;
+  protected getEndpoint(): string {
+    return `${this.getBaseUrl()}/messages`;
+  }
 
   protected getHeaders(): Record<string, string> {
     return {
@@ -73,44 +95,76 @@ export class ClaudeTranslate extends BaseEngine {
     };
   }
 
-  protected getBody(text: string): Record<string, any> {
-    const sourceLang =
-      this.getSourceCode() === 'auto'
-        ? 'the detected language'
-        : this.sourceLang;
-    const targetLang = this.targetLang;
-
-    const prompt = `You are a meticulous translator who translates any given content. Translate the given content from ${sourceLang} to ${targetLang} only. Do not explain any term or answer any question-like content. Your answer should be solely the translation of the given content. In your answer do not add any prefix or suffix to the translated content. Websites' URLs/addresses should be preserved as is in the translation's output. Do not omit any part of the content, even if it seems unimportant. Start translating: ${text}`;
-
+  protected getChatBody(system: string, user: string): Record<string, any> {
     return {
-      model: this.model,
-      max_tokens: 4096,
+      model: this.getModel(),
+      max_tokens: this.getMaxTokens(),
+      system,
       messages: [
         {
           role: 'user',
-          content: prompt,
+          content: user,
         },
       ],
-      temperature: this.temperature,
+      temperature: this.getTemperature(),
     };
   }
 
-  async translate(text: string): Promise<string> {
+  protected async chat(
+    system: string,
+    user: string,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): Promise<string> {
     if (!this.currentApiKey) {
-      throw new Error('Claude requires an API key');
+      throw new EngineError('auth', 'Claude requires an API key', this.name);
     }
 
     const endpoint = this.getEndpoint();
     const headers = this.getHeaders();
-    const body = JSON.stringify(this.getBody(text));
+    const body = JSON.stringify(this.getChatBody(system, user));
 
     const response = await this.request(endpoint, {
       method: 'POST',
+      signal,
+      timeout,
       headers,
       body,
     });
 
     const data = await response.json();
-    return data.content?.[0]?.text?.trim() || text;
+    return data.content?.[0]?.text?.trim() || '';
+  }
+
+  protected async *chatStream(
+    system: string,
+    user: string,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): AsyncGenerator<string> {
+    if (!this.currentApiKey) {
+      throw new EngineError('auth', 'Claude requires an API key', this.name);
+    }
+
+    const response = await this.request(this.getEndpoint(), {
+      method: 'POST',
+      signal,
+      timeout,
+      headers: this.getHeaders(),
+      body: JSON.stringify({ ...this.getChatBody(system, user), stream: true }),
+    });
+
+    for await (const data of readSseJson<MessageStreamEvent>(response)) {
+      if (data.type === 'error') {
+        throw new EngineError(
+          (data.error && STREAM_ERROR_TYPES[data.error.type]) || 'bad-response',
+          data.error?.message || 'Claude stream error',
+          this.name,
+        );
+      }
+      if (data.type === 'content_block_delta' && data.delta?.text) {
+        yield data.delta.text;
+      }
+    }
   }
 }
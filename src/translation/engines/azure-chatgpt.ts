@@ -8,8 +8,13 @@ import { ChatGPTranslate } from './openai';
 export class AzureChatGPTTranslate extends ChatGPTranslate {
   name = 'ChatGPT(Azure)';
   alias = 'ChatGPT (Azure)';
-  endpoint =
-    'https://{your-resource-name}.openai.azure.com/openai/deployments/{deployment-id}/chat/completions?api-version={api-version}';
+  baseUrl =
+    'https://{your-resource-name}.openai.azure.com/openai/deployments/{deployment-id}';
+  apiVersion = '2024-02-01';
+
+  protected getEndpoint(): string {
+    return `${this.getBaseUrl()}/chat/completions?api-version=${this.apiVersion}`;
+  }
 
   protected getHeaders(): Record<string, string> {
     return {
@@ -18,8 +23,8 @@ export class AzureChatGPTTranslate extends ChatGPTranslate {
     };
   }
 
-  protected getBody(text: string): Record<string, any> {
-    const body = super.getBody(text);
+  protected getChatBody(system: string, user: string): Record<string, any> {
+    const body = super.getChatBody(system, user);
     // Azure uses api-key instead of Authorization header
     return body;
   }
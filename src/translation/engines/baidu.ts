@@ -1,5 +1,6 @@
 import { BaseEngine } from './base';
 import { md5 } from './md5';
+import { EngineError } from '../errors';
 
 /**
  * Baidu Translate Engine
@@ -57,7 +58,11 @@ export class BaiduTranslate extends BaseEngine {
 
   protected getBody(text: string): string {
     if (!this.currentApiKey || !this.apiKeyPattern.test(this.currentApiKey)) {
-      throw new Error('Baidu requires API key in format: appid|appkey');
+      throw new EngineError(
+        'auth',
+        'Baidu requires API key in format: appid|appkey',
+        this.name,
+      );
     }
 
     const [appId, appKey] = this.currentApiKey.split(/[:\|]/);
@@ -77,9 +82,9 @@ export class BaiduTranslate extends BaseEngine {
     return params.toString();
   }
 
-  async translate(text: string): Promise<string> {
+  async translate(text: string, signal?: AbortSignal): Promise<string> {
     if (!this.currentApiKey) {
-      throw new Error('Baidu requires an API key');
+      throw new EngineError('auth', 'Baidu requires an API key', this.name);
     }
 
     const endpoint = this.getEndpoint();
@@ -88,6 +93,7 @@ export class BaiduTranslate extends BaseEngine {
 
     const response = await this.request(endpoint, {
       method: 'POST',
+      signal,
       headers,
       body,
     });
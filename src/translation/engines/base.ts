@@ -4,6 +4,16 @@
  */
 
 import { userAgentRotator } from '../utils/user-agents';
+import { anySignal, timeoutSignal } from '../utils/abort';
+import {
+  EngineError,
+  httpError,
+  parseRetryAfter,
+  toEngineError,
+} from '../errors';
+import type { GlossaryTerm } from '../glossary';
+import { rateLimiter, RateLimits } from '../rate-limiter';
+import { findLanguageCode } from '../languages';
 
 export interface TranslationConfig {
   apiKey?: string;
@@ -15,8 +25,20 @@ export interface TranslationConfig {
   requestAttempt?: number;
   requestInterval?: number;
   concurrencyLimit?: number;
+  // Budgets shared by every translator using the engine, 0 for no limit
+  requestsPerMinute?: number;
+  charsPerMinute?: number;
   maxErrorCount?: number;
   region?: string; // For Microsoft Translator API
+  // LLM engines
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Prompt templates with {source}, {target} and {text} variables
+  systemPrompt?: string;
+  userPrompt?: string;
+  // API base URL, e.g. an OpenAI-compatible local server
+  baseUrl?: string;
 }
 
 export interface Language {
@@ -24,16 +46,73 @@ export interface Language {
   name: string;
 }
 
+// How much text an engine accepts in a single request
+export type BatchLimits = {
+  maxChars: number;
+  maxSegments: number;
+};
+
+// Request options, timeout (seconds) overrides the engine's requestTimeout
+export type RequestOptions = RequestInit & { timeout?: number };
+
+// Called when a request failed and is about to be sent again
+export type RetryListener = (error: Error, attempt: number) => void;
+
 export interface TranslationResult {
   text: string;
   engine: string;
   confidence?: number;
 }
 
+/**
+ * Response whose rate limiter slot is released once its body has been read,
+ * cancelled or has failed, so streams and large bodies count as in flight
+ * Without streams (React Native) the body is already downloaded when fetch
+ * resolves and the slot is released right away
+ */
+function releaseAfterBody(response: Response, release: () => void): Response {
+  const body = response.body;
+  if (!body || typeof ReadableStream === 'undefined') {
+    release();
+    return response;
+  }
+
+  const reader = body.getReader();
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(stream, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
 export abstract class BaseEngine {
   abstract name: string;
   abstract alias: string;
   abstract free: boolean;
+  // Served by the user (LibreTranslate, Ollama...), never used as a free
+  // fallback since the server may not exist
+  selfHosted = false;
 
   abstract langCodes: {
     source: Record<string, string>;
@@ -55,11 +134,19 @@ export abstract class BaseEngine {
   protected requestInterval: number = 0.0;
   protected maxErrorCount: number = 10;
   protected concurrencyLimit: number = 0;
+  protected requestsPerMinute = 0;
+  protected charsPerMinute = 0;
 
   protected supportHtml: boolean = false;
+  // Engines with a prompt get glossary terms as instructions, not placeholders
+  protected promptGlossary = false;
+  protected glossary: GlossaryTerm[] = [];
+  protected batchLimits: BatchLimits = { maxChars: 5000, maxSegments: 1 };
   protected endpoint?: string;
   protected method: 'GET' | 'POST' = 'POST';
 
+  private retryListeners = new Set<RetryListener>();
+
   constructor(config: TranslationConfig = {}) {
     this.config = config;
     this.apiKeys = config.apiKeys || [];
@@ -79,13 +166,88 @@ export abstract class BaseEngine {
     this.targetLang = lang;
   }
 
+  setGlossary(terms: GlossaryTerm[]): void {
+    this.glossary = terms;
+  }
+
+  /**
+   * Listen to requests being retried after a failure
+   * Returns a function that removes the listener
+   */
+  onRetry(listener: RetryListener): () => void {
+    this.retryListeners.add(listener);
+    return () => {
+      this.retryListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether the engine can't translate without an API key
+   */
+  requiresApiKey(): boolean {
+    return this.needApiKey;
+  }
+
+  /**
+   * Whether glossary terms are enforced through the prompt
+   */
+  usesPromptGlossary(): boolean {
+    return this.promptGlossary;
+  }
+
+  /**
+   * Engine code of the source language
+   * Throws an 'unsupported-language' EngineError for languages missing from
+   * the engine's table, instead of sending a code the API doesn't know
+   */
   getSourceCode(): string {
     if (this.sourceLang === 'auto') return 'auto';
-    return this.langCodes.source[this.sourceLang] || this.sourceLang;
+    return this.requireCode(this.findSourceCode(this.sourceLang), 'source');
   }
 
+  /**
+   * Engine code of the target language, see getSourceCode
+   */
   getTargetCode(): string {
-    return this.langCodes.target[this.targetLang] || this.targetLang;
+    return this.requireCode(this.findTargetCode(this.targetLang), 'target');
+  }
+
+  /**
+   * Code of a language in the engine's source table, in any form ('zh'
+   * finds 'zh-CN'); null when the engine can't translate from it
+   */
+  findSourceCode(lang: string): string | null {
+    return findLanguageCode(this.langCodes.source, lang);
+  }
+
+  /**
+   * Code of a language in the engine's target table, see findSourceCode
+   */
+  findTargetCode(lang: string): string | null {
+    return findLanguageCode(this.langCodes.target, lang);
+  }
+
+  /**
+   * Whether the engine translates between two languages
+   * Every engine detects the source language when it is 'auto'
+   */
+  supportsPair(sourceLang: string, targetLang: string): boolean {
+    return (
+      (sourceLang === 'auto' || this.findSourceCode(sourceLang) !== null) &&
+      this.findTargetCode(targetLang) !== null
+    );
+  }
+
+  private requireCode(code: string | null, side: 'source' | 'target') {
+    if (code === null) {
+      const lang = side === 'source' ? this.sourceLang : this.targetLang;
+      throw new EngineError(
+        'unsupported-language',
+        `${this.alias} does not support ${side} language ${lang}`,
+        this.name,
+      );
+    }
+    return code;
   }
 
   protected getApiKey(): string | undefined {
@@ -117,7 +279,74 @@ export abstract class BaseEngine {
   /**
    * Main translation method - must be implemented by each engine
    */
-  abstract translate(text: string): Promise<string>;
+  abstract translate(text: string, signal?: AbortSignal): Promise<string>;
+
+  /**
+   * Translate several texts, returning translations in the same order
+   * Engines with a list-based API override this to send a single request;
+   * the default translates one text at a time
+   */
+  async translateBatch(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const results: string[] = [];
+    for (const text of texts) {
+      results.push(await this.translate(text, signal));
+    }
+    return results;
+  }
+
+  /**
+   * Stream the translation of a text, yielding pieces as they arrive
+   * Joined together the pieces make the whole translation; engines without
+   * a streaming API yield it in one piece
+   */
+  async *translateStream(
+    text: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<string> {
+    yield await this.translate(text, signal);
+  }
+
+  /**
+   * Stream a batch translation, yielding the translations completed so far
+   * in the same order as the texts. The last value holds every translation.
+   */
+  async *translateBatchStream(
+    texts: string[],
+    signal?: AbortSignal,
+  ): AsyncGenerator<string[]> {
+    yield await this.translateBatch(texts, signal);
+  }
+
+  /**
+   * Consecutive failures after which the engine is taken out of rotation
+   */
+  getMaxErrorCount(): number {
+    return this.maxErrorCount;
+  }
+
+  /**
+   * Limits of the shared rate limiter, the config overriding the defaults
+   * of the engine
+   */
+  getRateLimits(): RateLimits {
+    return {
+      concurrency: this.config.concurrencyLimit ?? this.concurrencyLimit,
+      interval: this.config.requestInterval ?? this.requestInterval,
+      requestsPerMinute:
+        this.config.requestsPerMinute ?? this.requestsPerMinute,
+      charsPerMinute: this.config.charsPerMinute ?? this.charsPerMinute,
+    };
+  }
+
+  /**
+   * Limits used to pack texts into translateBatch calls
+   */
+  getBatchLimits(): BatchLimits {
+    return this.batchLimits;
+  }
 
   /**
    * Get endpoint URL for the translation API
@@ -162,48 +391,108 @@ export abstract class BaseEngine {
     if (typeof response === 'string') {
       return response;
     }
-    throw new Error('Invalid response format');
+    throw new EngineError('bad-response', 'Invalid response format', this.name);
   }
 
   /**
    * Make HTTP request with retry logic
+   * Every attempt waits for the engine's rate limits first and holds its
+   * slot until the response body has been read. Failures are
+   * thrown as EngineError; only network and rate-limit errors are retried,
+   * rate limits pausing every request of the engine. Cancelling
+   * options.signal stops without further attempts.
    */
   protected async request(
     url: string,
-    options: RequestInit = {},
+    requestOptions: RequestOptions = {},
   ): Promise<Response> {
+    const { timeout, ...options } = requestOptions;
     let lastError: Error | null = null;
+    const chars =
+      url.length + (typeof options.body === 'string' ? options.body.length : 0);
 
     for (let attempt = 0; attempt < this.requestAttempt; attempt++) {
       try {
-        const response = await fetch(url, {
-          ...options,
-          signal: AbortSignal.timeout(this.requestTimeout * 1000),
-        });
+        const release = await rateLimiter.acquire(
+          this.name,
+          this.getRateLimits(),
+          chars,
+          options.signal || undefined,
+        );
+        const { signal, dispose } = anySignal([
+          options.signal,
+          timeoutSignal((timeout || this.requestTimeout) * 1000),
+        ]);
+        // The slot is held and the signals listened to until the body is
+        // read, or the request cancelled or timed out whether the body is
+        // read or not
+        const finish = () => {
+          release();
+          dispose();
+        };
+        signal.addEventListener('abort', finish, { once: true });
+
+        let response: Response;
+        try {
+          response = releaseAfterBody(
+            await fetch(url, { ...options, signal }),
+            finish,
+          );
+        } catch (error) {
+          finish();
+          throw error;
+        }
 
         if (!response.ok) {
           const errorText = await response.text().catch(() => '');
-          const errorMessage = `HTTP ${response.status}: ${errorText}`;
+          const error = httpError(
+            this.name,
+            response.status,
+            errorText,
+            parseRetryAfter(response.headers.get('Retry-After')),
+          );
 
-          if (this.needSwapApiKey(errorMessage) && this.swapApiKey()) {
+          if (this.needSwapApiKey(error.message) && this.swapApiKey()) {
+            this.notifyRetry(error, attempt + 1);
             continue; // Retry with new API key
           }
 
-          throw new Error(errorMessage);
+          throw error;
         }
 
         return response;
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+        lastError = toEngineError(error, this.name);
+
+        if (
+          options.signal?.aborted ||
+          (lastError instanceof EngineError && !lastError.isRetryable())
+        ) {
+          throw lastError;
+        }
 
+        if (
+          lastError instanceof EngineError &&
+          lastError.type === 'rate-limit'
+        ) {
+          // Without Retry-After, back off exponentially: 1s, 2s, 4s...
+          rateLimiter.pause(this.name, lastError.retryAfter ?? 2 ** attempt);
+        }
+
+        // The next attempt waits requestInterval in the rate limiter
         if (attempt < this.requestAttempt - 1) {
-          await new Promise(resolve =>
-            setTimeout(resolve, this.requestInterval * 1000),
-          );
+          this.notifyRetry(lastError, attempt + 1);
         }
       }
     }
 
-    throw lastError || new Error('Translation request failed');
+    throw (
+      lastError ||
+      new EngineError('unknown', 'Translation request failed', this.name)
+    );
+  }
+
+  private notifyRetry(error: Error, attempt: number): void {
+    this.retryListeners.forEach(listener => listener(error, attempt));
   }
 }
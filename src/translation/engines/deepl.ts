@@ -1,5 +1,6 @@
 import { BaseEngine } from './base';
 import { userAgentRotator } from '../utils/user-agents';
+import { EngineError } from '../errors';
 
 /**
  * DeepL Translation Engine
@@ -45,6 +46,7 @@ export class DeepLFreeTranslate extends BaseEngine {
   needApiKey = false;
   endpoint = 'https://api-free.deepl.com/v2/translate';
   supportHtml = true;
+  batchLimits = { maxChars: 30000, maxSegments: 50 };
 
   langCodes = {
     source: DEEPL_LANGUAGES,
@@ -61,34 +63,47 @@ export class DeepLFreeTranslate extends BaseEngine {
     };
   }
 
-  protected getBody(text: string): string {
+  protected getBatchBody(texts: string[]): string {
     const params = new URLSearchParams({
       auth_key: this.currentApiKey || '',
-      text: text,
       target_lang: this.getTargetCode(),
       source_lang: this.getSourceCode() !== 'auto' ? this.getSourceCode() : '',
     });
+    texts.forEach(text => params.append('text', text));
 
     return params.toString();
   }
 
-  async translate(text: string): Promise<string> {
+  async translate(text: string, signal?: AbortSignal): Promise<string> {
+    const [result] = await this.translateBatch([text], signal);
+    return result;
+  }
+
+  async translateBatch(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<string[]> {
     if (!this.currentApiKey && this.needApiKey) {
-      throw new Error('DeepL Free requires an API key');
+      throw new EngineError(
+        'auth',
+        'DeepL Free requires an API key',
+        this.name,
+      );
     }
 
     const endpoint = this.getEndpoint();
     const headers = this.getHeaders();
-    const body = this.getBody(text);
+    const body = this.getBatchBody(texts);
 
     const response = await this.request(endpoint, {
       method: 'POST',
+      signal,
       headers,
       body,
     });
 
     const data = await response.json();
-    return data.translations?.[0]?.text || text;
+    return texts.map((text, i) => data.translations?.[i]?.text || text);
   }
 }
 
@@ -100,6 +115,7 @@ export class DeepLProTranslate extends BaseEngine {
   apiKeyErrors = ['403', '456'];
   endpoint = 'https://api.deepl.com/v2/translate';
   supportHtml = true;
+  batchLimits = { maxChars: 30000, maxSegments: 50 };
 
   langCodes = {
     source: DEEPL_LANGUAGES,
@@ -113,32 +129,41 @@ export class DeepLProTranslate extends BaseEngine {
     };
   }
 
-  protected getBody(text: string): string {
+  protected getBatchBody(texts: string[]): string {
     const params = new URLSearchParams({
-      text: text,
       target_lang: this.getTargetCode(),
       source_lang: this.getSourceCode() !== 'auto' ? this.getSourceCode() : '',
     });
+    texts.forEach(text => params.append('text', text));
 
     return params.toString();
   }
 
-  async translate(text: string): Promise<string> {
+  async translate(text: string, signal?: AbortSignal): Promise<string> {
+    const [result] = await this.translateBatch([text], signal);
+    return result;
+  }
+
+  async translateBatch(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<string[]> {
     if (!this.currentApiKey) {
-      throw new Error('DeepL Pro requires an API key');
+      throw new EngineError('auth', 'DeepL Pro requires an API key', this.name);
     }
 
     const endpoint = this.getEndpoint();
     const headers = this.getHeaders();
-    const body = this.getBody(text);
+    const body = this.getBatchBody(texts);
 
     const response = await this.request(endpoint, {
       method: 'POST',
+      signal,
       headers,
       body,
     });
 
     const data = await response.json();
-    return data.translations?.[0]?.text || text;
+    return texts.map((text, i) => data.translations?.[i]?.text || text);
   }
 }
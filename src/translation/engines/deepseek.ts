@@ -9,18 +9,11 @@ import { ChatGPTranslate } from './openai';
 export class DeepseekTranslate extends ChatGPTranslate {
   name = 'DeepSeek';
   alias = 'DeepSeek (Chat)';
-  endpoint = 'https://api.deepseek.com/v1/chat/completions';
+  baseUrl = 'https://api.deepseek.com/v1';
+  model = 'deepseek-chat';
   temperature = 1.3;
   concurrencyLimit = 0;
   requestInterval = 0.0;
 
   private models: string[] = ['deepseek-chat', 'deepseek-reasoner'];
-  private model: string = 'deepseek-chat';
-
-  protected getBody(text: string): Record<string, any> {
-    const body = super.getBody(text);
-    body.model = this.model;
-    body.temperature = this.temperature;
-    return body;
-  }
 }
@@ -1,5 +1,7 @@
-import { BaseEngine } from './base';
+import { LlmEngine } from './llm';
 import { GOOGLE_LANGUAGES } from './google';
+import { readSseJson } from '../utils/sse';
+import { EngineError } from '../errors';
 
 /**
  * Google Gemini Translation Engine
@@ -8,13 +10,24 @@ import { GOOGLE_LANGUAGES } from './google';
 
 const GEMINI_LANGUAGES = GOOGLE_LANGUAGES;
 
-export class GeminiTranslate extends BaseEngine {
+// Streamed generateContent response
+type GenerateContentChunk = {
+  candidates?: {
+    content?: { parts?: { text?: string }[] };
+    finishReason?: string;
+  }[];
+};
+
+export class GeminiTranslate extends LlmEngine {
   name = 'Gemini';
   alias = 'Gemini';
   free = false;
   needApiKey = true;
   apiKeyErrors = ['API_KEY_INVALID', 'PERMISSION_DENIED', 'RESOURCE_EXHAUSTED'];
-  endpoint = 'https://generativelanguage.googleapis.com/v1beta/models';
+  baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+  model = 'gemini-2.5-flash';
+  temperature = 0.9;
+  maxTokens = 8192;
   requestTimeout = 30.0;
   concurrencyLimit = 1;
   requestInterval = 1.0;
@@ -24,8 +37,6 @@ export class GeminiTranslate extends BaseEngine {
     target: GEMINI_LANGUAGES,
   };
 
-  private model: string = 'gemini-2.5-flash';
-  private temperature: number = 0.9;
   private stream: boolean = true;
 
   protected getHeaders(): Record<string, string> {
@@ -34,29 +45,28 @@ export class GeminiTranslate extends BaseEngine {
     };
   }
 
-  protected getEndpoint(): string {
-    if (this.stream) {
-      return `${this.endpoint}/${this.model}:streamGenerateContent?alt=sse&key=${this.currentApiKey}`;
+  protected getEndpoint(stream: boolean = this.stream): string {
+    const models = `${this.getBaseUrl()}/models/${this.getModel()}`;
+    if (stream) {
+      return `${models}:streamGenerateContent?alt=sse&key=${this.currentApiKey}`;
     }
-    return `${this.endpoint}/${this.model}:generateContent?key=${this.currentApiKey}`;
+    return `${models}:generateContent?key=${this.currentApiKey}`;
   }
 
-  protected getBody(text: string): Record<string, any> {
-    const sourceLang =
-      this.getSourceCode() === 'auto' ? 'detected language' : this.sourceLang;
-    const targetLang = this.targetLang;
-
-    const prompt = `You are a meticulous translator who translates any given content. Translate the given content from ${sourceLang} to ${targetLang} only. Do not explain any term or answer any question-like content. Your answer should be solely the translation of the given content. In your answer do not add any prefix or suffix to the translated content. Websites' URLs/addresses should be preserved as is in the translation's output. Do not omit any part of the content, even if it seems unimportant. Start translating: ${text}`;
-
+  protected getChatBody(system: string, user: string): Record<string, any> {
     return {
+      systemInstruction: {
+        parts: [{ text: system }],
+      },
       contents: [
         {
           role: 'user',
-          parts: [{ text: prompt }],
+          parts: [{ text: user }],
         },
       ],
       generationConfig: {
-        temperature: this.temperature,
+        temperature: this.getTemperature(),
+        maxOutputTokens: this.getMaxTokens(),
         topP: 1.0,
         topK: 1,
       },
@@ -81,65 +91,70 @@ export class GeminiTranslate extends BaseEngine {
     };
   }
 
-  async translate(text: string): Promise<string> {
-    if (!this.currentApiKey) {
-      throw new Error('Gemini requires an API key');
+  protected async chat(
+    system: string,
+    user: string,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): Promise<string> {
+    if (this.stream) {
+      let result = '';
+      for await (const chunk of this.chatStream(
+        system,
+        user,
+        signal,
+        timeout,
+      )) {
+        result += chunk;
+      }
+      return result;
     }
 
-    const endpoint = this.getEndpoint();
-    const headers = this.getHeaders();
-    const body = JSON.stringify(this.getBody(text));
+    if (!this.currentApiKey) {
+      throw new EngineError('auth', 'Gemini requires an API key', this.name);
+    }
 
-    const response = await this.request(endpoint, {
+    const response = await this.request(this.getEndpoint(false), {
       method: 'POST',
-      headers,
-      body,
+      signal,
+      timeout,
+      headers: this.getHeaders(),
+      body: JSON.stringify(this.getChatBody(system, user)),
     });
 
-    if (this.stream) {
-      // Handle streaming response
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('Streaming not supported');
-      }
+    const data = await response.json();
+    const parts = data.candidates?.[0]?.content?.parts || [];
+    return parts.map((p: any) => p.text).join('');
+  }
 
-      const decoder = new TextDecoder();
-      let result = '';
+  protected async *chatStream(
+    system: string,
+    user: string,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): AsyncGenerator<string> {
+    if (!this.currentApiKey) {
+      throw new EngineError('auth', 'Gemini requires an API key', this.name);
+    }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data:')) {
-            try {
-              const data = JSON.parse(line.substring(5).trim());
-              const candidate = data.candidates?.[0];
-              if (candidate?.content?.parts) {
-                for (const part of candidate.content.parts) {
-                  if (part.text) {
-                    result += part.text;
-                  }
-                }
-              }
-              if (candidate?.finishReason === 'STOP') {
-                return result || text;
-              }
-            } catch (e) {
-              // Ignore parse errors
-            }
-          }
+    const response = await this.request(this.getEndpoint(true), {
+      method: 'POST',
+      signal,
+      timeout,
+      headers: this.getHeaders(),
+      body: JSON.stringify(this.getChatBody(system, user)),
+    });
+
+    for await (const data of readSseJson<GenerateContentChunk>(response)) {
+      const candidate = data.candidates?.[0];
+      for (const part of candidate?.content?.parts || []) {
+        if (part.text) {
+          yield part.text;
         }
       }
-
-      return result || text;
-    } else {
-      const data = await response.json();
-      const parts = data.candidates?.[0]?.content?.parts || [];
-      return parts.map((p: any) => p.text).join('') || text;
+      if (candidate?.finishReason === 'STOP') {
+        return;
+      }
     }
   }
 }
@@ -1,5 +1,7 @@
 import { BaseEngine, Language } from './base';
 import { userAgentRotator } from '../utils/user-agents';
+import { EngineError } from '../errors';
+import { splitText } from '../utils/batch';
 
 /**
  * Google Translate Engine (Free)
@@ -119,7 +121,13 @@ export class GoogleFreeTranslate extends BaseEngine {
   free = true;
   needApiKey = false;
   endpoint = 'https://translate.googleapis.com/translate_a/single';
+  batchEndpoint = 'https://translate.googleapis.com/translate_a/t';
   method: 'GET' | 'POST' = 'GET';
+  batchLimits = { maxChars: 4500, maxSegments: 50 };
+  // Unofficial endpoint, kept well below the point where it bans the IP
+  concurrencyLimit = 3;
+  requestsPerMinute = 60;
+  charsPerMinute = 50000;
 
   langCodes = {
     source: GOOGLE_LANGUAGES,
@@ -151,7 +159,11 @@ export class GoogleFreeTranslate extends BaseEngine {
     };
   }
 
-  async translate(text: string): Promise<string> {
+  async translate(text: string, signal?: AbortSignal): Promise<string> {
+    if (text.length > this.batchLimits.maxChars) {
+      return this.translateLongText(text, signal);
+    }
+
     const endpoint = this.getEndpoint();
     const headers = this.getHeaders();
     const body = this.getBody(text);
@@ -164,6 +176,7 @@ export class GoogleFreeTranslate extends BaseEngine {
 
     const response = await this.request(url, {
       method: this.method,
+      signal,
       headers:
         this.method === 'POST'
           ? { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' }
@@ -185,7 +198,82 @@ export class GoogleFreeTranslate extends BaseEngine {
       return data[0].map((item: any[]) => item[0] || '').join('');
     }
 
-    throw new Error('Unexpected response format from Google Translate');
+    throw new EngineError(
+      'bad-response',
+      'Unexpected response format from Google Translate',
+      this.name,
+    );
+  }
+
+  /**
+   * Translate a text longer than one request allows, sentence by sentence
+   * Whitespace between chunks is kept as in the source
+   */
+  private async translateLongText(
+    text: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const chunks = splitText(text, this.batchLimits.maxChars);
+    const translated = await Promise.all(
+      chunks.map(async chunk => {
+        const trimmed = chunk.trim();
+        if (!trimmed) {
+          return chunk;
+        }
+        const leading = chunk.substring(0, chunk.indexOf(trimmed));
+        const trailing = chunk.substring(leading.length + trimmed.length);
+        return leading + (await this.translate(trimmed, signal)) + trailing;
+      }),
+    );
+    return translated.join('');
+  }
+
+  /**
+   * Translate several texts in one request through the list endpoint
+   * Each `q` parameter is translated separately and returned in order
+   */
+  async translateBatch(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    if (texts.length <= 1) {
+      return Promise.all(texts.map(text => this.translate(text, signal)));
+    }
+
+    const params = new URLSearchParams({
+      client: 'gtx',
+      sl: this.getSourceCode(),
+      tl: this.getTargetCode(),
+    });
+    const body = new URLSearchParams();
+    texts.forEach(text => body.append('q', text));
+
+    const response = await this.request(
+      `${this.batchEndpoint}?${params.toString()}`,
+      {
+        method: 'POST',
+        signal,
+        headers: {
+          ...this.getHeaders(),
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: body.toString(),
+      },
+    );
+
+    const data = await response.json();
+    if (!Array.isArray(data) || data.length !== texts.length) {
+      throw new EngineError(
+        'bad-response',
+        'Unexpected response format from Google Translate',
+        this.name,
+      );
+    }
+
+    // Items are plain strings, or [translation, detectedLang] with sl=auto
+    return data.map((item: string | string[], i: number) =>
+      Array.isArray(item) ? item[0] || texts[i] : item || texts[i],
+    );
   }
 }
 
@@ -196,6 +284,9 @@ export class GoogleFreeTranslateNew extends BaseEngine {
   needApiKey = false;
   endpoint = 'https://translate-pa.googleapis.com/v1/translate';
   method: 'GET' | 'POST' = 'GET';
+  concurrencyLimit = 3;
+  requestsPerMinute = 60;
+  charsPerMinute = 50000;
 
   langCodes = {
     source: GOOGLE_LANGUAGES,
@@ -226,7 +317,7 @@ export class GoogleFreeTranslateNew extends BaseEngine {
     };
   }
 
-  async translate(text: string): Promise<string> {
+  async translate(text: string, signal?: AbortSignal): Promise<string> {
     const endpoint = this.getEndpoint();
     const headers = this.getHeaders();
     const body = this.getBody(text);
@@ -236,6 +327,7 @@ export class GoogleFreeTranslateNew extends BaseEngine {
 
     const response = await this.request(url, {
       method: 'GET',
+      signal,
       headers,
     });
 
@@ -4,9 +4,12 @@
 
 export {
   BaseEngine,
+  type BatchLimits,
+  type RetryListener,
   type TranslationConfig,
   type TranslationResult,
 } from './base';
+export { LlmEngine } from './llm';
 export { GoogleFreeTranslate, GoogleFreeTranslateNew } from './google';
 export { DeepLFreeTranslate, DeepLProTranslate } from './deepl';
 export { ChatGPTranslate } from './openai';
@@ -18,6 +21,9 @@ export { DeepseekTranslate } from './deepseek';
 export { GeminiTranslate } from './gemini';
 export { MicrosoftEdgeTranslate } from './microsoft-edge';
 export { AzureChatGPTTranslate } from './azure-chatgpt';
+export { LibreTranslate } from './libretranslate';
+export { OllamaTranslate } from './ollama';
+export { OpenAICompatibleTranslate } from './openai-compatible';
 
 import { GoogleFreeTranslate, GoogleFreeTranslateNew } from './google';
 import { DeepLFreeTranslate, DeepLProTranslate } from './deepl';
@@ -30,6 +36,9 @@ import { DeepseekTranslate } from './deepseek';
 import { GeminiTranslate } from './gemini';
 import { MicrosoftEdgeTranslate } from './microsoft-edge';
 import { AzureChatGPTTranslate } from './azure-chatgpt';
+import { LibreTranslate } from './libretranslate';
+import { OllamaTranslate } from './ollama';
+import { OpenAICompatibleTranslate } from './openai-compatible';
 
 // List of all available engines (free engines first)
 export const BUILTIN_ENGINES = [
@@ -46,6 +55,10 @@ export const BUILTIN_ENGINES = [
   MicrosoftTranslate,
   YoudaoTranslate,
   BaiduTranslate,
+  // Self-hosted engines, reached through the baseUrl option
+  LibreTranslate,
+  OllamaTranslate,
+  OpenAICompatibleTranslate,
 ] as const;
 
 export type EngineClass = (typeof BUILTIN_ENGINES)[number];
@@ -0,0 +1,129 @@
+import { BaseEngine } from './base';
+
+/**
+ * LibreTranslate Engine
+ * Self-hosted, set the server with the baseUrl option
+ * API key only needed when the server requires one
+ */
+
+export const LIBRETRANSLATE_LANGUAGES: Record<string, string> = {
+  'Albanian': 'sq',
+  'Arabic': 'ar',
+  'Azerbaijani': 'az',
+  'Basque': 'eu',
+  'Bengali': 'bn',
+  'Bulgarian': 'bg',
+  'Catalan': 'ca',
+  'Chinese (Simplified)': 'zh',
+  'Chinese (Traditional)': 'zt',
+  'Czech': 'cs',
+  'Danish': 'da',
+  'Dutch': 'nl',
+  'English': 'en',
+  'Esperanto': 'eo',
+  'Estonian': 'et',
+  'Finnish': 'fi',
+  'French': 'fr',
+  'Galician': 'gl',
+  'German': 'de',
+  'Greek': 'el',
+  'Hebrew': 'he',
+  'Hindi': 'hi',
+  'Hungarian': 'hu',
+  'Indonesian': 'id',
+  'Irish': 'ga',
+  'Italian': 'it',
+  'Japanese': 'ja',
+  'Korean': 'ko',
+  'Latvian': 'lv',
+  'Lithuanian': 'lt',
+  'Malay': 'ms',
+  'Norwegian': 'nb',
+  'Persian': 'fa',
+  'Polish': 'pl',
+  'Portuguese': 'pt',
+  'Romanian': 'ro',
+  'Russian': 'ru',
+  'Slovak': 'sk',
+  'Slovenian': 'sl',
+  'Spanish': 'es',
+  'Swedish': 'sv',
+  'Tagalog': 'tl',
+  'Thai': 'th',
+  'Turkish': 'tr',
+  'Ukrainian': 'uk',
+  'Urdu': 'ur',
+  'Vietnamese': 'vi',
+};
+
+type LibreTranslateBody = {
+  q: string[];
+  source: string;
+  target: string;
+  format: 'text';
+  api_key?: string;
+};
+
+export class LibreTranslate extends BaseEngine {
+  name = 'LibreTranslate';
+  alias = 'LibreTranslate (Local)';
+  free = true;
+  selfHosted = true;
+  needApiKey = false;
+  endpoint = 'http://localhost:5000';
+  requestTimeout = 30.0;
+  batchLimits = { maxChars: 5000, maxSegments: 50 };
+
+  langCodes = {
+    source: { 'Auto detect': 'auto', ...LIBRETRANSLATE_LANGUAGES },
+    target: LIBRETRANSLATE_LANGUAGES,
+  };
+
+  protected getEndpoint(): string {
+    const baseUrl = this.config.baseUrl || super.getEndpoint();
+    return `${baseUrl.replace(/\/+$/, '')}/translate`;
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+    };
+  }
+
+  protected getBatchBody(texts: string[]): string {
+    const body: LibreTranslateBody = {
+      q: texts,
+      source: this.getSourceCode(),
+      target: this.getTargetCode(),
+      format: 'text',
+    };
+    if (this.currentApiKey) {
+      body.api_key = this.currentApiKey;
+    }
+    return JSON.stringify(body);
+  }
+
+  async translate(text: string, signal?: AbortSignal): Promise<string> {
+    const [result] = await this.translateBatch([text], signal);
+    return result;
+  }
+
+  async translateBatch(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const response = await this.request(this.getEndpoint(), {
+      method: 'POST',
+      signal,
+      headers: this.getHeaders(),
+      body: this.getBatchBody(texts),
+    });
+
+    const data = await response.json();
+    const translated: string[] = Array.isArray(data.translatedText)
+      ? data.translatedText
+      : [data.translatedText];
+
+    return texts.map((text, i) => translated[i] || text);
+  }
+}
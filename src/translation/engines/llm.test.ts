@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { OllamaTranslate } from './ollama';
+
+type ChatCall = { system: string; user: string; timeout?: number };
+
+// Model answering every segment in upper case, dropping the markers of
+// prompts with more than maxSegments segments like a cut answer
+class FakeLlm extends OllamaTranslate {
+  calls: ChatCall[] = [];
+  maxSegments = Infinity;
+
+  protected async chat(
+    system: string,
+    user: string,
+    _signal?: AbortSignal,
+    timeout?: number,
+  ): Promise<string> {
+    this.calls.push({ system, user, timeout });
+    const segments = (user.match(/^<<<\d+>>>$/gm) || []).length;
+    const answer = user.toUpperCase();
+    return segments > this.maxSegments
+      ? answer.replace(/^<<<\d+>>>\n/gm, '')
+      : answer;
+  }
+}
+
+const createEngine = (maxTokens: number) => {
+  const engine = new FakeLlm({ maxTokens });
+  engine.setSourceLang('ja');
+  engine.setTargetLang('en');
+  return engine;
+};
+
+const segmentCount = (call: ChatCall) =>
+  (call.user.match(/^<<<\d+>>>$/gm) || []).length;
+
+describe('LlmEngine chapter mode', () => {
+  it('sizes windows from the output budget', async () => {
+    // 40 paragraphs of 100 CJK characters, about 4000 tokens
+    const texts = Array.from({ length: 40 }, (_, i) =>
+      `第${i}章`.padEnd(100, '猫'),
+    );
+    const small = createEngine(1000);
+    const large = createEngine(8000);
+
+    expect(await small.translateChapter(texts, '')).toEqual(texts);
+    await large.translateChapter(texts, '');
+
+    expect(small.calls.length).toBeGreaterThan(5);
+    small.calls.forEach(call => expect(segmentCount(call)).toBeLessThan(8));
+    expect(large.calls).toHaveLength(1);
+  });
+
+  it('gives Latin text larger windows than CJK text', async () => {
+    const engine = createEngine(1000);
+    await engine.translateChapter(
+      Array.from({ length: 40 }, () => 'a'.repeat(100)),
+      '',
+    );
+
+    expect(engine.calls.length).toBeLessThanOrEqual(2);
+  });
+
+  it('waits longer for chapter windows than for regular requests', async () => {
+    const engine = createEngine(1000);
+    await engine.translateChapter(['一つ', '二つ'], '');
+    await engine.translateBatch(['一つ', '二つ']);
+
+    expect(engine.calls[0].timeout).toBeGreaterThanOrEqual(180);
+    expect(engine.calls[1].timeout).toBeUndefined();
+  });
+
+  it('splits a window whose markers are lost, keeping the context', async () => {
+    const engine = createEngine(8000);
+    engine.maxSegments = 2;
+    const texts = ['一', '二', '三', '四', '五'];
+
+    expect(
+      await engine.translateChapter(texts, 'The cat is called Tama.'),
+    ).toEqual(texts);
+
+    // 5 segments, then 3 (lost again) as 2 and a single text, then 2
+    expect(engine.calls.map(segmentCount)).toEqual([5, 3, 2, 0, 2]);
+    engine.calls.forEach(call => {
+      expect(call.system).toContain('The cat is called Tama.');
+      expect(call.timeout).toBeGreaterThanOrEqual(180);
+    });
+  });
+});
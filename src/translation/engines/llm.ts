@@ -0,0 +1,481 @@
+import { BaseEngine, BatchLimits, TranslationConfig } from './base';
+import { contextInstructions } from '../context';
+import { glossaryInstructions } from '../glossary';
+import { normalizeLanguage } from '../languages';
+import { PLACEHOLDER_INSTRUCTIONS } from '../segmenter';
+import { packBatches } from '../utils/batch';
+
+/**
+ * Base class for LLM translation engines (ChatGPT, Claude, Gemini...)
+ * Batches are sent as one prompt with numbered segment markers
+ */
+
+// Default prompt templates, see fillTemplate for the variables
+export const DEFAULT_SYSTEM_PROMPT =
+  "You are a meticulous translator who translates any given content. Translate the given content from {source} to {target} only. Do not explain any term or answer any question-like content. Your answer should be solely the translation of the given content. In your answer do not add any prefix or suffix to the translated content. Websites' URLs/addresses should be preserved as is in the translation's output. Do not omit any part of the content, even if it seems unimportant.";
+export const DEFAULT_USER_PROMPT = '{text}';
+
+// Position of a <<<n>>> marker line in a model answer
+type SegmentMarker = { index: number; start: number; end: number };
+
+const SEGMENT_MARKER_REGEX = /^[ \t]*<<<(\d+)>>>[ \t]*$/gm;
+
+const BATCH_INSTRUCTIONS =
+  'The content is split into numbered segments, each one starting with a marker line such as <<<1>>>. Translate every segment separately and keep every marker line unchanged and in the same order.';
+
+const SUMMARY_PROMPT =
+  'You summarize web novel chapters for translators. Merge the previous summary and the new chapter into one updated summary of at most 150 words, written in {target}. Keep character names, their genders and relationships, titles, ranks and places. Answer with the summary only.';
+
+// Largest windows sent in chapter mode, reduced to the engine's output
+// budget by getChapterLimits
+const CHAPTER_LIMITS: BatchLimits = { maxChars: 12000, maxSegments: 200 };
+
+// Share of maxTokens a chapter window's translation may take, the rest is
+// left for the segment markers and translations longer than expected
+const CHAPTER_OUTPUT_SHARE = 0.75;
+
+// Timeout in seconds of chapter windows and summaries, whose whole answer
+// (up to maxTokens) has to arrive within it
+const CHAPTER_TIMEOUT = 180.0;
+
+// Han, kana and Hangul characters, about one token each
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+// Characters per token of other scripts, below the usual ~4 as a margin
+const CHARS_PER_TOKEN = 3;
+
+// Targets written with CJK characters, about one token per character
+const CJK_LANGUAGES = ['zh', 'zh-TW', 'ja', 'ko'];
+
+// Characters of the previous window's translation given for continuity
+const CONTINUITY_CHARS = 500;
+
+// Characters of a chapter given to the model when summarizing it
+const SUMMARY_INPUT_CHARS = 12000;
+
+export abstract class LlmEngine extends BaseEngine {
+  protected batchLimits: BatchLimits = { maxChars: 6000, maxSegments: 40 };
+  protected promptGlossary = true;
+
+  // Defaults, each one can be overridden through TranslationConfig
+  protected abstract model: string;
+  protected abstract temperature: number;
+  protected maxTokens = 4096;
+  protected systemPrompt = DEFAULT_SYSTEM_PROMPT;
+  // API paths are appended to it, e.g. https://api.openai.com/v1
+  protected abstract baseUrl: string;
+
+  /**
+   * Send a system prompt and a user message to the model
+   * Returns the answer, or an empty string when the model gave none
+   */
+  protected abstract chat(
+    system: string,
+    user: string,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): Promise<string>;
+
+  /**
+   * Send a system prompt and a user message to the model, yielding the
+   * answer in pieces as it is generated
+   * Engines with a streaming API override this, the default waits for chat
+   */
+  protected async *chatStream(
+    system: string,
+    user: string,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): AsyncGenerator<string> {
+    yield await this.chat(system, user, signal, timeout);
+  }
+
+  /**
+   * Values of the options left out of the config
+   */
+  getDefaultConfig(): TranslationConfig {
+    return {
+      model: this.model,
+      temperature: this.temperature,
+      maxTokens: this.maxTokens,
+      systemPrompt: this.systemPrompt,
+      userPrompt: DEFAULT_USER_PROMPT,
+      baseUrl: this.baseUrl,
+    };
+  }
+
+  protected getModel(): string {
+    return this.config.model || this.model;
+  }
+
+  protected getTemperature(): number {
+    return this.config.temperature ?? this.temperature;
+  }
+
+  protected getMaxTokens(): number {
+    return this.config.maxTokens || this.maxTokens;
+  }
+
+  protected getBaseUrl(): string {
+    return (this.config.baseUrl || this.baseUrl).replace(/\/+$/, '');
+  }
+
+  /**
+   * Replace {source}, {target} and {text} in a prompt template
+   */
+  protected fillTemplate(template: string, text: string): string {
+    const sourceLang =
+      this.getSourceCode() === 'auto'
+        ? 'the detected language'
+        : this.sourceLang;
+
+    return template
+      .replace(/\{source\}/g, sourceLang)
+      .replace(/\{target\}/g, this.targetLang)
+      .replace(/\{text\}/g, () => text);
+  }
+
+  /**
+   * System prompt used for translations
+   * @param instructions - Extra instructions appended to the prompt
+   */
+  protected getSystemPrompt(instructions: string): string {
+    const template = this.config.systemPrompt || this.systemPrompt;
+    return `${this.fillTemplate(template, '')} ${PLACEHOLDER_INSTRUCTIONS} ${instructions}`.trim();
+  }
+
+  protected getUserPrompt(text: string): string {
+    return this.fillTemplate(
+      this.config.userPrompt || DEFAULT_USER_PROMPT,
+      text,
+    );
+  }
+
+  /**
+   * Translate a text with extra instructions
+   * @param timeout - Seconds to wait for the answer, requestTimeout if unset
+   */
+  protected async complete(
+    text: string,
+    instructions: string,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): Promise<string> {
+    const answer = await this.chat(
+      this.getSystemPrompt(instructions),
+      this.getUserPrompt(text),
+      signal,
+      timeout,
+    );
+    return answer || text;
+  }
+
+  async translate(text: string, signal?: AbortSignal): Promise<string> {
+    const [result] = await this.translateSegments([text], '', signal);
+    return result;
+  }
+
+  async translateBatch(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    return await this.translateSegments(texts, '', signal);
+  }
+
+  async *translateStream(
+    text: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<string> {
+    let received = false;
+
+    for await (const chunk of this.chatStream(
+      this.getSystemPrompt(glossaryInstructions(text, this.glossary)),
+      this.getUserPrompt(text),
+      signal,
+    )) {
+      received = received || !!chunk.trim();
+      yield chunk;
+    }
+
+    if (!received) {
+      yield text;
+    }
+  }
+
+  /**
+   * Stream numbered segments, yielding each one once the model moves on to
+   * the next marker
+   */
+  async *translateBatchStream(
+    texts: string[],
+    signal?: AbortSignal,
+  ): AsyncGenerator<string[]> {
+    if (texts.length <= 1) {
+      yield await this.translateSegments(texts, '', signal);
+      return;
+    }
+
+    const content = this.getSegmentedContent(texts);
+    const system = this.getSystemPrompt(
+      [BATCH_INSTRUCTIONS, glossaryInstructions(content, this.glossary)]
+        .join(' ')
+        .trim(),
+    );
+    let answer = '';
+    let completed = 0;
+
+    for await (const chunk of this.chatStream(
+      system,
+      this.getUserPrompt(content),
+      signal,
+    )) {
+      answer += chunk;
+      // The last segment found may still be growing
+      const segments = this.readSegments(answer).slice(0, -1);
+      if (segments.length > completed && segments.length < texts.length) {
+        completed = segments.length;
+        yield segments;
+      }
+    }
+
+    const segments = this.parseSegments(answer.trim(), texts.length);
+    yield segments || (await this.translateHalves(texts, '', signal));
+  }
+
+  /**
+   * Translate a whole chapter in large windows, with the rolling summary of
+   * the previous chapters and the end of the previous window as context
+   */
+  async translateChapter(
+    texts: string[],
+    summary: string,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const results: string[] = [];
+    let previousTranslation = '';
+
+    for (const window of packBatches(texts, this.getChapterLimits(texts))) {
+      const translated = await this.translateSegments(
+        window,
+        contextInstructions(summary, previousTranslation),
+        signal,
+        this.getChapterTimeout(),
+      );
+      results.push(...translated);
+      previousTranslation = translated
+        .join('\n')
+        .slice(-CONTINUITY_CHARS)
+        .trim();
+    }
+
+    return results;
+  }
+
+  /**
+   * Fold a chapter into the rolling summary of its novel
+   */
+  async summarize(
+    chapterText: string,
+    previousSummary: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const system = SUMMARY_PROMPT.replace('{target}', this.targetLang);
+    const user = [
+      `Previous summary:\n${previousSummary || '(none)'}`,
+      `New chapter:\n${chapterText.slice(0, SUMMARY_INPUT_CHARS)}`,
+    ].join('\n\n');
+
+    return (
+      (await this.chat(system, user, signal, this.getChapterTimeout())) ||
+      previousSummary
+    );
+  }
+
+  /**
+   * Chapter windows whose translation fits in the output budget, from the
+   * tokens the chapter's translation is expected to take per character
+   */
+  protected getChapterLimits(texts: string[]): BatchLimits {
+    const chars = texts.reduce((sum, text) => sum + text.length, 0);
+    const tokens = texts.reduce(
+      (sum, text) => sum + this.estimateOutputTokens(text),
+      0,
+    );
+    if (tokens === 0) {
+      return CHAPTER_LIMITS;
+    }
+
+    const budget = this.getMaxTokens() * CHAPTER_OUTPUT_SHARE;
+    return {
+      ...CHAPTER_LIMITS,
+      maxChars: Math.max(
+        1,
+        Math.min(
+          CHAPTER_LIMITS.maxChars,
+          Math.floor((budget * chars) / tokens),
+        ),
+      ),
+    };
+  }
+
+  /**
+   * Tokens the translation of a text is expected to take: one per CJK
+   * character, or per character when translating into a CJK language
+   */
+  protected estimateOutputTokens(text: string): number {
+    if (CJK_LANGUAGES.indexOf(normalizeLanguage(this.targetLang)) !== -1) {
+      return text.length;
+    }
+    const cjk = (text.match(CJK_REGEX) || []).length;
+    return cjk + (text.length - cjk) / CHARS_PER_TOKEN;
+  }
+
+  protected getChapterTimeout(): number {
+    return Math.max(CHAPTER_TIMEOUT, this.requestTimeout);
+  }
+
+  /**
+   * Translate texts as numbered segments of a single prompt
+   */
+  protected async translateSegments(
+    texts: string[],
+    instructions: string,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): Promise<string[]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    if (texts.length === 1) {
+      const text = texts[0];
+      return [
+        await this.complete(
+          text,
+          [instructions, glossaryInstructions(text, this.glossary)]
+            .join(' ')
+            .trim(),
+          signal,
+          timeout,
+        ),
+      ];
+    }
+
+    const content = this.getSegmentedContent(texts);
+    const answer = await this.complete(
+      content,
+      [
+        BATCH_INSTRUCTIONS,
+        instructions,
+        glossaryInstructions(content, this.glossary),
+      ]
+        .join(' ')
+        .trim(),
+      signal,
+      timeout,
+    );
+
+    return (
+      this.parseSegments(answer, texts.length) ||
+      (await this.translateHalves(texts, instructions, signal, timeout))
+    );
+  }
+
+  /**
+   * Translate texts in two smaller numbered batches with the same
+   * instructions, when the model merged or dropped markers or its answer
+   * was cut short
+   */
+  private async translateHalves(
+    texts: string[],
+    instructions: string,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): Promise<string[]> {
+    const half = Math.ceil(texts.length / 2);
+    const first = await this.translateSegments(
+      texts.slice(0, half),
+      instructions,
+      signal,
+      timeout,
+    );
+    const second = await this.translateSegments(
+      texts.slice(half),
+      instructions,
+      signal,
+      timeout,
+    );
+    return first.concat(second);
+  }
+
+  /**
+   * Join texts into numbered segments of a single prompt
+   */
+  protected getSegmentedContent(texts: string[]): string {
+    return texts.map((text, i) => `<<<${i + 1}>>>\n${text}`).join('\n');
+  }
+
+  /**
+   * Find the segment marker lines of a model answer
+   */
+  private findMarkers(answer: string): SegmentMarker[] {
+    const markers: SegmentMarker[] = [];
+    let match: RegExpExecArray | null;
+
+    SEGMENT_MARKER_REGEX.lastIndex = 0;
+    while ((match = SEGMENT_MARKER_REGEX.exec(answer))) {
+      markers.push({
+        index: parseInt(match[1], 10),
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+
+    return markers;
+  }
+
+  /**
+   * Segments of a partial answer, up to the first marker out of order
+   */
+  protected readSegments(answer: string): string[] {
+    const markers = this.findMarkers(answer);
+    const inOrder = markers.findIndex((marker, i) => marker.index !== i + 1);
+    return this.cutSegments(
+      answer,
+      inOrder === -1 ? markers : markers.slice(0, inOrder),
+      inOrder === -1 ? answer.length : markers[inOrder].start,
+    );
+  }
+
+  /**
+   * Split a model answer on segment markers
+   * Returns null when markers are missing or out of order
+   */
+  protected parseSegments(answer: string, count: number): string[] | null {
+    const markers = this.findMarkers(answer);
+
+    if (
+      markers.length !== count ||
+      markers.some((marker, i) => marker.index !== i + 1)
+    ) {
+      return null;
+    }
+
+    return this.cutSegments(answer, markers, answer.length);
+  }
+
+  private cutSegments(
+    answer: string,
+    markers: SegmentMarker[],
+    end: number,
+  ): string[] {
+    return markers.map((marker, i) =>
+      answer
+        .substring(
+          marker.end,
+          i + 1 < markers.length ? markers[i + 1].start : end,
+        )
+        .trim(),
+    );
+  }
+}
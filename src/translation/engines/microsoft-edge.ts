@@ -1,6 +1,7 @@
 import { BaseEngine } from './base';
 import { MICROSOFT_LANGUAGES } from './microsoft';
 import { userAgentRotator } from '../utils/user-agents';
+import { EngineError } from '../errors';
 
 /**
  * Microsoft Edge Translator (Free)
@@ -14,6 +15,11 @@ export class MicrosoftEdgeTranslate extends BaseEngine {
   needApiKey = false;
   endpoint = 'https://api-edge.cognitive.microsofttranslator.com/translate';
   supportHtml = true;
+  batchLimits = { maxChars: 10000, maxSegments: 100 };
+  // The free Edge endpoint throttles past roughly 2M characters an hour
+  concurrencyLimit = 3;
+  requestsPerMinute = 60;
+  charsPerMinute = 30000;
 
   langCodes = {
     source: { 'Auto detect': 'auto', ...MICROSOFT_LANGUAGES },
@@ -36,12 +42,20 @@ export class MicrosoftEdgeTranslate extends BaseEngine {
   private parseJwt(token: string): { Token: string; Expire: Date } {
     const parts = token.split('.');
     if (parts.length <= 1) {
-      throw new Error('Failed to get APP key due to an invalid Token.');
+      throw new EngineError(
+        'auth',
+        'Failed to get APP key due to an invalid Token.',
+        this.name,
+      );
     }
 
     const base64Url = parts[1];
     if (!base64Url) {
-      throw new Error('Failed to get APP key due to an invalid Base64 URL.');
+      throw new EngineError(
+        'auth',
+        'Failed to get APP key due to an invalid Base64 URL.',
+        this.name,
+      );
     }
 
     const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
@@ -77,22 +91,31 @@ export class MicrosoftEdgeTranslate extends BaseEngine {
     }));
   }
 
-  protected getBody(text: string): string {
-    return JSON.stringify([{ text }]);
+  protected getBatchBody(texts: string[]): string {
+    return JSON.stringify(texts.map(text => ({ text })));
   }
 
-  async translate(text: string): Promise<string> {
+  async translate(text: string, signal?: AbortSignal): Promise<string> {
+    const [result] = await this.translateBatch([text], signal);
+    return result;
+  }
+
+  async translateBatch(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<string[]> {
     const endpoint = this.getEndpoint();
     const headers = await this.getHeaders();
-    const body = this.getBody(text);
+    const body = this.getBatchBody(texts);
 
     const response = await this.request(endpoint, {
       method: 'POST',
+      signal,
       headers,
       body,
     });
 
     const data = await response.json();
-    return data[0]?.translations?.[0]?.text || text;
+    return texts.map((text, i) => data[i]?.translations?.[0]?.text || text);
   }
 }
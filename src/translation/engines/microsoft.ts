@@ -1,4 +1,5 @@
 import { BaseEngine } from './base';
+import { EngineError } from '../errors';
 
 /**
  * Microsoft Translator Engine
@@ -89,6 +90,7 @@ export class MicrosoftTranslate extends BaseEngine {
   needApiKey = true;
   apiKeyErrors = ['401', '403', '400'];
   endpoint = 'https://api.cognitive.microsofttranslator.com/translate';
+  batchLimits = { maxChars: 50000, maxSegments: 1000 };
 
   langCodes = {
     source: { 'Auto detect': 'auto', ...MICROSOFT_LANGUAGES },
@@ -103,17 +105,25 @@ export class MicrosoftTranslate extends BaseEngine {
     };
   }
 
-  protected getBody(text: string): any[] {
-    return [
-      {
-        text: text,
-      },
-    ];
+  protected getBatchBody(texts: string[]): { text: string }[] {
+    return texts.map(text => ({ text }));
   }
 
-  async translate(text: string): Promise<string> {
+  async translate(text: string, signal?: AbortSignal): Promise<string> {
+    const [result] = await this.translateBatch([text], signal);
+    return result;
+  }
+
+  async translateBatch(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<string[]> {
     if (!this.currentApiKey) {
-      throw new Error('Microsoft Translator requires an API key');
+      throw new EngineError(
+        'auth',
+        'Microsoft Translator requires an API key',
+        this.name,
+      );
     }
 
     const sourceLang =
@@ -128,15 +138,16 @@ export class MicrosoftTranslate extends BaseEngine {
 
     const endpoint = `${this.getEndpoint()}?${params.toString()}`;
     const headers = this.getHeaders();
-    const body = JSON.stringify(this.getBody(text));
+    const body = JSON.stringify(this.getBatchBody(texts));
 
     const response = await this.request(endpoint, {
       method: 'POST',
+      signal,
       headers,
       body,
     });
 
     const data = await response.json();
-    return data[0]?.translations?.[0]?.text || text;
+    return texts.map((text, i) => data[i]?.translations?.[0]?.text || text);
   }
 }
@@ -0,0 +1,86 @@
+import { LlmEngine } from './llm';
+import { OPENAI_LANGUAGES } from './openai';
+
+type OllamaChatBody = {
+  model: string;
+  messages: { role: 'system' | 'user'; content: string }[];
+  stream: boolean;
+  options: { temperature: number; num_predict: number };
+};
+
+/**
+ * Ollama Translation Engine
+ * Uses a model served by Ollama through its /api/chat endpoint
+ * No API key required, set the server with the baseUrl option
+ */
+
+export class OllamaTranslate extends LlmEngine {
+  name = 'Ollama';
+  alias = 'Ollama (Local)';
+  free = true;
+  selfHosted = true;
+  needApiKey = false;
+  baseUrl = 'http://localhost:11434';
+  model = 'llama3.1';
+  temperature = 0.3;
+  // Local models can be slow, especially on CPU
+  requestTimeout = 120.0;
+
+  langCodes = {
+    source: OPENAI_LANGUAGES,
+    target: OPENAI_LANGUAGES,
+  };
+
+  protected getEndpoint(): string {
+    return `${this.getBaseUrl()}/api/chat`;
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+    };
+  }
+
+  protected getChatBody(system: string, user: string): OllamaChatBody {
+    return {
+      model: this.getModel(),
+      messages: [
+        {
+          role: 'system',
+          content: system,
+        },
+        {
+          role: 'user',
+          content: user,
+        },
+      ],
+      stream: false,
+      options: {
+        temperature: this.getTemperature(),
+        num_predict: this.getMaxTokens(),
+      },
+    };
+  }
+
+  protected async chat(
+    system: string,
+    user: string,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): Promise<string> {
+    const endpoint = this.getEndpoint();
+    const headers = this.getHeaders();
+    const body = JSON.stringify(this.getChatBody(system, user));
+
+    const response = await this.request(endpoint, {
+      method: 'POST',
+      signal,
+      timeout,
+      headers,
+      body,
+    });
+
+    const data = await response.json();
+    return data.message?.content?.trim() || '';
+  }
+}
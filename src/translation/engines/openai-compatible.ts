@@ -0,0 +1,20 @@
+import { ChatGPTranslate } from './openai';
+
+/**
+ * OpenAI-compatible Translation Engine
+ * Any server exposing /v1/chat/completions (llama.cpp, vLLM, LM Studio...)
+ * Set the server with the baseUrl option, API key is optional
+ */
+
+export class OpenAICompatibleTranslate extends ChatGPTranslate {
+  name = 'OpenAICompatible';
+  alias = 'OpenAI-compatible (Local)';
+  free = true;
+  selfHosted = true;
+  needApiKey = false;
+  baseUrl = 'http://localhost:8080/v1';
+  model = 'local-model';
+  // Local models can be slow, especially on CPU
+  requestTimeout = 120.0;
+  requestInterval = 0.0;
+}
@@ -1,11 +1,13 @@
-import { BaseEngine } from './base';
+import { LlmEngine } from './llm';
+import { readSseJson } from '../utils/sse';
+import { EngineError } from '../errors';
 
 /**
  * OpenAI ChatGPT Translation Engine
  * Requires API key
  */
 
-const OPENAI_LANGUAGES: Record<string, string> = {
+export const OPENAI_LANGUAGES: Record<string, string> = {
   'Auto detect': 'auto',
   'Afrikaans': 'af',
   'Albanian': 'sq',
@@ -71,13 +73,23 @@ const OPENAI_LANGUAGES: Record<string, string> = {
   'Welsh': 'cy',
 };
 
-export class ChatGPTranslate extends BaseEngine {
+// Streamed chat completion chunk
+type ChatCompletionChunk = {
+  choices?: { delta?: { content?: string } }[];
+};
+
+export class ChatGPTranslate extends LlmEngine {
   name = 'ChatGPT';
   alias = 'ChatGPT (OpenAI)';
   free = false;
   needApiKey = true;
   apiKeyErrors = ['401', '429', 'insufficient_quota'];
-  endpoint = 'https://api.openai.com/v1/chat/completions';
+  baseUrl = 'https://api.openai.com/v1';
+  model = 'gpt-3.5-turbo';
+  temperature = 0.3;
+  maxTokens = 4000;
+  systemPrompt =
+    'You are a professional translator. Translate the following text from {source} to {target}. Only provide the translation, without any explanations or additional text. Preserve HTML tags and formatting if present.';
   requestTimeout = 30.0;
   concurrencyLimit = 1;
   requestInterval = 1.0;
@@ -87,53 +99,90 @@ export class ChatGPTranslate extends BaseEngine {
     target: OPENAI_LANGUAGES,
   };
 
+  protected getEndpoint(): string {
+    return `${this.getBaseUrl()}/chat/completions`;
+  }
+
   protected getHeaders(): Record<string, string> {
-    return {
+    const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      Authorization: `Bearer ${this.currentApiKey || ''}`,
     };
+    // Local OpenAI-compatible servers usually run without a key
+    if (this.currentApiKey) {
+      headers.Authorization = `Bearer ${this.currentApiKey}`;
+    }
+    return headers;
   }
 
-  protected getBody(text: string): Record<string, any> {
-    const sourceLang =
-      this.getSourceCode() === 'auto'
-        ? 'the detected language'
-        : this.sourceLang;
-    const targetLang = this.targetLang;
-
+  protected getChatBody(system: string, user: string): Record<string, any> {
     return {
-      model: 'gpt-3.5-turbo',
+      model: this.getModel(),
       messages: [
         {
           role: 'system',
-          content: `You are a professional translator. Translate the following text from ${sourceLang} to ${targetLang}. Only provide the translation, without any explanations or additional text. Preserve HTML tags and formatting if present.`,
+          content: system,
         },
         {
           role: 'user',
-          content: text,
+          content: user,
         },
       ],
-      temperature: 0.3,
-      max_tokens: 4000,
+      temperature: this.getTemperature(),
+      max_tokens: this.getMaxTokens(),
     };
   }
 
-  async translate(text: string): Promise<string> {
-    if (!this.currentApiKey) {
-      throw new Error('ChatGPT requires an API key');
+  protected checkApiKey(): void {
+    if (this.needApiKey && !this.currentApiKey && !this.config.baseUrl) {
+      throw new EngineError('auth', 'ChatGPT requires an API key', this.name);
     }
+  }
+
+  protected async chat(
+    system: string,
+    user: string,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): Promise<string> {
+    this.checkApiKey();
 
     const endpoint = this.getEndpoint();
     const headers = this.getHeaders();
-    const body = JSON.stringify(this.getBody(text));
+    const body = JSON.stringify(this.getChatBody(system, user));
 
     const response = await this.request(endpoint, {
       method: 'POST',
+      signal,
+      timeout,
       headers,
       body,
     });
 
     const data = await response.json();
-    return data.choices?.[0]?.message?.content?.trim() || text;
+    return data.choices?.[0]?.message?.content?.trim() || '';
+  }
+
+  protected async *chatStream(
+    system: string,
+    user: string,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): AsyncGenerator<string> {
+    this.checkApiKey();
+
+    const response = await this.request(this.getEndpoint(), {
+      method: 'POST',
+      signal,
+      timeout,
+      headers: this.getHeaders(),
+      body: JSON.stringify({ ...this.getChatBody(system, user), stream: true }),
+    });
+
+    for await (const data of readSseJson<ChatCompletionChunk>(response)) {
+      const content = data.choices?.[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+    }
   }
 }
@@ -1,4 +1,5 @@
 import { BaseEngine } from './base';
+import { EngineError } from '../errors';
 
 /**
  * Youdao Translate Engine
@@ -95,7 +96,11 @@ export class YoudaoTranslate extends BaseEngine {
 
   protected async getBody(text: string): Promise<string> {
     if (!this.currentApiKey || !this.apiKeyPattern.test(this.currentApiKey)) {
-      throw new Error('Youdao requires API key in format: appid|appsecret');
+      throw new EngineError(
+        'auth',
+        'Youdao requires API key in format: appid|appsecret',
+        this.name,
+      );
     }
 
     const [appKey, appSecret] = this.currentApiKey.split(/[:\|]/);
@@ -118,9 +123,9 @@ export class YoudaoTranslate extends BaseEngine {
     return params.toString();
   }
 
-  async translate(text: string): Promise<string> {
+  async translate(text: string, signal?: AbortSignal): Promise<string> {
     if (!this.currentApiKey) {
-      throw new Error('Youdao requires an API key');
+      throw new EngineError('auth', 'Youdao requires an API key', this.name);
     }
 
     const endpoint = this.getEndpoint();
@@ -129,6 +134,7 @@ export class YoudaoTranslate extends BaseEngine {
 
     const response = await this.request(endpoint, {
       method: 'POST',
+      signal,
       headers,
       body,
     });
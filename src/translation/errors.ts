@@ -0,0 +1,138 @@
+/**
+ * Engine error taxonomy
+ * Every engine failure is turned into an EngineError with a type, so the
+ * translator can tell expected failures (missing key, quota, offline...)
+ * from real bugs and decide whether a request is worth retrying
+ */
+
+import { isAbortError } from './utils/abort';
+
+export type EngineErrorType =
+  // Missing, invalid or revoked API key
+  | 'auth'
+  // Account out of credits or over its plan
+  | 'quota'
+  // Too many requests, retrying later works
+  | 'rate-limit'
+  // Offline, timeout or server unavailable
+  | 'network'
+  // The engine answered something that could not be read
+  | 'bad-response'
+  // The engine does not translate between these languages
+  | 'unsupported-language'
+  | 'unknown';
+
+const QUOTA_REGEX =
+  /quota|insufficient|billing|credit|exhausted|limit exceeded/i;
+// Messages of fetch failures in browsers and Node, and of timeouts
+const NETWORK_REGEX =
+  /network|failed to fetch|fetch failed|load failed|timed? ?out|ERR_/i;
+const LANGUAGE_REGEX =
+  /(unsupported|not supported|invalid|unknown).{0,40}lang|lang.{0,40}(unsupported|not supported|invalid)/i;
+
+export class EngineError extends Error {
+  readonly type: EngineErrorType;
+  readonly engine: string;
+  readonly status?: number;
+  // Seconds to wait before the next request, from the Retry-After header
+  readonly retryAfter?: number;
+
+  constructor(
+    type: EngineErrorType,
+    message: string,
+    engine: string,
+    options: { status?: number; retryAfter?: number } = {},
+  ) {
+    super(message);
+    this.name = 'EngineError';
+    this.type = type;
+    this.engine = engine;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, EngineError.prototype);
+  }
+
+  /**
+   * Whether sending the same request again may succeed
+   */
+  isRetryable(): boolean {
+    return this.type === 'network' || this.type === 'rate-limit';
+  }
+
+  /**
+   * Whether the failure is a known condition rather than a bug
+   */
+  isExpected(): boolean {
+    return this.type !== 'bad-response' && this.type !== 'unknown';
+  }
+}
+
+/**
+ * Seconds to wait from a Retry-After header (delay or HTTP date)
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+/**
+ * Error for a response with an HTTP error status
+ */
+export function httpError(
+  engine: string,
+  status: number,
+  body: string,
+  retryAfter?: number,
+): EngineError {
+  const message = `HTTP ${status}: ${body}`;
+  let type: EngineErrorType;
+
+  if (status === 401 || status === 403) {
+    type = QUOTA_REGEX.test(body) ? 'quota' : 'auth';
+  } else if (status === 402) {
+    type = 'quota';
+  } else if (status === 429) {
+    // Some APIs answer 429 both for bursts and for an exhausted plan
+    type = QUOTA_REGEX.test(body) && !retryAfter ? 'quota' : 'rate-limit';
+  } else if (status === 408 || status >= 500) {
+    type = 'network';
+  } else if (LANGUAGE_REGEX.test(body)) {
+    type = 'unsupported-language';
+  } else {
+    type = 'bad-response';
+  }
+
+  return new EngineError(type, message, engine, { status, retryAfter });
+}
+
+/**
+ * Turn any error thrown while translating into an EngineError
+ * Cancellations are returned unchanged
+ */
+export function toEngineError(error: unknown, engine: string): Error {
+  if (error instanceof EngineError || isAbortError(error)) {
+    return error as Error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = (error as Error | null)?.name;
+  let type: EngineErrorType = 'unknown';
+
+  if (name === 'TimeoutError' || NETWORK_REGEX.test(message)) {
+    type = 'network';
+  } else if (name === 'SyntaxError') {
+    type = 'bad-response';
+  } else if (/API key/i.test(message)) {
+    type = 'auth';
+  }
+
+  return new EngineError(type, message, engine);
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { GlossaryStore } from './glossary';
+
+describe('GlossaryStore CSV', () => {
+  it('imports its own export unchanged', () => {
+    const store = new GlossaryStore();
+    const terms = [
+      { source: 'Sect Master', target: 'Maestro de la secta' },
+      { source: 'Qi; energy', target: 'Qi; energía' },
+      { source: 'Li, the elder', target: 'Li, el anciano' },
+      { source: 'The "Sword"', target: 'La "Espada"' },
+      { source: 'Two\nlines', target: 'Dos\nlíneas' },
+    ];
+    store.setList('plugin:/novel', terms);
+
+    const copy = new GlossaryStore();
+    expect(copy.importCsv('', store.exportCsv('plugin:/novel'))).toBe(5);
+    expect(copy.getList('')).toEqual(terms);
+  });
+
+  it('reads semicolon separated files with a byte order mark', () => {
+    const store = new GlossaryStore();
+    const csv = '\uFEFFsource;target\r\nDaozu;Patriarca del Dao\r\n';
+
+    expect(store.importCsv('', csv)).toBe(1);
+    expect(store.getList('')).toEqual([
+      { source: 'Daozu', target: 'Patriarca del Dao' },
+    ]);
+  });
+
+  it('skips rows without a source or a target', () => {
+    const store = new GlossaryStore();
+
+    expect(store.importCsv('', 'a,b\n,c\nd,\n\ne,f')).toBe(2);
+    expect(store.getList('').map(term => term.source)).toEqual(['a', 'e']);
+  });
+});
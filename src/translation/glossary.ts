@@ -0,0 +1,294 @@
+/**
+ * Glossary / term base
+ * Keeps character names, ranks and places consistent across chapters
+ *
+ * Engines without a prompt get the terms masked with placeholder tokens
+ * that are replaced by the target term afterwards:
+ *   "Lin Feng reached Qi Condensation" -> "{{1}} reached {{2}}"
+ * LLM engines receive the relevant terms as prompt instructions instead
+ */
+
+import type { CacheScope } from './cache';
+
+export type GlossaryTerm = {
+  source: string;
+  target: string;
+};
+
+export type MaskedText = {
+  text: string;
+  // Target term for each placeholder, by placeholder number - 1
+  targets: string[];
+};
+
+const STORAGE_KEY = 'lnreader_glossaries';
+// Key of the glossary shared by every novel
+export const GLOBAL_GLOSSARY = '';
+
+const PLACEHOLDER_REGEX = /\{\{\s*(\d+)\s*\}\}/g;
+const WORD_CHAR_REGEX = /[A-Za-z0-9\u00C0-\u024F]/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regex matching a term, on word boundaries for alphabetic scripts
+ * Group 1 holds the character before the term, if any
+ */
+function termRegex(term: string): RegExp {
+  const before = WORD_CHAR_REGEX.test(term.charAt(0))
+    ? '(^|[^A-Za-z0-9\\u00C0-\\u024F])'
+    : '()';
+  const after = WORD_CHAR_REGEX.test(term.charAt(term.length - 1))
+    ? '(?![A-Za-z0-9\\u00C0-\\u024F])'
+    : '';
+  return new RegExp(`${before}${escapeRegExp(term)}${after}`, 'g');
+}
+
+/**
+ * Terms that occur in a text, longest first so "Lin Feng" wins over "Lin"
+ */
+export function findTerms(text: string, terms: GlossaryTerm[]): GlossaryTerm[] {
+  return terms
+    .filter(term => term.source && termRegex(term.source).test(text))
+    .sort((a, b) => b.source.length - a.source.length);
+}
+
+/**
+ * Replace glossary terms with placeholder tokens
+ */
+export function maskTerms(text: string, terms: GlossaryTerm[]): MaskedText {
+  const targets: string[] = [];
+  let masked = text;
+
+  findTerms(text, terms).forEach(term => {
+    masked = masked.replace(termRegex(term.source), (_match, before) => {
+      targets.push(term.target);
+      return `${before}{{${targets.length}}}`;
+    });
+  });
+
+  return { text: masked, targets };
+}
+
+/**
+ * Put target terms back in place of placeholder tokens
+ */
+export function unmaskTerms(translated: string, masked: MaskedText): string {
+  if (masked.targets.length === 0) {
+    return translated;
+  }
+  return translated.replace(PLACEHOLDER_REGEX, (match, index) => {
+    const target = masked.targets[parseInt(index, 10) - 1];
+    return target !== undefined ? target : match;
+  });
+}
+
+/**
+ * Prompt instructions listing the terms that occur in a text
+ */
+export function glossaryInstructions(
+  text: string,
+  terms: GlossaryTerm[],
+): string {
+  const found = findTerms(text, terms);
+  if (found.length === 0) {
+    return '';
+  }
+  const list = found.map(term => `"${term.source}" -> "${term.target}"`);
+  return `Always translate these terms exactly as given: ${list.join('; ')}.`;
+}
+
+/**
+ * Whether a translation uses the target term of every term in its source
+ */
+export function followsGlossary(
+  source: string,
+  translation: string,
+  terms: GlossaryTerm[],
+): boolean {
+  return findTerms(source, terms).every(term =>
+    translation.includes(term.target),
+  );
+}
+
+/**
+ * Quote a CSV field holding a separator (comma or semicolon), a quote or a
+ * line break
+ */
+function escapeCsvField(field: string): string {
+  return /[",;\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Parse CSV rows, supporting quoted fields with commas and line breaks
+ * Fields are separated by commas or semicolons (spreadsheet exports)
+ */
+function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv.charAt(i);
+
+    if (quoted) {
+      if (char === '"' && csv.charAt(i + 1) === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv.charAt(i + 1) === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Glossaries stored in localStorage, one list per novel plus a global one
+ */
+export class GlossaryStore {
+  private glossaries: Record<string, GlossaryTerm[]> = {};
+  private listeners = new Set<() => void>();
+  private loaded = false;
+
+  /**
+   * Storage key of a novel glossary, or null when the novel is unknown
+   */
+  getNovelKey(scope?: CacheScope): string | null {
+    if (!scope?.pluginId || !scope.novelPath) {
+      return null;
+    }
+    return `${scope.pluginId}:${scope.novelPath}`;
+  }
+
+  /**
+   * Terms of a single list (novel key or '' for the global list)
+   */
+  getList(key: string | null): GlossaryTerm[] {
+    this.load();
+    return key === null ? [] : this.glossaries[key] || [];
+  }
+
+  /**
+   * Terms that apply to a novel: its own list on top of the global one
+   */
+  getTerms(scope?: CacheScope): GlossaryTerm[] {
+    const novelTerms = this.getList(this.getNovelKey(scope));
+    const overridden = new Set(novelTerms.map(term => term.source));
+
+    return novelTerms.concat(
+      this.getList(GLOBAL_GLOSSARY).filter(
+        term => !overridden.has(term.source),
+      ),
+    );
+  }
+
+  setList(key: string, terms: GlossaryTerm[]): void {
+    this.load();
+
+    const unique: Record<string, GlossaryTerm> = {};
+    terms.forEach(term => {
+      const source = term.source.trim();
+      const target = term.target.trim();
+      if (source && target) {
+        unique[source] = { source, target };
+      }
+    });
+
+    const list = Object.keys(unique).map(source => unique[source]);
+    if (list.length > 0) {
+      this.glossaries[key] = list;
+    } else {
+      delete this.glossaries[key];
+    }
+
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  exportCsv(key: string): string {
+    const rows = [['source', 'target']].concat(
+      this.getList(key).map(term => [term.source, term.target]),
+    );
+    return rows.map(row => row.map(escapeCsvField).join(',')).join('\n');
+  }
+
+  /**
+   * Merge terms from a CSV file (source,target per row) into a list
+   * Returns the number of terms read
+   */
+  importCsv(key: string, csv: string): number {
+    const rows = parseCsv(csv.replace(/^\uFEFF/, '')).filter(
+      row => row.length >= 2 && row[0].trim() && row[1].trim(),
+    );
+    if (rows.length > 0 && rows[0][0].trim().toLowerCase() === 'source') {
+      rows.shift();
+    }
+
+    const terms = rows.map(row => ({ source: row[0], target: row[1] }));
+    this.setList(key, this.getList(key).concat(terms));
+    return terms.length;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load(): void {
+    if (this.loaded || typeof localStorage === 'undefined') {
+      return;
+    }
+    this.loaded = true;
+
+    try {
+      const data = localStorage.getItem(STORAGE_KEY);
+      if (data) {
+        this.glossaries = JSON.parse(data);
+      }
+    } catch (error) {
+      console.warn('Failed to load glossaries:', error);
+    }
+  }
+
+  private save(): void {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.glossaries));
+    } catch (error) {
+      console.warn('Failed to save glossaries:', error);
+    }
+  }
+}
+
+// Singleton instance
+export const glossaryStore = new GlossaryStore();
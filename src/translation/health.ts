@@ -0,0 +1,195 @@
+/**
+ * Engine health tracking
+ * Records how each engine performs and takes failing engines out of
+ * rotation for a cooldown (circuit breaker), so fallbacks try the engines
+ * that currently work first
+ */
+
+import type { BaseEngine } from './engines';
+import { EngineError, EngineErrorType } from './errors';
+
+export type EngineHealth = {
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  // Moving average of the call latency, in milliseconds
+  latency: number;
+  lastError?: EngineErrorType;
+  lastErrorAt?: number;
+  // The engine is skipped until this time (circuit open)
+  openUntil: number;
+  // Cooldown of the last time the circuit opened, doubled on each reopen
+  cooldown: number;
+};
+
+const STORAGE_KEY = 'lnreader_engine_health';
+
+const BASE_COOLDOWN = 30 * 1000;
+const MAX_COOLDOWN = 10 * 60 * 1000;
+
+// Failures that don't go away by retrying open the circuit at once
+const FATAL_ERRORS: EngineErrorType[] = ['auth', 'quota'];
+
+// Weight of the latest call in the latency average
+const LATENCY_WEIGHT = 0.2;
+
+function emptyHealth(): EngineHealth {
+  return {
+    successes: 0,
+    failures: 0,
+    consecutiveFailures: 0,
+    latency: 0,
+    openUntil: 0,
+    cooldown: 0,
+  };
+}
+
+/**
+ * Health records stored in localStorage, one per engine name
+ */
+export class EngineHealthTracker {
+  private records: Record<string, EngineHealth> = {};
+  private loaded = false;
+
+  get(engineName: string): EngineHealth {
+    this.load();
+    return this.records[engineName] || emptyHealth();
+  }
+
+  getAll(): Record<string, EngineHealth> {
+    this.load();
+    return { ...this.records };
+  }
+
+  recordSuccess(engine: BaseEngine, latency: number): void {
+    const health = this.get(engine.name);
+
+    health.successes++;
+    health.consecutiveFailures = 0;
+    health.latency = health.latency
+      ? health.latency * (1 - LATENCY_WEIGHT) + latency * LATENCY_WEIGHT
+      : latency;
+    // A successful trial after the cooldown closes the circuit
+    health.openUntil = 0;
+    health.cooldown = 0;
+
+    this.records[engine.name] = health;
+    this.save();
+  }
+
+  recordFailure(engine: BaseEngine, error: EngineError): void {
+    // Language pairs are not a health problem of the engine
+    if (error.type === 'unsupported-language') {
+      return;
+    }
+
+    const health = this.get(engine.name);
+    const now = Date.now();
+
+    health.failures++;
+    health.consecutiveFailures++;
+    health.lastError = error.type;
+    health.lastErrorAt = now;
+
+    if (error.type === 'rate-limit' && error.retryAfter) {
+      health.openUntil = Math.max(
+        health.openUntil,
+        now + error.retryAfter * 1000,
+      );
+    }
+
+    if (
+      FATAL_ERRORS.includes(error.type) ||
+      health.consecutiveFailures >= engine.getMaxErrorCount()
+    ) {
+      health.cooldown = FATAL_ERRORS.includes(error.type)
+        ? MAX_COOLDOWN
+        : Math.min(Math.max(health.cooldown * 2, BASE_COOLDOWN), MAX_COOLDOWN);
+      health.openUntil = Math.max(health.openUntil, now + health.cooldown);
+    }
+
+    this.records[engine.name] = health;
+    this.save();
+  }
+
+  /**
+   * Whether an engine can be used (circuit closed, or cooldown over)
+   */
+  isAvailable(engineName: string): boolean {
+    return this.get(engineName).openUntil <= Date.now();
+  }
+
+  /**
+   * Score from 0 to 1 combining success rate and latency
+   */
+  getScore(engineName: string): number {
+    const health = this.get(engineName);
+    // Engines without calls start at 0.5
+    const successRate =
+      (health.successes + 1) / (health.successes + health.failures + 2);
+    return successRate / (1 + health.latency / 10000);
+  }
+
+  /**
+   * Available engines, healthiest first; engines with the same score keep
+   * their order. When every circuit is open all engines are returned, so a
+   * translation is still attempted after going back online.
+   */
+  order<T extends BaseEngine>(engines: T[]): T[] {
+    const available = engines.filter(engine => this.isAvailable(engine.name));
+    const candidates = available.length > 0 ? available : engines;
+
+    return candidates
+      .map((engine, index) => ({
+        engine,
+        index,
+        score: this.getScore(engine.name),
+      }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ engine }) => engine);
+  }
+
+  /**
+   * Forget the records of one engine, or of every engine
+   */
+  reset(engineName?: string): void {
+    this.load();
+    if (engineName) {
+      delete this.records[engineName];
+    } else {
+      this.records = {};
+    }
+    this.save();
+  }
+
+  private load(): void {
+    if (this.loaded || typeof localStorage === 'undefined') {
+      return;
+    }
+    this.loaded = true;
+
+    try {
+      const data = localStorage.getItem(STORAGE_KEY);
+      if (data) {
+        this.records = JSON.parse(data);
+      }
+    } catch (error) {
+      console.warn('Failed to load engine health:', error);
+    }
+  }
+
+  private save(): void {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.records));
+    } catch (error) {
+      console.warn('Failed to save engine health:', error);
+    }
+  }
+}
+
+// Singleton instance
+export const engineHealth = new EngineHealthTracker();
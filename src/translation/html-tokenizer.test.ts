@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { TokenizedHtml } from './html-tokenizer';
+
+const CHAPTER =
+  '<p>Hello <b>world</b> &amp; more</p>' +
+  '<script>var a = "<p>x</p>";</script>' +
+  '<p>Second <a href="/x">link <i>it</i></a> end<br>next</p>';
+
+describe('TokenizedHtml', () => {
+  it('splits text runs into segments with inline placeholders', () => {
+    const html = new TokenizedHtml(CHAPTER);
+
+    expect(html.segments).toEqual([
+      { id: 's0', source: 'Hello [[1]]world[[/1]] & more' },
+      {
+        id: 's1',
+        source: 'Second [[1]]link [[2]]it[[/2]][[/1]] end[[3/]]next',
+      },
+    ]);
+  });
+
+  it('gives the source back byte for byte without translations', () => {
+    const html = new TokenizedHtml(CHAPTER);
+
+    expect(html.apply({})).toBe(CHAPTER);
+  });
+
+  it('writes translations back into the original markup', () => {
+    const html = new TokenizedHtml(CHAPTER);
+
+    expect(
+      html.apply({
+        s0: 'Hola [[1]]mundo[[/1]] y <más>',
+        s1: 'Segundo [[1]]enlace [[2]]este[[/2]][[/1]] fin[[3/]]siguiente',
+      }),
+    ).toBe(
+      '<p>Hola <b>mundo</b> y &lt;más&gt;</p>' +
+        '<script>var a = "<p>x</p>";</script>' +
+        '<p>Segundo <a href="/x">enlace <i>este</i></a> fin<br>siguiente</p>',
+    );
+  });
+
+  it('keeps the translations of earlier calls', () => {
+    const html = new TokenizedHtml(CHAPTER);
+
+    html.apply({ s0: 'Hola [[1]]mundo[[/1]]' });
+    const result = html.apply({ s1: 'Segundo' });
+
+    expect(result).toContain('<p>Hola <b>mundo</b></p>');
+    expect(result).toContain('<p>Segundo</p>');
+  });
+
+  it('falls back to plain text when the engine breaks the placeholders', () => {
+    const html = new TokenizedHtml('<p>Hello <b>world</b> again</p>');
+
+    expect(html.apply({ s0: 'Hola [[/1]]mundo[[1]] otra vez' })).toBe(
+      '<p>Hola mundo otra vez</p>',
+    );
+    expect(html.apply({ s0: 'Hola [[1]]mundo otra vez' })).toBe(
+      '<p>Hola mundo otra vez</p>',
+    );
+    expect(html.apply({ s0: 'Hola [[7]]mundo[[/7]]' })).toBe(
+      '<p>Hola mundo</p>',
+    );
+  });
+
+  it('keeps inline tags wrapping blocks as markup between segments', () => {
+    const source = '<div><a href="/">Text<p>inner</p></a></div>';
+    const html = new TokenizedHtml(source);
+
+    expect(html.segments.map(segment => segment.source)).toEqual([
+      'Text',
+      'inner',
+    ]);
+    expect(html.apply({ s0: 'Texto', s1: 'dentro' })).toBe(
+      '<div><a href="/">Texto<p>dentro</p></a></div>',
+    );
+  });
+
+  it('leaves runs without letters out of the segments', () => {
+    const source = '<p> <img src="a.png"> </p><p>123 — 456</p>';
+    const html = new TokenizedHtml(source);
+
+    expect(html.segments).toEqual([]);
+    expect(html.apply({})).toBe(source);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * DOM-free HTML segmenter
+ * Splits HTML into the same segments as SegmentedHtml with a streaming
+ * tokenizer, for runtimes without DOMParser (the Android plugin runtime)
+ *
+ * Markup is never sent to the engines: every tag is kept as written and only
+ * text is replaced, so the rest of the HTML comes back byte for byte
+ */
+
+import { Parser } from 'htmlparser2';
+import {
+  INLINE_TAGS,
+  canSegmentHtml,
+  LETTER_REGEX,
+  Segment,
+  SegmentedHtml,
+  SKIPPED_TAGS,
+  TOKEN_REGEX,
+  VOID_TAGS,
+} from './segmenter';
+
+type RunPart =
+  | { kind: 'text'; text: string; raw: string }
+  | { kind: 'open' | 'close' | 'void'; tag: string; raw: string };
+
+type Placeholder = { open: string; close: string; empty: boolean };
+
+type TokenizedRun = {
+  // Position of the run in the output
+  index: number;
+  leading: string;
+  trailing: string;
+  placeholders: Record<number, Placeholder>;
+};
+
+function escapeText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * HTML split into translatable segments without building a DOM tree
+ */
+export class TokenizedHtml {
+  readonly segments: Segment[] = [];
+
+  // Markup and text, runs are replaced at their index once translated
+  private output: string[] = [];
+  private runs: Record<string, TokenizedRun> = {};
+
+  private run: RunPart[] = [];
+  // Nesting of the skipped element being passed through, if any
+  private skipped: { tag: string; depth: number } | null = null;
+
+  constructor(html: string) {
+    let cursor = 0;
+
+    // Source of the current token. Implied tags have no source of their own,
+    // text the tokenizer dropped (stray closing tags) is kept as markup
+    const take = (parser: Parser, implied = false): string => {
+      if (implied || parser.endIndex < cursor) {
+        return '';
+      }
+      if (parser.startIndex > cursor) {
+        this.passThrough(html.substring(cursor, parser.startIndex));
+      }
+      const raw = html.substring(parser.startIndex, parser.endIndex + 1);
+      cursor = parser.endIndex + 1;
+      return raw;
+    };
+
+    const parser: Parser = new Parser(
+      {
+        onopentag: (name, _attributes, implied) =>
+          this.openTag(name, take(parser, implied)),
+        onclosetag: (name, implied) =>
+          this.closeTag(name, take(parser, implied)),
+        ontext: text => this.text(text, take(parser)),
+        oncomment: () => this.passThrough(take(parser)),
+        onprocessinginstruction: () => this.passThrough(take(parser)),
+      },
+      { decodeEntities: true },
+    );
+    parser.end(html);
+
+    this.passThrough(html.substring(cursor));
+    this.flush();
+  }
+
+  /**
+   * Always true, the tokenizer accepts any markup
+   */
+  isValid(): boolean {
+    return true;
+  }
+
+  /**
+   * Replace the runs with their translations (segment ID -> translated text)
+   * and return the resulting HTML. Segments without a translation keep
+   * their current content.
+   */
+  apply(translations: Record<string, string>): string {
+    Object.keys(translations).forEach(id => {
+      const run = this.runs[id];
+      const translated = translations[id];
+      if (run && translated !== undefined) {
+        this.output[run.index] =
+          run.leading + this.restore(translated.trim(), run) + run.trailing;
+      }
+    });
+    return this.output.join('');
+  }
+
+  private openTag(tag: string, raw: string): void {
+    if (this.skipped) {
+      if (tag === this.skipped.tag) {
+        this.skipped.depth++;
+      }
+      this.output.push(raw);
+    } else if (SKIPPED_TAGS.has(tag)) {
+      this.flush();
+      this.skipped = { tag, depth: 1 };
+      this.output.push(raw);
+    } else if (INLINE_TAGS.has(tag)) {
+      this.run.push({ kind: VOID_TAGS.has(tag) ? 'void' : 'open', tag, raw });
+    } else {
+      this.passThrough(raw);
+    }
+  }
+
+  private closeTag(tag: string, raw: string): void {
+    if (this.skipped) {
+      if (tag === this.skipped.tag && --this.skipped.depth === 0) {
+        this.skipped = null;
+      }
+      this.output.push(raw);
+    } else if (VOID_TAGS.has(tag)) {
+      // A void element's only token is the opening one, "</br>" included
+      const last = this.run[this.run.length - 1];
+      if (last && last.kind === 'void') {
+        last.raw += raw;
+      } else {
+        this.passThrough(raw);
+      }
+    } else if (INLINE_TAGS.has(tag)) {
+      this.run.push({ kind: 'close', tag, raw });
+    } else {
+      this.passThrough(raw);
+    }
+  }
+
+  private text(text: string, raw: string): void {
+    if (this.skipped) {
+      this.output.push(raw);
+    } else {
+      this.run.push({ kind: 'text', text, raw });
+    }
+  }
+
+  /**
+   * Markup that ends the current run (block tags, comments...)
+   */
+  private passThrough(raw: string): void {
+    if (raw) {
+      this.flush();
+      this.output.push(raw);
+    }
+  }
+
+  /**
+   * Turn the current run into segments. Inline tags whose pair is outside
+   * the run (e.g. <a> wrapping a block) are kept as markup between segments
+   * so every segment holds balanced tags
+   */
+  private flush(): void {
+    const parts = this.run;
+    this.run = [];
+
+    const paired = new Set<number>();
+    const open: { index: number; tag: string }[] = [];
+    parts.forEach((part, i) => {
+      if (part.kind === 'open') {
+        open.push({ index: i, tag: part.tag });
+      } else if (part.kind === 'close') {
+        const start = open[open.length - 1];
+        if (start && start.tag === part.tag) {
+          open.pop();
+          paired.add(start.index);
+          paired.add(i);
+        }
+      } else {
+        paired.add(i);
+      }
+    });
+
+    let piece: RunPart[] = [];
+    parts.forEach((part, i) => {
+      if (paired.has(i)) {
+        piece.push(part);
+      } else {
+        this.addRun(piece);
+        this.output.push(part.raw);
+        piece = [];
+      }
+    });
+    this.addRun(piece);
+  }
+
+  private addRun(parts: RunPart[]): void {
+    const placeholders: Record<number, Placeholder> = {};
+    const stack: number[] = [];
+    let counter = 0;
+    let text = '';
+    let plainText = '';
+
+    parts.forEach(part => {
+      if (part.kind === 'text') {
+        text += part.text;
+        plainText += part.text;
+      } else if (part.kind === 'close') {
+        const id = stack.pop() as number;
+        placeholders[id].close = part.raw;
+        text += `[[/${id}]]`;
+      } else {
+        const id = ++counter;
+        const empty = part.kind === 'void';
+        placeholders[id] = { open: part.raw, close: '', empty };
+        text += empty ? `[[${id}/]]` : `[[${id}]]`;
+        if (!empty) {
+          stack.push(id);
+        }
+      }
+    });
+
+    const original = parts.map(part => part.raw).join('');
+
+    // Nothing to translate (whitespace, images, line breaks...)
+    if (!LETTER_REGEX.test(plainText)) {
+      if (original) {
+        this.output.push(original);
+      }
+      return;
+    }
+
+    const leading = text.match(/^\s*/)?.[0] || '';
+    const trailing = text.substring(leading.length).match(/\s*$/)?.[0] || '';
+    const id = `s${this.segments.length}`;
+
+    this.segments.push({
+      id,
+      source: text.substring(leading.length, text.length - trailing.length),
+    });
+    this.runs[id] = {
+      index: this.output.length,
+      leading,
+      trailing,
+      placeholders,
+    };
+    this.output.push(original);
+  }
+
+  /**
+   * Rebuild markup from a translated string containing placeholder tokens
+   * Falls back to plain text when the engine broke the tokens
+   */
+  private restore(translated: string, run: TokenizedRun): string {
+    const stack: number[] = [];
+    const used = new Set<number>();
+    let html = '';
+    let lastIndex = 0;
+    let valid = true;
+    let match: RegExpExecArray | null;
+
+    TOKEN_REGEX.lastIndex = 0;
+    while ((match = TOKEN_REGEX.exec(translated))) {
+      html += escapeText(translated.substring(lastIndex, match.index));
+      lastIndex = match.index + match[0].length;
+
+      const [, closing, idText] = match;
+      const id = parseInt(idText, 10);
+      const placeholder = run.placeholders[id];
+
+      if (!placeholder || (used.has(id) && !closing)) {
+        valid = false;
+        break;
+      }
+
+      if (closing) {
+        if (stack[stack.length - 1] !== id) {
+          valid = false;
+          break;
+        }
+        stack.pop();
+        html += placeholder.close;
+      } else {
+        used.add(id);
+        html += placeholder.open;
+        if (!placeholder.empty) {
+          stack.push(id);
+        }
+      }
+    }
+
+    if (valid && stack.length === 0) {
+      return html + escapeText(translated.substring(lastIndex));
+    }
+
+    return escapeText(translated.replace(TOKEN_REGEX, ''));
+  }
+}
+
+/**
+ * Whether the HTML tokenizer is available in the current runtime
+ */
+export function canTokenizeHtml(): boolean {
+  return typeof Parser === 'function';
+}
+
+/**
+ * Segment HTML through the DOM when there is one, through the tokenizer
+ * otherwise. Null when neither is available
+ */
+export function segmentHtml(
+  html: string,
+): SegmentedHtml | TokenizedHtml | null {
+  if (canSegmentHtml()) {
+    return new SegmentedHtml(html);
+  }
+  return canTokenizeHtml() ? new TokenizedHtml(html) : null;
+}
@@ -0,0 +1,133 @@
+/**
+ * Translation jobs
+ * Each translator call runs as a job that can be cancelled through an
+ * AbortSignal and reports its progress while it runs
+ */
+
+import type { BaseEngine } from './engines';
+import { throwIfAborted } from './utils/abort';
+
+// Progress of a translation, see TranslateOptions.onProgress
+export type TranslationEvent = {
+  // Segments translated so far out of the total
+  done: number;
+  total: number;
+  // Engine that handled the latest request
+  engine?: string;
+  // Requests retried so far
+  retries: number;
+};
+
+export type TranslateOptions = {
+  // Cancels the translation, which then rejects with an AbortError
+  signal?: AbortSignal;
+  onProgress?: (event: TranslationEvent) => void;
+};
+
+export class TranslationJob {
+  readonly signal?: AbortSignal;
+
+  private onProgress?: (event: TranslationEvent) => void;
+  private event: TranslationEvent = { done: 0, total: 0, retries: 0 };
+  // Pending segments by source text, repeated texts count once per occurrence
+  private pending: Record<string, number> = {};
+  private watched: BaseEngine[] = [];
+  private stops: (() => void)[] = [];
+
+  constructor(options: TranslateOptions = {}) {
+    this.signal = options.signal;
+    this.onProgress = options.onProgress;
+  }
+
+  /**
+   * Run a task, counting the retries of the engines while it runs
+   */
+  async run<T>(engines: BaseEngine[], task: () => Promise<T>): Promise<T> {
+    this.watch(engines);
+    try {
+      this.check();
+      return await task();
+    } finally {
+      this.unwatch();
+    }
+  }
+
+  /**
+   * Count the retries of the engines until unwatch is called
+   */
+  watch(engines: BaseEngine[]): void {
+    engines.forEach(engine => {
+      if (this.watched.indexOf(engine) !== -1) return;
+      this.watched.push(engine);
+      this.stops.push(
+        engine.onRetry(() => {
+          this.event.retries++;
+          this.event.engine = engine.name;
+          this.emit();
+        }),
+      );
+    });
+  }
+
+  /**
+   * Stop counting retries
+   */
+  unwatch(): void {
+    this.stops.forEach(stop => stop());
+    this.stops = [];
+    this.watched = [];
+  }
+
+  /**
+   * Throw an AbortError if the job was cancelled
+   */
+  check(): void {
+    throwIfAborted(this.signal);
+  }
+
+  /**
+   * Add segments to translate
+   */
+  addTexts(texts: string[]): void {
+    texts.forEach(text => {
+      this.pending[text] = (this.pending[text] || 0) + 1;
+    });
+    this.event.total += texts.length;
+    this.emit();
+  }
+
+  /**
+   * Mark every segment with one of these texts as translated
+   */
+  finish(texts: string[]): void {
+    texts.forEach(text => {
+      if (this.pending[text]) {
+        this.event.done += this.pending[text];
+        delete this.pending[text];
+      }
+    });
+    this.emit();
+  }
+
+  /**
+   * Report the engine a request is sent to
+   * Engines not watched yet (per-language copies) are watched from now on
+   */
+  useEngine(engine: BaseEngine): void {
+    this.watch([engine]);
+    if (this.event.engine !== engine.name) {
+      this.event.engine = engine.name;
+      this.emit();
+    }
+  }
+
+  getEvent(): TranslationEvent {
+    return { ...this.event };
+  }
+
+  private emit(): void {
+    if (this.onProgress && !this.signal?.aborted) {
+      this.onProgress(this.getEvent());
+    }
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Encrypted API key storage
+ * Engine keys are kept in localStorage encrypted with AES-GCM, under a key
+ * derived from a passphrase with PBKDF2. The passphrase is never stored:
+ * keys are only readable after unlocking the vault in the current session.
+ */
+
+type StoredVault = {
+  version: 1;
+  // Base64 PBKDF2 salt, AES-GCM IV and ciphertext
+  salt: string;
+  iv: string;
+  data: string;
+};
+
+const STORAGE_KEY = 'lnreader_engine_keys';
+const PBKDF2_ITERATIONS = 310000;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+/**
+ * API keys of every engine, by engine name
+ */
+export class KeyVault {
+  // Decrypted keys, null while the vault is locked
+  private keys: Record<string, string[]> | null = null;
+  private cryptoKey: CryptoKey | null = null;
+  private salt: Uint8Array | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Whether keys were saved before (a passphrase was chosen)
+   */
+  exists(): boolean {
+    return this.read() !== null;
+  }
+
+  isUnlocked(): boolean {
+    return this.keys !== null;
+  }
+
+  /**
+   * Decrypt the stored keys, or create an empty vault with this passphrase
+   * Returns false when the passphrase is wrong
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const stored = this.read();
+    const salt = stored
+      ? fromBase64(stored.salt)
+      : crypto.getRandomValues(new Uint8Array(16));
+    const cryptoKey = await deriveKey(passphrase, salt);
+
+    let keys: Record<string, string[]> = {};
+    if (stored) {
+      try {
+        const data = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+          cryptoKey,
+          fromBase64(stored.data),
+        );
+        keys = JSON.parse(new TextDecoder().decode(data));
+      } catch {
+        // AES-GCM fails to authenticate with a key from another passphrase
+        return false;
+      }
+    }
+
+    this.keys = keys;
+    this.cryptoKey = cryptoKey;
+    this.salt = salt;
+    if (!stored) {
+      await this.save();
+    }
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Forget the decrypted keys until the next unlock
+   */
+  lock(): void {
+    this.keys = null;
+    this.cryptoKey = null;
+    this.salt = null;
+    this.notify();
+  }
+
+  /**
+   * Keys of an engine, empty while locked
+   */
+  getKeys(engineName: string): string[] {
+    return this.keys?.[engineName] || [];
+  }
+
+  /**
+   * Replace the keys of an engine and save the vault encrypted
+   */
+  async setKeys(engineName: string, keys: string[]): Promise<void> {
+    if (!this.keys) {
+      throw new Error('Key vault is locked');
+    }
+
+    const unique = keys
+      .map(key => key.trim())
+      .filter((key, i, all) => key && all.indexOf(key) === i);
+    if (unique.length > 0) {
+      this.keys[engineName] = unique;
+    } else {
+      delete this.keys[engineName];
+    }
+
+    await this.save();
+    this.notify();
+  }
+
+  /**
+   * Delete every stored key, e.g. after forgetting the passphrase
+   */
+  clear(): void {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    this.lock();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private read(): StoredVault | null {
+    if (typeof localStorage === 'undefined') {
+      return null;
+    }
+
+    try {
+      const data = localStorage.getItem(STORAGE_KEY);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.warn('Failed to read key vault:', error);
+      return null;
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (!this.keys || !this.cryptoKey || !this.salt) {
+      return;
+    }
+
+    // A fresh IV for every encryption, AES-GCM must never reuse one
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.cryptoKey,
+      new TextEncoder().encode(JSON.stringify(this.keys)),
+    );
+    const stored: StoredVault = {
+      version: 1,
+      salt: toBase64(this.salt),
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(data)),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
+}
+
+// Singleton instance
+export const keyVault = new KeyVault();
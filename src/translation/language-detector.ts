@@ -0,0 +1,174 @@
+/**
+ * Offline language detection
+ * Tags text segments with their language from the scripts they are written
+ * in and, for Latin scripts, from their most common words. Detection is
+ * conservative: short or ambiguous text returns null.
+ */
+
+type ScriptRange = {
+  language: string;
+  ranges: [number, number][];
+};
+
+// Scripts used by a single language (or handled as one)
+const SCRIPTS: ScriptRange[] = [
+  {
+    language: 'ko',
+    ranges: [
+      [0xac00, 0xd7af],
+      [0x1100, 0x11ff],
+      [0x3130, 0x318f],
+    ],
+  },
+  { language: 'ru', ranges: [[0x0400, 0x04ff]] },
+  { language: 'ar', ranges: [[0x0600, 0x06ff]] },
+  { language: 'he', ranges: [[0x0590, 0x05ff]] },
+  { language: 'th', ranges: [[0x0e00, 0x0e7f]] },
+  { language: 'el', ranges: [[0x0370, 0x03ff]] },
+  { language: 'hi', ranges: [[0x0900, 0x097f]] },
+];
+
+const HAN_RANGES: [number, number][] = [
+  [0x4e00, 0x9fff],
+  [0x3400, 0x4dbf],
+];
+const KANA_RANGES: [number, number][] = [
+  [0x3040, 0x309f],
+  [0x30a0, 0x30ff],
+];
+const LATIN_RANGES: [number, number][] = [
+  [0x41, 0x5a],
+  [0x61, 0x7a],
+  [0xc0, 0x24f],
+  [0x1e00, 0x1eff],
+];
+
+// Letters only found in Ukrainian among Cyrillic languages
+const UKRAINIAN_REGEX = /[іїєґІЇЄҐ]/;
+// Vietnamese tone marks and letters
+const VIETNAMESE_REGEX = /[ăđơưĂĐƠƯẠ-ỹ]/g;
+
+// Most frequent words of each language written in Latin script
+const COMMON_WORDS: Record<string, string> = {
+  en: 'the and of to in is that it was for with as his he on you her had at be this not but are they she have what',
+  es: 'de la que el en y no los se del las un por con una su para es al lo como más pero sus le ya fue esta muy él ella',
+  fr: 'le de la les et des un une du est que en dans qui pour pas au sur il ne se ce avec elle vous nous',
+  de: 'der die und den das ist nicht ich sie es ein eine zu mit sich des auf für dem im von war auch',
+  pt: 'de que não da em um uma do os para com se na as no é mais dos ao ele ela mas foi está você',
+  it: 'di che il la non è per un una del della sono gli le si ma con mi lo ha nel anche io',
+  nl: 'de het een van en is niet dat op te zijn ik met voor hij ze er maar ook als wat',
+  id: 'yang dan di itu dengan untuk tidak ini dari dalam akan pada aku kamu ke ada dia sudah',
+  tr: 'bir ve bu da de için ne çok ile ama gibi daha olarak ben sen değil var',
+  pl: 'w nie na się z że to jest do jak co ale tak po jego jej już',
+};
+
+// Letters that point to a language, each worth one common word
+const LETTER_HINTS: Record<string, RegExp> = {
+  es: /[ñ¿¡]/g,
+  de: /ß/g,
+  pt: /[ãõ]/g,
+  tr: /[ğış]/g,
+  pl: /[ąęłńśźż]/g,
+};
+
+// Minimum letters to tell a script apart, and common words for Latin text
+const MIN_LETTERS = 2;
+const MIN_WORDS = 2;
+
+const WORD_REGEX = /[a-zÀ-ɏ]+/g;
+
+function inRanges(code: number, ranges: [number, number][]): boolean {
+  return ranges.some(([start, end]) => code >= start && code <= end);
+}
+
+/**
+ * Detect the language of a text
+ * Returns an ISO 639-1 code, or null when the text is too short or mixes
+ * languages too evenly to tell
+ */
+export function detectLanguage(text: string): string | null {
+  const counts: Record<string, number> = {};
+  let han = 0;
+  let kana = 0;
+  let latin = 0;
+  let letters = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (inRanges(code, LATIN_RANGES)) {
+      latin++;
+    } else if (inRanges(code, HAN_RANGES)) {
+      han++;
+    } else if (inRanges(code, KANA_RANGES)) {
+      kana++;
+    } else {
+      const script = SCRIPTS.find(({ ranges }) => inRanges(code, ranges));
+      if (!script) continue;
+      counts[script.language] = (counts[script.language] || 0) + 1;
+    }
+    letters++;
+  }
+
+  if (letters < MIN_LETTERS) {
+    return null;
+  }
+
+  // Japanese mixes kanji with kana, Chinese never uses kana
+  if (han + kana > 0) {
+    counts[kana > 0 && kana >= (han + kana) * 0.05 ? 'ja' : 'zh'] = han + kana;
+  }
+  counts.latin = latin;
+
+  let best = 'latin';
+  Object.keys(counts).forEach(language => {
+    if (counts[language] > counts[best]) {
+      best = language;
+    }
+  });
+
+  // The main script must cover most letters (names in other scripts are fine)
+  if (counts[best] < letters / 2) {
+    return null;
+  }
+
+  if (best === 'latin') {
+    return detectLatinLanguage(text);
+  }
+  if (best === 'ru' && UKRAINIAN_REGEX.test(text)) {
+    return 'uk';
+  }
+  return best;
+}
+
+/**
+ * Detect a language written in Latin script from its common words
+ */
+function detectLatinLanguage(text: string): string | null {
+  const lower = text.toLowerCase();
+
+  if ((lower.match(VIETNAMESE_REGEX) || []).length >= MIN_WORDS) {
+    return 'vi';
+  }
+
+  const words = lower.match(WORD_REGEX) || [];
+  const scores: Record<string, number> = {};
+
+  Object.keys(COMMON_WORDS).forEach(language => {
+    const common = ` ${COMMON_WORDS[language]} `;
+    let score = words.filter(word => common.indexOf(` ${word} `) !== -1).length;
+    const hint = LETTER_HINTS[language];
+    if (hint) {
+      score += (lower.match(hint) || []).length;
+    }
+    scores[language] = score;
+  });
+
+  const ranked = Object.keys(scores).sort((a, b) => scores[b] - scores[a]);
+  const [first, second] = ranked;
+
+  // Closely related languages share words, the winner must stand out
+  if (scores[first] < MIN_WORDS || scores[first] < scores[second] * 1.5) {
+    return null;
+  }
+  return first;
+}
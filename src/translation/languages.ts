@@ -0,0 +1,89 @@
+/**
+ * Language code normalisation
+ * Engines name languages differently (zh-CN, zh-Hans, ZH, jp, kor...), codes
+ * are turned into a single form before comparing them
+ */
+
+// Engine-specific and legacy codes, lowercased
+const ALIASES: Record<string, string> = {
+  // Simplified Chinese
+  'zh-cn': 'zh',
+  'zh-hans': 'zh',
+  'zh-chs': 'zh',
+  'zh-sg': 'zh',
+  // Traditional Chinese
+  'zh-tw': 'zh-TW',
+  'zh-hant': 'zh-TW',
+  'zh-cht': 'zh-TW',
+  'zh-hk': 'zh-TW',
+  'zt': 'zh-TW',
+  'cht': 'zh-TW',
+  // Baidu
+  'jp': 'ja',
+  'kor': 'ko',
+  'spa': 'es',
+  'fra': 'fr',
+  'ara': 'ar',
+  'bul': 'bg',
+  'est': 'et',
+  'dan': 'da',
+  'fin': 'fi',
+  'rom': 'ro',
+  'slo': 'sl',
+  'swe': 'sv',
+  'vie': 'vi',
+  // Google legacy codes
+  'iw': 'he',
+  'jw': 'jv',
+  'in': 'id',
+  // Norwegian Bokmål
+  'nb': 'no',
+};
+
+/**
+ * Normalised form of a language code
+ * Regions and scripts are dropped ('pt-BR' -> 'pt'), except for Chinese,
+ * where 'zh' is Simplified and 'zh-TW' Traditional
+ */
+export function normalizeLanguage(code: string): string {
+  const lower = code.trim().toLowerCase().replace(/_/g, '-');
+  if (ALIASES[lower]) {
+    return ALIASES[lower];
+  }
+  if (/^zh-(hant|tw|hk|mo)\b/.test(lower)) {
+    return 'zh-TW';
+  }
+  const primary = lower.split('-')[0];
+  return ALIASES[primary] || primary;
+}
+
+/**
+ * Whether two language codes name the same language
+ */
+export function isSameLanguage(a: string, b: string): boolean {
+  return normalizeLanguage(a) === normalizeLanguage(b);
+}
+
+/**
+ * Code used by an engine for a language, from one of its langCodes tables
+ * Accepts the table's own names ('Japanese') and codes in any form;
+ * null when the table has no such language
+ */
+export function findLanguageCode(
+  table: Record<string, string>,
+  lang: string,
+): string | null {
+  if (table[lang]) {
+    return table[lang];
+  }
+
+  const codes = Object.keys(table).map(name => table[name]);
+  const normalized = normalizeLanguage(lang);
+  return (
+    codes.find(code => code.toLowerCase() === lang.toLowerCase()) ||
+    codes.find(
+      code => code !== 'auto' && normalizeLanguage(code) === normalized,
+    ) ||
+    null
+  );
+}
@@ -0,0 +1,278 @@
+/**
+ * Translation memory storage backends
+ * IndexedDB is used in the browser, the plugin storage API in compiled
+ * plugins, a Map everywhere else
+ */
+
+export type CacheEntry = {
+  key: string;
+  // Novel/plugin the translation belongs to ('' for global entries)
+  scope: string;
+  originalText: string;
+  translatedText: string;
+  sourceLang: string;
+  targetLang: string;
+  engine: string;
+  // Chosen by hand (edited or re-translated), never replaced by engines
+  authoritative?: boolean;
+  timestamp: number;
+  lastAccess: number;
+  // Approximate size in bytes, used for LRU eviction
+  size: number;
+};
+
+export type StoreUsage = {
+  count: number;
+  bytes: number;
+};
+
+export type TranslationMemoryStore = {
+  get(key: string): Promise<CacheEntry | undefined>;
+  put(entry: CacheEntry): Promise<void>;
+  getAll(): Promise<CacheEntry[]>;
+  clear(): Promise<void>;
+  getUsage(): Promise<StoreUsage>;
+  /**
+   * Delete least recently used entries until at least `bytes` are freed
+   * Returns what was actually removed
+   */
+  evict(bytes: number): Promise<StoreUsage>;
+};
+
+// Synchronous key-value API of the plugin `storage` (@libs/storage)
+export type KeyValueStorage = {
+  get(key: string): unknown;
+  set(key: string, value: unknown): void;
+  delete(key: string): void;
+  getAllKeys(): string[];
+};
+
+const DB_NAME = 'lnreader_translation_memory';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * IndexedDB backend, entries are keyed on the full cache key
+ */
+export class IndexedDbStore implements TranslationMemoryStore {
+  private db?: Promise<IDBDatabase>;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, {
+            keyPath: 'key',
+          });
+          store.createIndex('lastAccess', 'lastAccess');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async objectStore(mode: 'readonly' | 'readwrite') {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const store = await this.objectStore('readonly');
+    return await promisify<CacheEntry | undefined>(store.get(key));
+  }
+
+  async put(entry: CacheEntry): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisify(store.put(entry));
+  }
+
+  async getAll(): Promise<CacheEntry[]> {
+    const store = await this.objectStore('readonly');
+    return await promisify<CacheEntry[]>(store.getAll());
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisify(store.clear());
+  }
+
+  async getUsage(): Promise<StoreUsage> {
+    const store = await this.objectStore('readonly');
+    const usage: StoreUsage = { count: 0, bytes: 0 };
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        usage.count++;
+        usage.bytes += (cursor.value as CacheEntry).size;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    return usage;
+  }
+
+  async evict(bytes: number): Promise<StoreUsage> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const index = transaction.objectStore(STORE_NAME).index('lastAccess');
+    const freed: StoreUsage = { count: 0, bytes: 0 };
+
+    const request = index.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || freed.bytes >= bytes) {
+        return;
+      }
+      freed.count++;
+      freed.bytes += (cursor.value as CacheEntry).size;
+      cursor.delete();
+      cursor.continue();
+    };
+
+    await transactionDone(transaction);
+    return freed;
+  }
+}
+
+/**
+ * In-memory backend for environments without IndexedDB
+ */
+export class MemoryStore implements TranslationMemoryStore {
+  private entries = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async put(entry: CacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry);
+  }
+
+  async getAll(): Promise<CacheEntry[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async getUsage(): Promise<StoreUsage> {
+    const usage: StoreUsage = { count: 0, bytes: 0 };
+    this.entries.forEach(entry => {
+      usage.count++;
+      usage.bytes += entry.size;
+    });
+    return usage;
+  }
+
+  async evict(bytes: number): Promise<StoreUsage> {
+    const freed: StoreUsage = { count: 0, bytes: 0 };
+    const oldest = Array.from(this.entries.values()).sort(
+      (a, b) => a.lastAccess - b.lastAccess,
+    );
+
+    for (const entry of oldest) {
+      if (freed.bytes >= bytes) break;
+      this.entries.delete(entry.key);
+      freed.count++;
+      freed.bytes += entry.size;
+    }
+
+    return freed;
+  }
+}
+
+/**
+ * Backend on the plugin storage API, so translations persist on device
+ * Entries share the plugin's storage, only keys with the prefix are touched
+ */
+export class PluginStorageStore implements TranslationMemoryStore {
+  constructor(
+    private storage: KeyValueStorage,
+    private prefix = 'translation_memory:',
+  ) {}
+
+  private getKeys(): string[] {
+    return this.storage.getAllKeys().filter(key => key.startsWith(this.prefix));
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return (
+      (this.storage.get(this.prefix + key) as CacheEntry | undefined) ||
+      undefined
+    );
+  }
+
+  async put(entry: CacheEntry): Promise<void> {
+    this.storage.set(this.prefix + entry.key, entry);
+  }
+
+  async getAll(): Promise<CacheEntry[]> {
+    return this.getKeys()
+      .map(key => this.storage.get(key) as CacheEntry | undefined)
+      .filter((entry): entry is CacheEntry => !!entry);
+  }
+
+  async clear(): Promise<void> {
+    this.getKeys().forEach(key => this.storage.delete(key));
+  }
+
+  async getUsage(): Promise<StoreUsage> {
+    const usage: StoreUsage = { count: 0, bytes: 0 };
+    (await this.getAll()).forEach(entry => {
+      usage.count++;
+      usage.bytes += entry.size;
+    });
+    return usage;
+  }
+
+  async evict(bytes: number): Promise<StoreUsage> {
+    const freed: StoreUsage = { count: 0, bytes: 0 };
+    const oldest = (await this.getAll()).sort(
+      (a, b) => a.lastAccess - b.lastAccess,
+    );
+
+    for (const entry of oldest) {
+      if (freed.bytes >= bytes) break;
+      this.storage.delete(this.prefix + entry.key);
+      freed.count++;
+      freed.bytes += entry.size;
+    }
+
+    return freed;
+  }
+}
+
+/**
+ * Pick the best backend available in the current environment
+ */
+export function createDefaultStore(): TranslationMemoryStore {
+  return typeof indexedDB !== 'undefined'
+    ? new IndexedDbStore()
+    : new MemoryStore();
+}
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { translationCache } from './cache';
+import { LibreTranslate } from './engines';
+import { EngineError } from './errors';
+import { engineHealth } from './health';
+import { MemoryStore } from './memory-store';
+import { translateSourceNovel } from './metadata';
+import { MultiEngineTranslator } from './translator';
+
+// Engine failing every request, so its texts move to the next engine
+class BrokenEngine extends LibreTranslate {
+  name = 'Broken';
+
+  async translateBatch(): Promise<string[]> {
+    throw new EngineError('auth', 'Invalid API key', this.name);
+  }
+}
+
+const NOVEL = {
+  name: 'My novel',
+  path: '/novel',
+  summary: 'A story.',
+  genres: 'Action, Drama',
+  chapters: [
+    { name: 'Chapter 1', path: '/c1' },
+    { name: 'Chapter 2', path: '/c2' },
+  ],
+};
+
+describe('translateSourceNovel', () => {
+  let store: MemoryStore;
+
+  // LibreTranslate answering every text in upper case
+  const stubFetch = () => {
+    const fetch = vi.fn(
+      async (_url: string, init: { body: string }) =>
+        new Response(
+          JSON.stringify({
+            translatedText: (JSON.parse(init.body).q as string[]).map(text =>
+              text.toUpperCase(),
+            ),
+          }),
+        ),
+    );
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  };
+
+  const createTranslator = (engines = [LibreTranslate]) =>
+    new MultiEngineTranslator({
+      engines,
+      sourceLang: 'en',
+      targetLang: 'es',
+      useMultipleEngines: false,
+      config: {
+        concurrencyLimit: 1,
+        requestInterval: 0,
+        requestsPerMinute: 0,
+        charsPerMinute: 0,
+      },
+    });
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    translationCache.setStore(store);
+    engineHealth.reset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('translates the metadata in a single request', async () => {
+    const fetch = stubFetch();
+
+    const translated = await translateSourceNovel(createTranslator(), NOVEL);
+
+    expect(translated).toEqual({
+      ...NOVEL,
+      name: 'MY NOVEL',
+      summary: 'A STORY.',
+      genres: 'ACTION, DRAMA',
+      chapters: [
+        { name: 'CHAPTER 1', path: '/c1' },
+        { name: 'CHAPTER 2', path: '/c2' },
+      ],
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(NOVEL.name).toBe('My novel');
+  });
+
+  it('keeps the separator the source uses between genres', async () => {
+    stubFetch();
+    const translator = createTranslator();
+
+    const compact = await translateSourceNovel(translator, {
+      ...NOVEL,
+      genres: 'Action,Drama',
+    });
+    const single = await translateSourceNovel(translator, {
+      ...NOVEL,
+      genres: 'Action',
+    });
+
+    expect(compact.genres).toBe('ACTION,DRAMA');
+    expect(single.genres).toBe('ACTION');
+  });
+
+  it('caches each text and not the block it was sent in', async () => {
+    const fetch = stubFetch();
+    await translateSourceNovel(createTranslator(), NOVEL);
+
+    const sources = (await store.getAll()).map(entry => entry.originalText);
+    expect(sources.sort()).toEqual([
+      'A story.',
+      'Action',
+      'Chapter 1',
+      'Chapter 2',
+      'Drama',
+      'My novel',
+    ]);
+
+    const again = await translateSourceNovel(createTranslator(), NOVEL);
+    expect(again.name).toBe('MY NOVEL');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches each text under the engine that translated it', async () => {
+    stubFetch();
+    await translateSourceNovel(
+      createTranslator([BrokenEngine, LibreTranslate]),
+      NOVEL,
+    );
+
+    const engines = (await store.getAll()).map(entry => entry.engine);
+    expect(engines).toHaveLength(6);
+    engines.forEach(engine => expect(engine).toBe('LibreTranslate'));
+  });
+});
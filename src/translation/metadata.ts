@@ -0,0 +1,79 @@
+/**
+ * Novel metadata translation
+ * Names, summaries, genres and chapter names of parseNovel, popularNovels
+ * and searchNovels results, sent as one short-text list per result
+ */
+
+import type { Plugin } from '../types/plugin';
+import type { TranslateOptions } from './job';
+import type { MultiEngineTranslator } from './translator';
+
+// Comma-separated genres, with the separator around each comma kept
+const GENRE_SEPARATOR_REGEX = /\s*,\s*/;
+
+function splitGenres(genres?: string): string[] {
+  return (genres || '')
+    .split(GENRE_SEPARATOR_REGEX)
+    .map(genre => genre.trim())
+    .filter(genre => genre);
+}
+
+/**
+ * Separator the source used between genres, ',' when it has a single one
+ */
+function genreSeparator(genres: string): string {
+  const match = genres.match(GENRE_SEPARATOR_REGEX);
+  return match ? match[0] : ',';
+}
+
+/**
+ * Copy of a novel with its name, summary, genres and chapter names
+ * translated. The source novel is left untouched
+ */
+export async function translateSourceNovel<T extends Plugin.SourceNovel>(
+  translator: MultiEngineTranslator,
+  novel: T,
+  options?: TranslateOptions,
+): Promise<T> {
+  const chapters = novel.chapters || [];
+  const genres = splitGenres(novel.genres);
+  const texts = [novel.name, novel.summary || '']
+    .concat(genres)
+    .concat(chapters.map(chapter => chapter.name));
+
+  const translated = await translator.translateList(texts, options);
+  const chapterNames = translated.slice(2 + genres.length);
+
+  return {
+    ...novel,
+    name: translated[0] || novel.name,
+    summary: novel.summary ? translated[1] : novel.summary,
+    genres: novel.genres
+      ? translated
+          .slice(2, 2 + genres.length)
+          .join(genreSeparator(novel.genres))
+      : novel.genres,
+    chapters: novel.chapters
+      ? chapters.map((chapter, i) => ({
+          ...chapter,
+          name: chapterNames[i] || chapter.name,
+        }))
+      : novel.chapters,
+  };
+}
+
+/**
+ * Copies of novel list items (popular or search results) with their names
+ * translated
+ */
+export async function translateNovelItems<T extends Plugin.NovelItem>(
+  translator: MultiEngineTranslator,
+  novels: T[],
+  options?: TranslateOptions,
+): Promise<T[]> {
+  const names = await translator.translateList(
+    novels.map(novel => novel.name),
+    options,
+  );
+  return novels.map((novel, i) => ({ ...novel, name: names[i] || novel.name }));
+}
@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LibreTranslate } from './engines';
+import { RateLimiter, RateLimits } from './rate-limiter';
+
+const limits = (concurrency: number): RateLimits => ({
+  concurrency,
+  interval: 0,
+  requestsPerMinute: 0,
+  charsPerMinute: 0,
+});
+
+describe('RateLimiter', () => {
+  it('keeps at most the concurrency limit in flight', async () => {
+    const limiter = new RateLimiter();
+    let active = 0;
+    let maxActive = 0;
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5, 6].map(n =>
+        limiter.schedule('engine', limits(2), 0, async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          active--;
+          return n;
+        }),
+      ),
+    );
+
+    expect(results).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(maxActive).toBe(2);
+  });
+
+  it('frees a slot once however many times it is released', async () => {
+    const limiter = new RateLimiter();
+    const first = await limiter.acquire('engine', limits(2), 0);
+    await limiter.acquire('engine', limits(2), 0);
+
+    first();
+    first();
+    await limiter.acquire('engine', limits(2), 0);
+
+    let acquired = false;
+    limiter.acquire('engine', limits(2), 0).then(() => (acquired = true));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(acquired).toBe(false);
+  });
+
+  it('stops waiting for a slot when cancelled', async () => {
+    const limiter = new RateLimiter();
+    const release = await limiter.acquire('engine', limits(1), 0);
+    const controller = new AbortController();
+
+    const waiting = limiter.acquire('engine', limits(1), 0, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+
+    release();
+    const next = await limiter.acquire('engine', limits(1), 0);
+    expect(typeof next).toBe('function');
+  });
+
+  it('spaces request starts by the interval', async () => {
+    const limiter = new RateLimiter();
+    const spaced = { ...limits(0), interval: 0.05 };
+    const start = Date.now();
+
+    (await limiter.acquire('engine', spaced, 0))();
+    (await limiter.acquire('engine', spaced, 0))();
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+  });
+});
+
+describe('Engine requests', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Responses whose body is sent when the test says so, failing like fetch
+  // when the request is cancelled
+  const stubStreamingFetch = () => {
+    const bodies: ReadableStreamDefaultController<Uint8Array>[] = [];
+    const fetch = vi.fn(
+      async (_url: string, init?: { signal?: AbortSignal }) =>
+        new Response(
+          new ReadableStream<Uint8Array>({
+            start: controller => {
+              bodies.push(controller);
+              init?.signal?.addEventListener('abort', () =>
+                controller.error(init.signal?.reason),
+              );
+            },
+          }),
+        ),
+    );
+    vi.stubGlobal('fetch', fetch);
+
+    const send = (index: number, data: unknown) => {
+      bodies[index].enqueue(new TextEncoder().encode(JSON.stringify(data)));
+      bodies[index].close();
+    };
+    return { fetch, send };
+  };
+
+  const createEngine = () => {
+    const engine = new LibreTranslate({
+      concurrencyLimit: 1,
+      requestInterval: 0,
+      requestsPerMinute: 0,
+      charsPerMinute: 0,
+    });
+    engine.setSourceLang('en');
+    engine.setTargetLang('es');
+    return engine;
+  };
+
+  it('holds the slot until the response body has been read', async () => {
+    const { fetch, send } = stubStreamingFetch();
+    const engine = createEngine();
+
+    const first = engine.translateBatch(['one']);
+    const second = engine.translateBatch(['two']);
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    send(0, { translatedText: ['uno'] });
+    expect(await first).toEqual(['uno']);
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+
+    send(1, { translatedText: ['dos'] });
+    expect(await second).toEqual(['dos']);
+  });
+
+  it('stops listening to the job signal once the body has been read', async () => {
+    const { send } = stubStreamingFetch();
+    const engine = createEngine();
+    const job = new AbortController();
+    const add = vi.spyOn(job.signal, 'addEventListener');
+    const remove = vi.spyOn(job.signal, 'removeEventListener');
+
+    const result = engine.translateBatch(['one'], job.signal);
+    await vi.waitFor(() => expect(add).toHaveBeenCalled());
+    send(0, { translatedText: ['uno'] });
+
+    expect(await result).toEqual(['uno']);
+    expect(remove).toHaveBeenCalledTimes(add.mock.calls.length);
+  });
+
+  it('frees the slot when a request is cancelled while its body is read', async () => {
+    const { fetch, send } = stubStreamingFetch();
+    const engine = createEngine();
+    const controller = new AbortController();
+
+    const first = engine.translateBatch(['one'], controller.signal);
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    const second = engine.translateBatch(['two']);
+
+    controller.abort();
+    await expect(first).rejects.toBeDefined();
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+
+    send(1, { translatedText: ['dos'] });
+    expect(await second).toEqual(['dos']);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Per-engine rate limiting
+ * Every request of an engine goes through the same limiter, whichever
+ * translator sends it, so bulk translations (EPUB export, download jobs...)
+ * stay within what the free endpoints tolerate
+ */
+
+import { sleep, throwIfAborted } from './utils/abort';
+
+export type RateLimits = {
+  // Requests in flight at the same time, 0 for no limit
+  concurrency: number;
+  // Seconds between the start of two requests
+  interval: number;
+  // Budgets refilled continuously over a minute, 0 for no limit
+  requestsPerMinute: number;
+  charsPerMinute: number;
+};
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Token bucket holding up to a minute of budget
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private perMinute: number) {
+    this.tokens = perMinute;
+  }
+
+  setRate(perMinute: number): void {
+    this.refill();
+    this.perMinute = perMinute;
+    this.tokens = Math.min(this.tokens, perMinute);
+  }
+
+  /**
+   * Milliseconds until the bucket holds an amount of tokens
+   * Amounts larger than the bucket only wait for a full bucket
+   */
+  getWait(amount: number): number {
+    if (this.perMinute <= 0) {
+      return 0;
+    }
+    this.refill();
+    const missing = Math.min(amount, this.perMinute) - this.tokens;
+    return missing > 0 ? Math.ceil((missing * MINUTE) / this.perMinute) : 0;
+  }
+
+  take(amount: number): void {
+    if (this.perMinute > 0) {
+      this.refill();
+      this.tokens -= amount;
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.perMinute,
+      this.tokens + ((now - this.updatedAt) * this.perMinute) / MINUTE,
+    );
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Limiter of a single engine
+ */
+class EngineLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private nextStart = 0;
+  private pausedUntil = 0;
+  private requests: TokenBucket;
+  private chars: TokenBucket;
+
+  constructor(private limits: RateLimits) {
+    this.requests = new TokenBucket(limits.requestsPerMinute);
+    this.chars = new TokenBucket(limits.charsPerMinute);
+  }
+
+  setLimits(limits: RateLimits): void {
+    if (limits.requestsPerMinute !== this.limits.requestsPerMinute) {
+      this.requests.setRate(limits.requestsPerMinute);
+    }
+    if (limits.charsPerMinute !== this.limits.charsPerMinute) {
+      this.chars.setRate(limits.charsPerMinute);
+    }
+    this.limits = limits;
+  }
+
+  async acquire(chars: number, signal?: AbortSignal): Promise<() => void> {
+    for (;;) {
+      throwIfAborted(signal);
+
+      const { concurrency } = this.limits;
+      if (concurrency > 0 && this.active >= concurrency) {
+        await this.waitForSlot(signal);
+        continue;
+      }
+
+      const now = Date.now();
+      const wait = Math.max(
+        this.pausedUntil - now,
+        this.nextStart - now,
+        this.requests.getWait(1),
+        this.chars.getWait(chars),
+      );
+      if (wait > 0) {
+        await sleep(wait, signal);
+        continue;
+      }
+
+      this.active++;
+      this.nextStart = now + this.limits.interval * 1000;
+      this.requests.take(1);
+      this.chars.take(chars);
+
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.waiting.shift()?.();
+      };
+    }
+  }
+
+  /**
+   * Hold every request for a number of seconds (Retry-After, 429...)
+   */
+  pause(seconds: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + seconds * 1000);
+  }
+
+  /**
+   * Wait for a request to be released, or for the signal to abort
+   * (acquire then throws the AbortError)
+   */
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(wake => wake !== onSlot);
+        resolve();
+      };
+      const onSlot = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiting.push(onSlot);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+/**
+ * Limiters of every engine, by engine name
+ */
+export class RateLimiter {
+  private limiters: Record<string, EngineLimiter> = {};
+
+  /**
+   * Wait for the engine's limits to allow a request
+   * Returns a function to call once the response has been read
+   * @param chars - Characters sent, counted against charsPerMinute
+   */
+  async acquire(
+    engineName: string,
+    limits: RateLimits,
+    chars: number,
+    signal?: AbortSignal,
+  ): Promise<() => void> {
+    return await this.getLimiter(engineName, limits).acquire(chars, signal);
+  }
+
+  /**
+   * Run a request within the engine's limits
+   */
+  async schedule<T>(
+    engineName: string,
+    limits: RateLimits,
+    chars: number,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const release = await this.acquire(engineName, limits, chars, signal);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Hold the engine's requests, e.g. after a 429 response
+   */
+  pause(engineName: string, seconds: number): void {
+    this.limiters[engineName]?.pause(seconds);
+  }
+
+  private getLimiter(engineName: string, limits: RateLimits): EngineLimiter {
+    let limiter = this.limiters[engineName];
+    if (limiter) {
+      // The latest settings apply to every translator
+      limiter.setLimits(limits);
+    } else {
+      limiter = this.limiters[engineName] = new EngineLimiter(limits);
+    }
+    return limiter;
+  }
+}
+
+// Singleton instance, shared by every translator
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,349 @@
+/**
+ * HTML segmenter
+ * Splits HTML into translatable segments with stable IDs and writes the
+ * translations back into the DOM tree instead of patching the HTML string
+ *
+ * Inline markup inside a segment (<em>, <a>, <br>...) is replaced by
+ * placeholder tokens that engines are asked to keep:
+ *   "He <em>really</em> said<br>no" -> "He [[1]]really[[/1]] said[[2/]]no"
+ */
+
+export type Segment = {
+  id: string;
+  // Text with inline markup replaced by placeholder tokens
+  source: string;
+};
+
+type SegmentRun = {
+  nodes: Node[];
+  leading: string;
+  trailing: string;
+  placeholders: Record<number, Element>;
+};
+
+// Instruction appended to LLM prompts so placeholder tokens survive
+export const PLACEHOLDER_INSTRUCTIONS =
+  'The text may contain placeholder tokens such as [[1]], [[/1]] and [[2/]]. Keep every token exactly as written and around the same words.';
+
+// Elements whose content is never translated
+export const SKIPPED_TAGS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'math',
+  'code',
+  'pre',
+]);
+
+// Elements that are kept inside a segment as placeholder tokens
+export const INLINE_TAGS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'bdi',
+  'bdo',
+  'big',
+  'br',
+  'cite',
+  'del',
+  'dfn',
+  'em',
+  'font',
+  'i',
+  'img',
+  'ins',
+  'kbd',
+  'mark',
+  'q',
+  'rp',
+  'rt',
+  'ruby',
+  's',
+  'samp',
+  'small',
+  'span',
+  'strike',
+  'strong',
+  'sub',
+  'sup',
+  'time',
+  'u',
+  'var',
+  'wbr',
+]);
+
+// Inline elements without content
+export const VOID_TAGS = new Set(['br', 'img', 'wbr']);
+
+export const TOKEN_REGEX = /\[\[\s*(\/?)\s*(\d+)\s*(\/?)\s*\]\]/g;
+
+// Latin letters and any non-ASCII script, excluding punctuation blocks
+export const LETTER_REGEX = /[A-Za-z\u00C0-\u1FFF\u2070-\u2FFF\u3040-\uFFFF]/;
+
+const TEXT_NODE = 3;
+const ELEMENT_NODE = 1;
+
+function isInlineElement(element: Element): boolean {
+  const tag = element.tagName.toLowerCase();
+  if (!INLINE_TAGS.has(tag)) {
+    return false;
+  }
+  // An inline element wrapping blocks (e.g. <a><div>) is treated as a block
+  return Array.from(element.children).every(child => isInlineElement(child));
+}
+
+/**
+ * A parsed HTML document split into translatable segments
+ */
+export class SegmentedHtml {
+  readonly segments: Segment[] = [];
+
+  private doc: Document;
+  private runs: Record<string, SegmentRun> = {};
+
+  constructor(html: string) {
+    const parser = new DOMParser();
+    this.doc = parser.parseFromString(html, 'text/html');
+
+    if (this.doc.body) {
+      this.collect(this.doc.body);
+    }
+  }
+
+  /**
+   * Whether the HTML could be parsed into a document body
+   */
+  isValid(): boolean {
+    return !!this.doc.body;
+  }
+
+  /**
+   * Write translations (segment ID -> translated text) back into the tree
+   * and return the resulting HTML. Segments without a translation keep
+   * their original content.
+   */
+  apply(translations: Record<string, string>): string {
+    Object.keys(translations).forEach(id => {
+      const run = this.runs[id];
+      const translated = translations[id];
+      if (!run || translated === undefined) {
+        return;
+      }
+
+      const fragment = this.doc.createDocumentFragment();
+      if (run.leading) {
+        fragment.appendChild(this.doc.createTextNode(run.leading));
+      }
+      fragment.appendChild(this.restore(translated.trim(), run));
+      if (run.trailing) {
+        fragment.appendChild(this.doc.createTextNode(run.trailing));
+      }
+
+      // Keep a handle on the new nodes so the segment can be re-applied
+      const replacement = Array.from(fragment.childNodes);
+      const first = run.nodes[0];
+      first.parentNode?.insertBefore(fragment, first);
+      run.nodes.forEach(node => node.parentNode?.removeChild(node));
+      run.nodes = replacement;
+    });
+
+    return this.doc.body ? this.doc.body.innerHTML : '';
+  }
+
+  /**
+   * Insert translations (segment ID -> translated text) after the original
+   * text and return the resulting HTML, for bilingual books. A block holding
+   * a single segment is repeated with the translation, other segments get a
+   * paragraph of their own. Translated blocks have the class "translation".
+   */
+  interleave(translations: Record<string, string>): string {
+    Object.keys(translations).forEach(id => {
+      const run = this.runs[id];
+      const translated = translations[id];
+      const parent = run?.nodes[0].parentNode as Element | null;
+      if (!run || translated === undefined || !parent) {
+        return;
+      }
+
+      // Whether the run is the whole content of its block
+      const wholeBlock =
+        parent !== this.doc.body &&
+        Array.from(parent.childNodes).every(
+          node =>
+            run.nodes.indexOf(node) !== -1 || !(node.textContent || '').trim(),
+        );
+      const block = wholeBlock
+        ? (parent.cloneNode(false) as Element)
+        : this.doc.createElement('p');
+      block.removeAttribute('id');
+      block.setAttribute(
+        'class',
+        [block.getAttribute('class'), 'translation'].filter(Boolean).join(' '),
+      );
+      block.appendChild(this.restore(translated.trim(), run));
+
+      const after = wholeBlock ? parent : run.nodes[run.nodes.length - 1];
+      after.parentNode?.insertBefore(block, after.nextSibling);
+    });
+
+    return this.doc.body ? this.doc.body.innerHTML : '';
+  }
+
+  /**
+   * HTML of a single segment with its inline markup, showing the given text
+   * (a translation with placeholder tokens) or the source text
+   */
+  render(id: string, text?: string): string {
+    const run = this.runs[id];
+    const segment = this.segments.find(s => s.id === id);
+    if (!run || !segment) {
+      return '';
+    }
+
+    const container = this.doc.createElement('div');
+    container.appendChild(
+      this.restore(text === undefined ? segment.source : text.trim(), run),
+    );
+    return container.innerHTML;
+  }
+
+  /**
+   * Walk a container, grouping consecutive text and inline nodes into runs
+   */
+  private collect(container: Element): void {
+    let run: Node[] = [];
+
+    const flush = () => {
+      if (run.length > 0) {
+        this.addRun(run);
+        run = [];
+      }
+    };
+
+    Array.from(container.childNodes).forEach(node => {
+      if (node.nodeType === TEXT_NODE) {
+        run.push(node);
+      } else if (node.nodeType === ELEMENT_NODE) {
+        const element = node as Element;
+        const tag = element.tagName.toLowerCase();
+        if (SKIPPED_TAGS.has(tag)) {
+          flush();
+        } else if (isInlineElement(element)) {
+          run.push(node);
+        } else {
+          flush();
+          this.collect(element);
+        }
+      }
+    });
+
+    flush();
+  }
+
+  private addRun(nodes: Node[]): void {
+    const placeholders: Record<number, Element> = {};
+    let counter = 0;
+
+    const serialize = (node: Node): string => {
+      if (node.nodeType === TEXT_NODE) {
+        return node.textContent || '';
+      }
+      if (node.nodeType !== ELEMENT_NODE) {
+        return '';
+      }
+
+      const element = node as Element;
+      const id = ++counter;
+      placeholders[id] = element;
+
+      if (VOID_TAGS.has(element.tagName.toLowerCase())) {
+        return `[[${id}/]]`;
+      }
+      const inner = Array.from(element.childNodes).map(serialize).join('');
+      return `[[${id}]]${inner}[[/${id}]]`;
+    };
+
+    const text = nodes.map(serialize).join('');
+    const plainText = nodes.map(node => node.textContent || '').join('');
+
+    // Nothing to translate (whitespace, images, line breaks...)
+    if (!LETTER_REGEX.test(plainText)) {
+      return;
+    }
+
+    const leading = text.match(/^\s*/)?.[0] || '';
+    const trailing = text.substring(leading.length).match(/\s*$/)?.[0] || '';
+    const id = `s${this.segments.length}`;
+
+    this.segments.push({
+      id,
+      source: text.substring(leading.length, text.length - trailing.length),
+    });
+    this.runs[id] = { nodes, leading, trailing, placeholders };
+  }
+
+  /**
+   * Rebuild DOM nodes from a translated string containing placeholder tokens
+   * Falls back to plain text when the engine broke the tokens
+   */
+  private restore(translated: string, run: SegmentRun): Node {
+    const fragment = this.doc.createDocumentFragment();
+    const stack: { id: number; node: Node }[] = [{ id: 0, node: fragment }];
+    const used = new Set<number>();
+    let lastIndex = 0;
+    let valid = true;
+    let match: RegExpExecArray | null;
+
+    const appendText = (text: string) => {
+      if (text) {
+        stack[stack.length - 1].node.appendChild(this.doc.createTextNode(text));
+      }
+    };
+
+    TOKEN_REGEX.lastIndex = 0;
+    while ((match = TOKEN_REGEX.exec(translated))) {
+      appendText(translated.substring(lastIndex, match.index));
+      lastIndex = match.index + match[0].length;
+
+      const [, closing, idText, selfClosing] = match;
+      const id = parseInt(idText, 10);
+      const original = run.placeholders[id];
+
+      if (!original || (used.has(id) && !closing)) {
+        valid = false;
+        break;
+      }
+
+      if (closing) {
+        if (stack[stack.length - 1].id !== id) {
+          valid = false;
+          break;
+        }
+        stack.pop();
+      } else {
+        used.add(id);
+        const clone = original.cloneNode(false);
+        stack[stack.length - 1].node.appendChild(clone);
+        if (!selfClosing && !VOID_TAGS.has(original.tagName.toLowerCase())) {
+          stack.push({ id, node: clone });
+        }
+      }
+    }
+
+    if (valid && stack.length === 1) {
+      appendText(translated.substring(lastIndex));
+      return fragment;
+    }
+
+    return this.doc.createTextNode(translated.replace(TOKEN_REGEX, ''));
+  }
+}
+
+/**
+ * Whether the current environment can parse HTML into a DOM tree
+ */
+export function canSegmentHtml(): boolean {
+  return typeof DOMParser !== 'undefined';
+}
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { translationCache } from './cache';
+import { OllamaTranslate } from './engines';
+import { MemoryStore } from './memory-store';
+import { MultiEngineTranslator } from './translator';
+
+// LLM engine recording the texts of every chapter it is given
+class ChapterLlm extends OllamaTranslate {
+  static chapters: string[][] = [];
+
+  async translateChapter(texts: string[]): Promise<string[]> {
+    ChapterLlm.chapters.push(texts);
+    return texts.map(text => `T:${text}`);
+  }
+}
+
+const createTranslator = () =>
+  new MultiEngineTranslator({
+    engines: [ChapterLlm],
+    targetLang: 'en',
+    useMultipleEngines: false,
+    contextMode: true,
+  });
+
+describe('MultiEngineTranslator chapter mode', () => {
+  beforeEach(() => {
+    translationCache.setStore(new MemoryStore());
+    ChapterLlm.chapters = [];
+  });
+
+  it('sends only the uncached texts not in the target language', async () => {
+    await translationCache.set(
+      '犬がいます。',
+      'There is a dog.',
+      'auto',
+      'en',
+      'Ollama',
+    );
+
+    const html = await createTranslator().translateHtml(
+      '<p>これは猫です。</p>' +
+        '<p>This paragraph is already written in English.</p>' +
+        '<p>犬がいます。</p>' +
+        '<p>これは猫です。</p>',
+    );
+
+    expect(ChapterLlm.chapters).toEqual([['これは猫です。']]);
+    expect(html).toBe(
+      '<p>T:これは猫です。</p>' +
+        '<p>This paragraph is already written in English.</p>' +
+        '<p>There is a dog.</p>' +
+        '<p>T:これは猫です。</p>',
+    );
+  });
+
+  it('does not call the engine for a chapter translated before', async () => {
+    const chapter = '<p>これは猫です。</p><p>犬がいます。</p>';
+    await createTranslator().translateHtml(chapter);
+    await createTranslator().translateHtml(chapter);
+
+    expect(ChapterLlm.chapters).toEqual([['これは猫です。', '犬がいます。']]);
+  });
+});
@@ -12,100 +12,804 @@ import {
   TranslationResult,
   GoogleFreeTranslate,
   GoogleFreeTranslateNew,
+  LlmEngine,
 } from './engines';
-import { translationCache } from './cache';
+import { CacheScope, MANUAL_ENGINE, translationCache } from './cache';
+import { novelSummaryStore } from './context';
+import {
+  followsGlossary,
+  GlossaryTerm,
+  maskTerms,
+  unmaskTerms,
+} from './glossary';
+import { canSegmentHtml, SegmentedHtml } from './segmenter';
+import { segmentHtml } from './html-tokenizer';
+import { EngineError, toEngineError } from './errors';
+import { engineHealth } from './health';
+import { detectLanguage } from './language-detector';
+import { isSameLanguage } from './languages';
+import { TranslateOptions, TranslationEvent, TranslationJob } from './job';
+import { isAbortError } from './utils/abort';
+import { packBatches, packLines } from './utils/batch';
+import {
+  bestSentenceMatch,
+  sentenceSimilarity,
+  splitSentences,
+  stringSimilarity,
+} from './utils/similarity';
+
+// Placeholder tokens for inline markup, see segmenter.ts
+const INLINE_TOKEN_REGEX = /\[\[\/?\d+\/?\]\]/g;
+
+export type MergeStrategy = 'first' | 'vote' | 'average';
+
+export type MergeSegment = {
+  text: string;
+  engine: string;
+  confidence: number;
+};
+
+export type MergeReport = {
+  strategy: MergeStrategy;
+  results: TranslationResult[];
+  segments: MergeSegment[];
+};
+
+// Receives the translations engines make instead of the translation memory
+type TranslatedListener = (
+  text: string,
+  result: string,
+  engine: BaseEngine,
+) => void;
+
+// Partial result of a progressive HTML translation
+export type TranslationProgress = TranslationEvent & {
+  // HTML with the segments translated so far, the rest keeps the original
+  html: string;
+  // Translations (with placeholder tokens) by segment ID, see SegmentedHtml
+  translations: Record<string, string>;
+};
 
 export interface TranslatorConfig {
   engines: EngineClass[];
   sourceLang?: string;
   targetLang: string;
   useMultipleEngines?: boolean;
-  mergeStrategy?: 'first' | 'vote' | 'average';
+  mergeStrategy?: MergeStrategy;
+  // Novel/plugin the translations are cached for
+  scope?: CacheScope;
+  glossary?: GlossaryTerm[];
+  // Translate whole chapters with LLM engines and a rolling novel summary
+  contextMode?: boolean;
+  // Chapter being translated, folded into the novel summary in context mode
+  chapterPath?: string;
   config?: TranslationConfig;
+  // Per-engine settings (model, prompt, base URL...), keyed by engine name
+  engineConfigs?: Record<string, TranslationConfig>;
+  // With an 'auto' source, detect the language of each segment to skip the
+  // ones already in the target language and route the others (default: true)
+  detectLanguage?: boolean;
 }
 
 export class MultiEngineTranslator {
   private engines: BaseEngine[] = [];
+  private engineClasses: EngineClass[] = [];
+  // Copies of the engines set to a detected source language
+  private enginesBySource: Record<string, BaseEngine[]> = {};
+  private config: TranslationConfig;
+  private engineConfigs: Record<string, TranslationConfig>;
+  private autoDetect: boolean;
   private sourceLang: string = 'auto';
   private targetLang: string = 'en';
   private useMultipleEngines: boolean = true;
-  private mergeStrategy: 'first' | 'vote' | 'average' = 'first';
+  private mergeStrategy: MergeStrategy = 'first';
+  private mergeReports: MergeReport[] = [];
+  private scope?: CacheScope;
+  private glossary: GlossaryTerm[] = [];
+  private contextMode = false;
+  private chapterPath?: string;
 
   constructor(config: TranslatorConfig) {
     this.sourceLang = config.sourceLang || 'auto';
     this.targetLang = config.targetLang;
     this.useMultipleEngines = config.useMultipleEngines ?? true;
     this.mergeStrategy = config.mergeStrategy || 'first';
+    this.scope = config.scope;
+    this.glossary = config.glossary || [];
+    this.contextMode = config.contextMode ?? false;
+    this.chapterPath = config.chapterPath;
+    this.config = config.config || {};
+    this.engineConfigs = config.engineConfigs || {};
+    this.autoDetect = config.detectLanguage ?? true;
 
     // Initialize engines
-    this.engines = config.engines.map(
-      EngineClass => new EngineClass(config.config || {}),
-    ) as BaseEngine[];
-
-    // Set languages for all engines
-    this.engines.forEach(engine => {
-      engine.setSourceLang(this.sourceLang);
-      engine.setTargetLang(this.targetLang);
-    });
+    this.engineClasses = config.engines;
+    this.engines = config.engines.map(EngineClass =>
+      this.createEngine(EngineClass, this.sourceLang),
+    );
+  }
+
+  /**
+   * Create an engine with its settings, languages and glossary
+   */
+  private createEngine(EngineClass: EngineClass, sourceLang: string) {
+    let engine: BaseEngine = new EngineClass(this.config);
+    // Engine names are instance fields, so overrides need a second instance
+    const overrides = this.engineConfigs[engine.name];
+    if (overrides) {
+      engine = new EngineClass({ ...this.config, ...overrides });
+    }
+
+    engine.setSourceLang(sourceLang);
+    engine.setTargetLang(this.targetLang);
+    engine.setGlossary(this.glossary);
+    return engine;
   }
 
   /**
    * Translate text using multiple engines
    */
-  async translate(text: string): Promise<string> {
+  async translate(text: string, options?: TranslateOptions): Promise<string> {
+    const job = new TranslationJob(options);
+    job.addTexts([text]);
+    return await job.run(this.engines, () => this.translateText(text, job));
+  }
+
+  private async translateText(text: string, job: TranslationJob) {
     if (!text.trim()) {
+      job.finish([text]);
       return text;
     }
 
-    // Check cache first - try each engine
-    for (const engine of this.engines) {
-      const cached = translationCache.get(
-        text,
-        this.sourceLang,
-        this.targetLang,
-        engine.name,
-      );
-      if (cached) {
-        return cached;
-      }
+    const lang = this.detectSource(text);
+    if (lang && isSameLanguage(lang, this.targetLang)) {
+      job.finish([text]);
+      return text;
+    }
+    const source = lang || this.sourceLang;
+
+    // Check cache first
+    const cached = await this.getCached(text);
+    if (cached) {
+      job.finish([text]);
+      return cached;
     }
 
     let result: string;
     let usedEngine: BaseEngine;
 
     if (!this.useMultipleEngines || this.engines.length === 1) {
-      // Use single engine (first one)
-      usedEngine = this.engines[0];
-      result = await this.translateWithEngine(usedEngine, text);
+      // Use single engine (the healthiest one)
+      usedEngine = this.getEngineOrder(source)[0];
+      result = await this.translateWithEngine(usedEngine, text, job);
     } else {
       // Use multiple engines
-      result = await this.translateWithMultipleEngines(text);
+      result = await this.translateWithMultipleEngines(text, source, job);
       usedEngine = this.engines[0]; // Store with first engine name
     }
 
-    // Store in cache for all engines used
-    if (this.useMultipleEngines && this.engines.length > 1) {
-      // Store with each engine name for better cache hits
-      this.engines.forEach(engine => {
-        translationCache.set(
-          text,
-          result,
-          this.sourceLang,
-          this.targetLang,
-          engine.name,
-        );
+    await this.storeInCache(text, result, usedEngine);
+    job.finish([text]);
+
+    return result;
+  }
+
+  /**
+   * Translate several texts, packing them into as few requests as the
+   * engines allow. Translations are returned in the same order.
+   */
+  async translateBatch(
+    texts: string[],
+    options?: TranslateOptions,
+  ): Promise<string[]> {
+    const job = new TranslationJob(options);
+    job.addTexts(texts);
+    return await job.run(this.engines, () => this.translateTexts(texts, job));
+  }
+
+  /**
+   * Translate texts in batches. With onTranslated, the texts are neither
+   * looked up nor stored in the translation memory, each translation goes
+   * to the listener with its engine instead (line blocks of translateLines)
+   */
+  private async translateTexts(
+    texts: string[],
+    job: TranslationJob,
+    onTranslated?: TranslatedListener,
+  ): Promise<string[]> {
+    const results = texts.slice();
+    const pending: string[] = [];
+
+    for (let i = 0; i < texts.length; i++) {
+      const text = texts[i];
+      if (!text.trim()) {
+        job.finish([text]);
+        continue;
+      }
+      const cached = onTranslated ? null : await this.getCached(text);
+      if (cached) {
+        results[i] = cached;
+        job.finish([text]);
+      } else if (!pending.includes(text)) {
+        pending.push(text);
+      }
+    }
+
+    if (pending.length === 0) {
+      return results;
+    }
+
+    const translated: Record<string, string> = {};
+    const single = !this.useMultipleEngines || this.engines.length === 1;
+    const groups = this.groupBySource(pending, job);
+
+    for (const lang of Object.keys(groups)) {
+      Object.assign(
+        translated,
+        single
+          ? await this.batchWithFallback(
+              this.getEngineOrder(lang),
+              groups[lang],
+              job,
+              onTranslated,
+            )
+          : await this.batchWithMultipleEngines(
+              groups[lang],
+              lang,
+              job,
+              onTranslated,
+            ),
+      );
+    }
+
+    texts.forEach((text, i) => {
+      if (translated[text] !== undefined) {
+        results[i] = translated[text];
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Translate many short texts (novel names, genres, chapter names...)
+   * Texts are sent one per line in as few blocks as the engine allows, so a
+   * list of thousands costs a few requests, and each one is cached on its
+   * own. Translations are returned in the same order.
+   */
+  async translateList(
+    texts: string[],
+    options?: TranslateOptions,
+  ): Promise<string[]> {
+    const job = new TranslationJob(options);
+    job.addTexts(texts);
+    return await job.run(this.engines, () => this.translateLines(texts, job));
+  }
+
+  private async translateLines(
+    texts: string[],
+    job: TranslationJob,
+  ): Promise<string[]> {
+    const translated: Record<string, string> = {};
+    const seen: Record<string, boolean> = {};
+    const pending: string[] = [];
+
+    for (const text of texts) {
+      if (!text.trim() || seen[text]) {
+        continue;
+      }
+      seen[text] = true;
+      const cached = await this.getCached(text);
+      if (cached) {
+        translated[text] = cached;
+        job.finish([text]);
+      } else {
+        pending.push(text);
+      }
+    }
+
+    // Texts with line breaks of their own are sent separately
+    const separate = pending.filter(text => text.indexOf('\n') !== -1);
+    const blocks = packLines(
+      pending.filter(text => text.indexOf('\n') === -1),
+      this.getEngineOrder()[0].getBatchLimits().maxChars,
+    );
+
+    // Only the lines are cached, not the blocks they were sent in, under
+    // the engine that translated their block
+    if (blocks.length > 0) {
+      const joined = blocks.map(block => block.join('\n'));
+      const blockEngines: Record<string, BaseEngine> = {};
+      const results = await this.translateTexts(
+        joined,
+        job,
+        (block, _result, engine) => {
+          blockEngines[block] = engine;
+        },
+      );
+
+      for (let i = 0; i < blocks.length; i++) {
+        const lines = results[i].split('\n');
+        const engine = blockEngines[joined[i]];
+        // Engines merging or splitting lines leave no way to match them up
+        if (
+          !engine ||
+          results[i] === joined[i] ||
+          lines.length !== blocks[i].length
+        ) {
+          separate.push(...blocks[i]);
+          continue;
+        }
+        for (let j = 0; j < lines.length; j++) {
+          const text = blocks[i][j];
+          translated[text] = lines[j].trim() || text;
+          await this.storeInCache(text, translated[text], engine);
+        }
+        job.finish(blocks[i]);
+      }
+    }
+
+    if (separate.length > 0) {
+      const results = await this.translateTexts(separate, job);
+      separate.forEach((text, i) => {
+        translated[text] = results[i];
       });
+    }
+
+    return texts.map(text =>
+      translated[text] !== undefined ? translated[text] : text,
+    );
+  }
+
+  /**
+   * Look up a text in the translation memory
+   */
+  private async getCached(text: string): Promise<string | null> {
+    const entry = await translationCache.getEntry(
+      text,
+      this.sourceLang,
+      this.targetLang,
+      this.scope,
+    );
+    if (!entry) {
+      return null;
+    }
+    // Translations made before a glossary change are done again, unless
+    // they were chosen by hand
+    if (
+      !entry.authoritative &&
+      !followsGlossary(text, entry.translatedText, this.glossary)
+    ) {
+      return null;
+    }
+    return entry.translatedText;
+  }
+
+  /**
+   * Store a translation in the translation memory
+   */
+  private async storeInCache(
+    text: string,
+    result: string,
+    engine: BaseEngine,
+    authoritative = false,
+  ): Promise<void> {
+    await translationCache.set(
+      text,
+      result,
+      this.sourceLang,
+      this.targetLang,
+      engine.name,
+      this.scope,
+      authoritative,
+    );
+  }
+
+  /**
+   * Give a translation to the listener, or store it in the translation
+   * memory without one
+   */
+  private async storeTranslation(
+    text: string,
+    result: string,
+    engine: BaseEngine,
+    onTranslated?: TranslatedListener,
+  ): Promise<void> {
+    if (onTranslated) {
+      onTranslated(text, result, engine);
     } else {
-      translationCache.set(
+      await this.storeInCache(text, result, engine);
+    }
+  }
+
+  /**
+   * Translate a text again with a specific engine, ignoring the cache
+   * The result replaces the cached translation as an authoritative entry
+   */
+  async translateWith(
+    engineName: string,
+    text: string,
+    options?: TranslateOptions,
+  ): Promise<string> {
+    const job = new TranslationJob(options);
+    job.addTexts([text]);
+    return await job.run(this.engines, async () => {
+      const lang = this.detectSource(text) || this.sourceLang;
+      const engine =
+        this.getEnginesFor(lang).find(e => e.name === engineName) ||
+        this.engines.find(e => e.name === engineName);
+      if (!engine) {
+        throw new Error(`Unknown engine ${engineName}`);
+      }
+
+      const result = await this.translateWithEngine(engine, text, job);
+      await this.storeInCache(text, result, engine, true);
+      job.finish([text]);
+      return result;
+    });
+  }
+
+  /**
+   * Store a translation edited by hand, used from now on for this text
+   */
+  async setTranslation(text: string, translation: string): Promise<void> {
+    await translationCache.set(
+      text,
+      translation,
+      this.sourceLang,
+      this.targetLang,
+      MANUAL_ENGINE,
+      this.scope,
+      true,
+    );
+  }
+
+  /**
+   * Send texts to an engine, protecting glossary terms
+   * Prompt-based engines already got the glossary through setGlossary,
+   * the others get the terms masked and restored afterwards
+   */
+  private async engineTranslateBatch(
+    engine: BaseEngine,
+    texts: string[],
+    job: TranslationJob,
+  ): Promise<string[]> {
+    job.check();
+    job.useEngine(engine);
+
+    if (this.glossary.length === 0 || engine.usesPromptGlossary()) {
+      return await this.callEngine(engine, () =>
+        engine.translateBatch(texts, job.signal),
+      );
+    }
+
+    const masked = texts.map(text => maskTerms(text, this.glossary));
+    const results = await this.callEngine(engine, () =>
+      engine.translateBatch(
+        masked.map(m => m.text),
+        job.signal,
+      ),
+    );
+    return results.map((result, i) => unmaskTerms(result, masked[i]));
+  }
+
+  /**
+   * Stream texts through an engine, protecting glossary terms
+   * See engineTranslateBatch
+   */
+  private async *engineTranslateBatchStream(
+    engine: BaseEngine,
+    texts: string[],
+    job: TranslationJob,
+  ): AsyncGenerator<string[]> {
+    job.check();
+    job.useEngine(engine);
+
+    const masked =
+      this.glossary.length === 0 || engine.usesPromptGlossary()
+        ? null
+        : texts.map(text => maskTerms(text, this.glossary));
+    const start = Date.now();
+
+    try {
+      for await (const results of engine.translateBatchStream(
+        masked ? masked.map(m => m.text) : texts,
+        job.signal,
+      )) {
+        yield masked
+          ? results.map((result, i) => unmaskTerms(result, masked[i]))
+          : results;
+      }
+    } catch (error) {
+      throw this.recordFailure(engine, error);
+    }
+    engineHealth.recordSuccess(engine, Date.now() - start);
+  }
+
+  /**
+   * Run an engine call, recording its latency and outcome in the engine
+   * health. Failures are rethrown as EngineError.
+   */
+  private async callEngine<T>(
+    engine: BaseEngine,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    const start = Date.now();
+    try {
+      const result = await task();
+      engineHealth.recordSuccess(engine, Date.now() - start);
+      return result;
+    } catch (error) {
+      throw this.recordFailure(engine, error);
+    }
+  }
+
+  private recordFailure(engine: BaseEngine, error: unknown): Error {
+    const engineError = toEngineError(error, engine.name);
+    if (engineError instanceof EngineError) {
+      engineHealth.recordFailure(engine, engineError);
+    }
+    return engineError;
+  }
+
+  /**
+   * Engines in fallback order: healthiest first, open circuits skipped
+   * @param lang - Source language, see getEnginesFor
+   */
+  private getEngineOrder(lang = this.sourceLang): BaseEngine[] {
+    return engineHealth.order(this.getEnginesFor(lang));
+  }
+
+  /**
+   * Engines that translate from a source language into the target language
+   * Detected languages get copies of the engines set to them. Without any
+   * engine for the pair, detected languages use the configured source and
+   * the configured source uses every engine.
+   */
+  private getEnginesFor(lang: string): BaseEngine[] {
+    if (!this.enginesBySource[lang]) {
+      const engines: BaseEngine[] = [];
+      this.engines.forEach((engine, i) => {
+        if (!engine.supportsPair(lang, this.targetLang)) return;
+        engines.push(
+          lang === this.sourceLang
+            ? engine
+            : this.createEngine(
+                this.engineClasses[i],
+                engine.findSourceCode(lang) || lang,
+              ),
+        );
+      });
+
+      if (engines.length > 0) {
+        this.enginesBySource[lang] = engines;
+      } else {
+        this.enginesBySource[lang] =
+          lang === this.sourceLang
+            ? this.engines
+            : this.getEnginesFor(this.sourceLang);
+      }
+    }
+    return this.enginesBySource[lang];
+  }
+
+  /**
+   * Detected language of a text, or null when the source is not detected or
+   * the text is too short to tell
+   */
+  private detectSource(text: string): string | null {
+    if (!this.autoDetect || this.sourceLang !== 'auto') {
+      return null;
+    }
+    return detectLanguage(text.replace(INLINE_TOKEN_REGEX, ''));
+  }
+
+  /**
+   * Group texts by source language
+   * Texts already in the target language are finished as they are and left
+   * out, texts whose language can't be told use the configured source
+   */
+  private groupBySource(
+    texts: string[],
+    job: TranslationJob,
+  ): Record<string, string[]> {
+    const groups: Record<string, string[]> = {};
+    texts.forEach(text => {
+      const lang = this.detectSource(text);
+      if (lang && isSameLanguage(lang, this.targetLang)) {
+        job.finish([text]);
+        return;
+      }
+      const source = lang || this.sourceLang;
+      (groups[source] = groups[source] || []).push(text);
+    });
+    return groups;
+  }
+
+  /**
+   * Translate texts with one engine, packed according to its batch limits
+   */
+  private async batchWithEngine(
+    engine: BaseEngine,
+    texts: string[],
+    job: TranslationJob,
+  ): Promise<string[]> {
+    const results: string[] = [];
+    for (const batch of packBatches(texts, engine.getBatchLimits())) {
+      results.push(...(await this.engineTranslateBatch(engine, batch, job)));
+    }
+    return results;
+  }
+
+  /**
+   * Translate texts with the first engine that succeeds
+   * When an engine fails midway, the remaining texts move to the next one
+   */
+  private async batchWithFallback(
+    engines: BaseEngine[],
+    texts: string[],
+    job: TranslationJob,
+    onTranslated?: TranslatedListener,
+  ): Promise<Record<string, string>> {
+    const translated: Record<string, string> = {};
+    let remaining = texts;
+    let lastError: unknown = null;
+
+    for (const engine of engines) {
+      for (const batch of packBatches(remaining, engine.getBatchLimits())) {
+        try {
+          const results = await this.engineTranslateBatch(engine, batch, job);
+          for (let i = 0; i < batch.length; i++) {
+            translated[batch[i]] = results[i];
+            await this.storeTranslation(
+              batch[i],
+              results[i],
+              engine,
+              onTranslated,
+            );
+          }
+          job.finish(batch);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          lastError = error;
+          this.logUnexpectedError(engine, error);
+          break;
+        }
+      }
+
+      remaining = remaining.filter(text => translated[text] === undefined);
+      if (remaining.length === 0) {
+        return translated;
+      }
+    }
+
+    if (Object.keys(translated).length === 0 && lastError) {
+      throw lastError;
+    }
+    return translated;
+  }
+
+  /**
+   * Stream texts with the first engine, yielding the translations completed
+   * so far. When it fails midway, the remaining texts move to the others.
+   */
+  private async *streamWithFallback(
+    texts: string[],
+    lang: string,
+    job: TranslationJob,
+  ): AsyncGenerator<string[]> {
+    const [engine, ...others] = this.getEngineOrder(lang);
+    let completed: string[] = [];
+
+    try {
+      for await (const results of this.engineTranslateBatchStream(
+        engine,
+        texts,
+        job,
+      )) {
+        completed = results;
+        job.finish(texts.slice(0, results.length));
+        yield results;
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      this.logUnexpectedError(engine, error);
+    } finally {
+      for (let i = 0; i < completed.length; i++) {
+        await this.storeInCache(texts[i], completed[i], engine);
+      }
+    }
+
+    if (completed.length < texts.length) {
+      const remaining = texts.slice(completed.length);
+      const fallback = await this.batchWithFallback(others, remaining, job);
+      yield completed.concat(remaining.map(text => fallback[text]));
+    }
+  }
+
+  /**
+   * Translate texts with every engine in parallel and merge per text
+   */
+  private async batchWithMultipleEngines(
+    texts: string[],
+    lang: string,
+    job: TranslationJob,
+    onTranslated?: TranslatedListener,
+  ): Promise<Record<string, string>> {
+    const resultsByText: Record<string, TranslationResult[]> = {};
+    const engines = this.getEngineOrder(lang);
+
+    await Promise.allSettled(
+      engines.map(async engine => {
+        try {
+          const results = await this.batchWithEngine(engine, texts, job);
+          texts.forEach((text, i) => {
+            if (!results[i]) return;
+            (resultsByText[text] = resultsByText[text] || []).push({
+              text: results[i],
+              engine: engine.name,
+            });
+          });
+        } catch (error) {
+          this.logUnexpectedError(engine, error);
+        }
+      }),
+    );
+    job.check();
+
+    const translated: Record<string, string> = {};
+    const failed: string[] = [];
+
+    for (const text of texts) {
+      const results = resultsByText[text];
+      if (!results || results.length === 0) {
+        failed.push(text);
+        continue;
+      }
+      translated[text] = this.mergeResults(results);
+      await this.storeTranslation(
         text,
-        result,
-        this.sourceLang,
-        this.targetLang,
-        usedEngine.name,
+        translated[text],
+        this.engines[0],
+        onTranslated,
       );
     }
+    job.finish(Object.keys(translated));
 
-    return result;
+    if (failed.length > 0) {
+      // If all engines failed for some texts, fall back to the free engines
+      const freeEngines = engines.filter(e => e.free && !e.selfHosted);
+      const fallback = await this.batchWithFallback(
+        freeEngines,
+        failed,
+        job,
+        onTranslated,
+      ).catch(error => {
+        if (isAbortError(error)) throw error;
+        return {};
+      });
+      Object.assign(translated, fallback);
+    }
+
+    if (Object.keys(translated).length === 0) {
+      throw new Error('All translation engines failed');
+    }
+    return translated;
+  }
+
+  /**
+   * Log errors that are not expected engine failures (missing keys, quota,
+   * network issues...) or cancelled translations
+   */
+  private logUnexpectedError(engine: BaseEngine, error: unknown): void {
+    const engineError = toEngineError(error, engine.name);
+    if (!(engineError instanceof EngineError) || engineError.isExpected()) {
+      return;
+    }
+    console.warn(
+      `Translation failed with ${engine.name} (${engineError.type}):`,
+      engineError.message,
+    );
   }
 
   /**
@@ -114,25 +818,14 @@ export class MultiEngineTranslator {
   private async translateWithEngine(
     engine: BaseEngine,
     text: string,
+    job: TranslationJob,
   ): Promise<string> {
     try {
-      return await engine.translate(text);
+      const [result] = await this.engineTranslateBatch(engine, [text], job);
+      return result;
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      // Silently skip expected errors (API keys, network issues, timeouts)
-      if (
-        errorMessage.includes('API key') ||
-        errorMessage.includes('requires an API key') ||
-        errorMessage.includes('Failed to fetch') ||
-        errorMessage.includes('timeout') ||
-        errorMessage.includes('ERR_INSUFFICIENT_RESOURCES') ||
-        errorMessage.includes('network')
-      ) {
-        throw error;
-      }
       // Only log unexpected errors
-      console.warn(`Translation failed with ${engine.name}:`, errorMessage);
+      this.logUnexpectedError(engine, error);
       throw error;
     }
   }
@@ -140,13 +833,22 @@ export class MultiEngineTranslator {
   /**
    * Translate with multiple engines and merge results
    */
-  private async translateWithMultipleEngines(text: string): Promise<string> {
+  private async translateWithMultipleEngines(
+    text: string,
+    lang: string,
+    job: TranslationJob,
+  ): Promise<string> {
     const results: TranslationResult[] = [];
+    const engines = this.getEngineOrder(lang);
 
     // Translate with all engines in parallel
-    const promises = this.engines.map(async (engine, index) => {
+    const promises = engines.map(async engine => {
       try {
-        const translated = await engine.translate(text);
+        const [translated] = await this.engineTranslateBatch(
+          engine,
+          [text],
+          job,
+        );
         results.push({
           text: translated,
           engine: engine.name,
@@ -154,37 +856,25 @@ export class MultiEngineTranslator {
         return translated;
       } catch (error) {
         // Silently skip engines that require API key but don't have one configured
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        if (
-          errorMessage.includes('API key') ||
-          errorMessage.includes('requires an API key') ||
-          errorMessage.includes('Failed to fetch') ||
-          errorMessage.includes('timeout') ||
-          errorMessage.includes('ERR_INSUFFICIENT_RESOURCES') ||
-          errorMessage.includes('network')
-        ) {
-          // These are expected errors (API keys, network issues, timeouts), don't log
-          return null;
-        }
-        // Only log unexpected errors
-        console.warn(`Translation failed with ${engine.name}:`, errorMessage);
+        this.logUnexpectedError(engine, error);
         return null;
       }
     });
 
     await Promise.allSettled(promises);
+    job.check();
 
     // Filter out failed translations
     const successfulResults = results.filter(r => r.text);
 
     if (successfulResults.length === 0) {
       // If all engines failed, try to use the first free engine as fallback
-      const freeEngine = this.engines.find(e => e.free);
+      const freeEngine = engines.find(e => e.free && !e.selfHosted);
       if (freeEngine) {
         try {
-          return await this.translateWithEngine(freeEngine, text);
-        } catch {
+          return await this.translateWithEngine(freeEngine, text, job);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
           // If even the fallback fails, throw the original error
         }
       }
@@ -199,112 +889,389 @@ export class MultiEngineTranslator {
    * Merge translation results from multiple engines
    */
   private mergeResults(results: TranslationResult[]): string {
-    switch (this.mergeStrategy) {
-      case 'first':
-        // Return first successful result
-        return results[0].text;
+    this.scoreResults(results);
 
+    let segments: MergeSegment[];
+    switch (this.mergeStrategy) {
       case 'vote':
-        // Return most common translation (simplified - just return first for now)
-        // TODO: Implement actual voting mechanism
-        return results[0].text;
+        segments = this.voteResults(results);
+        break;
 
       case 'average':
-        // Return first result (simplified)
-        // TODO: Implement averaging mechanism
-        return results[0].text;
+        segments = this.averageResults(results);
+        break;
 
+      case 'first':
       default:
-        return results[0].text;
+        // Return first successful result
+        segments = [
+          {
+            text: results[0].text,
+            engine: results[0].engine,
+            confidence: results[0].confidence ?? 1,
+          },
+        ];
     }
+
+    this.mergeReports.push({
+      strategy: this.mergeStrategy,
+      results,
+      segments,
+    });
+
+    return segments.map(segment => segment.text).join('');
+  }
+
+  /**
+   * Set each result's confidence to its mean similarity with the other engines
+   */
+  private scoreResults(results: TranslationResult[]): void {
+    results.forEach((result, i) => {
+      if (results.length === 1) {
+        result.confidence = 1;
+        return;
+      }
+
+      let total = 0;
+      results.forEach((other, j) => {
+        if (i !== j) {
+          total += sentenceSimilarity(result.text, other.text);
+        }
+      });
+      result.confidence = total / (results.length - 1);
+    });
+  }
+
+  /**
+   * Pick the candidate that agrees the most with the other engines
+   */
+  private voteResults(results: TranslationResult[]): MergeSegment[] {
+    const winner = results.reduce((best, result) =>
+      (result.confidence ?? 0) > (best.confidence ?? 0) ? result : best,
+    );
+
+    return [
+      {
+        text: winner.text,
+        engine: winner.engine,
+        confidence: winner.confidence ?? 0,
+      },
+    ];
+  }
+
+  /**
+   * Build a sentence-by-sentence consensus
+   * The vote winner gives the sentence layout, and every sentence is replaced
+   * with the engine's version that agrees the most with the other engines
+   */
+  private averageResults(results: TranslationResult[]): MergeSegment[] {
+    const [skeleton] = this.voteResults(results);
+    const skeletonResult =
+      results.find(result => result.engine === skeleton.engine) || results[0];
+    const sentencesByEngine = results.map(result => ({
+      engine: result.engine,
+      sentences: splitSentences(result.text),
+    }));
+
+    const skeletonSentences = splitSentences(skeletonResult.text);
+    if (skeletonSentences.length === 0) {
+      return [skeleton];
+    }
+
+    return skeletonSentences.map(sentence => {
+      // Each engine's closest sentence to this position
+      const candidates = sentencesByEngine
+        .map(({ engine, sentences }) => {
+          const match =
+            engine === skeletonResult.engine
+              ? { index: sentences.findIndex(s => s.text === sentence.text) }
+              : bestSentenceMatch(sentence.text, sentences);
+          return match.index === -1
+            ? null
+            : { engine, text: sentences[match.index].text };
+        })
+        .filter(
+          (candidate): candidate is { engine: string; text: string } =>
+            candidate !== null,
+        );
+
+      let best: MergeSegment = {
+        text: sentence.text,
+        engine: skeletonResult.engine,
+        confidence: 0,
+      };
+
+      candidates.forEach((candidate, i) => {
+        let total = 0;
+        candidates.forEach((other, j) => {
+          if (i !== j) {
+            total += stringSimilarity(candidate.text, other.text);
+          }
+        });
+        const confidence =
+          candidates.length > 1 ? total / (candidates.length - 1) : 1;
+
+        if (confidence > best.confidence) {
+          best = { ...candidate, confidence };
+        }
+      });
+
+      return { ...best, text: best.text + sentence.separator };
+    });
+  }
+
+  /**
+   * Get merge reports collected since the last call to clearMergeReports
+   */
+  getMergeReports(): MergeReport[] {
+    return this.mergeReports;
+  }
+
+  /**
+   * Forget collected merge reports
+   */
+  clearMergeReports(): void {
+    this.mergeReports = [];
   }
 
   /**
    * Translate HTML content while preserving structure
+   * Text is split into segments that are written back into the DOM tree,
+   * so repeated phrases, entities and attributes are never touched
+   */
+  async translateHtml(
+    html: string,
+    options?: TranslateOptions,
+  ): Promise<string> {
+    let result = html;
+    for await (const progress of this.translateHtmlStream(html, options)) {
+      result = progress.html;
+    }
+    return result;
+  }
+
+  /**
+   * Translate HTML content, keeping each original block followed by its
+   * translation (see SegmentedHtml.interleave)
    */
-  async translateHtml(html: string): Promise<string> {
-    // Extract text nodes from HTML
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
+  async translateHtmlBilingual(
+    html: string,
+    options?: TranslateOptions,
+  ): Promise<string> {
+    let translations: Record<string, string> = {};
+    for await (const progress of this.translateHtmlStream(html, options)) {
+      translations = progress.translations;
+    }
+    const segmented = canSegmentHtml() ? new SegmentedHtml(html) : null;
+    return segmented && segmented.isValid()
+      ? segmented.interleave(translations)
+      : html;
+  }
 
-    // Find all text nodes
-    const textNodes: Text[] = [];
-    if (!doc.body) {
+  /**
+   * Translate HTML content progressively
+   * Yields the partially translated HTML each time more segments are ready,
+   * the last value holds the whole translation. Segments that fail keep
+   * their original text; cancelling the signal throws an AbortError.
+   */
+  async *translateHtmlStream(
+    html: string,
+    options?: TranslateOptions,
+  ): AsyncGenerator<TranslationProgress> {
+    const job = new TranslationJob(options);
+    job.watch(this.engines);
+    try {
+      job.check();
+      yield* this.streamHtml(html, job);
+    } finally {
+      job.unwatch();
+    }
+  }
+
+  private async *streamHtml(
+    html: string,
+    job: TranslationJob,
+  ): AsyncGenerator<TranslationProgress> {
+    // Without a DOM (Android) the markup is tokenized instead
+    const segmented = segmentHtml(html);
+    if (!segmented || !segmented.isValid()) {
       // Fallback if body is not available
-      return await this.translate(html);
+      job.addTexts([html]);
+      const translated = await this.translateText(html, job);
+      yield { ...job.getEvent(), html: translated, translations: {} };
+      return;
     }
 
-    const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT, null);
+    const segments = segmented.segments;
+    const texts = segments.map(segment => segment.source);
+    // Translations by source text, so repeated segments are sent once
+    const translated: Record<string, string> = {};
+    const applied: Record<string, boolean> = {};
+    job.addTexts(texts);
+
+    const progress = (): TranslationProgress => {
+      const translations: Record<string, string> = {};
+      const updates: Record<string, string> = {};
+      segments.forEach(segment => {
+        const translation = translated[segment.source];
+        if (translation === undefined) return;
+        translations[segment.id] = translation;
+        if (!applied[segment.id]) {
+          updates[segment.id] = translation;
+          applied[segment.id] = true;
+        }
+      });
+      return {
+        ...job.getEvent(),
+        html: segmented.apply(updates),
+        translations,
+      };
+    };
 
-    let node: Node | null;
-    while ((node = walker.nextNode())) {
-      if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
-        textNodes.push(node as Text);
+    for (const text of texts) {
+      if (translated[text] !== undefined) continue;
+      const cached = text.trim() ? await this.getCached(text) : text;
+      if (cached) {
+        translated[text] = cached;
+        job.finish([text]);
       }
     }
+    yield progress();
+
+    if (
+      this.contextMode &&
+      (await this.translateChapterWithContext(texts, translated, job))
+    ) {
+      yield progress();
+      return;
+    }
+
+    const pending = texts.filter(
+      (text, i) => translated[text] === undefined && texts.indexOf(text) === i,
+    );
+    const single = !this.useMultipleEngines || this.engines.length === 1;
+    const groups = this.groupBySource(pending, job);
 
-    // Translate each text node with limited concurrency to avoid overwhelming the browser
-    // When translating many nodes, use sequential processing instead of parallel
-    const MAX_CONCURRENT_TRANSLATIONS = textNodes.length > 20 ? 1 : 3;
-    const translations: Array<{ original: string; translated: string }> = [];
-
-    for (let i = 0; i < textNodes.length; i += MAX_CONCURRENT_TRANSLATIONS) {
-      const batch = textNodes.slice(i, i + MAX_CONCURRENT_TRANSLATIONS);
-      const batchTranslations = await Promise.all(
-        batch.map(async node => {
-          const original = node.textContent || '';
-          if (!original.trim()) return { original, translated: original };
-
-          try {
-            // When translating many nodes, use single engine to reduce load
-            const useSingleEngine = textNodes.length > 10;
-            let translated: string = original;
-
-            if (useSingleEngine) {
-              // Try free engines one by one until one succeeds
-              const freeEngines = this.engines.filter(e => e.free);
-              let lastError: Error | null = null;
-              for (const engine of freeEngines.length > 0
-                ? freeEngines
-                : this.engines) {
-                try {
-                  translated = await this.translateWithEngine(engine, original);
-                  break;
-                } catch (err) {
-                  lastError =
-                    err instanceof Error ? err : new Error(String(err));
-                  continue;
+    for (const lang of Object.keys(groups)) {
+      const [engine] = this.getEngineOrder(lang);
+
+      for (const batch of packBatches(groups[lang], engine.getBatchLimits())) {
+        job.check();
+        try {
+          if (single) {
+            for await (const results of this.streamWithFallback(
+              batch,
+              lang,
+              job,
+            )) {
+              results.forEach((result, i) => {
+                if (result !== undefined) {
+                  translated[batch[i]] = result;
                 }
-              }
-              if (translated === original && lastError) {
-                throw lastError;
-              }
-            } else {
-              translated = await this.translate(original);
+              });
+              yield progress();
             }
-
-            return { original, translated };
-          } catch (error) {
-            // Return original text if translation fails
-            return { original, translated: original };
+          } else {
+            const results = await this.translateTexts(batch, job);
+            batch.forEach((text, i) => {
+              translated[text] = results[i];
+            });
           }
-        }),
-      );
-      translations.push(...batchTranslations);
-
-      // Add small delay between batches to avoid overwhelming the browser
-      if (i + MAX_CONCURRENT_TRANSLATIONS < textNodes.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          // Keep original text if translation fails
+        }
+        yield progress();
       }
     }
+  }
 
-    // Replace text in original HTML
-    let translatedHtml = html;
-    translations.forEach(({ original, translated }) => {
-      translatedHtml = translatedHtml.replace(original, translated);
+  /**
+   * Translate the texts of a chapter missing from translated with the first
+   * LLM engine that succeeds, giving it the rolling summary of the previous
+   * chapters of the novel. Texts already in the target language are kept.
+   * Returns false when no LLM engine could translate them
+   */
+  private async translateChapterWithContext(
+    texts: string[],
+    translated: Record<string, string>,
+    job: TranslationJob,
+  ): Promise<boolean> {
+    const missing = texts.filter(
+      (text, i) =>
+        translated[text] === undefined &&
+        text.trim() !== '' &&
+        texts.indexOf(text) === i,
+    );
+    // Texts left out of every group are already in the target language
+    const groups = this.groupBySource(missing, job);
+    const grouped: Record<string, boolean> = {};
+    Object.keys(groups).forEach(lang =>
+      groups[lang].forEach(text => (grouped[text] = true)),
+    );
+    const pending: string[] = [];
+    missing.forEach(text => {
+      if (grouped[text]) {
+        pending.push(text);
+      } else {
+        translated[text] = text;
+      }
     });
+    if (pending.length === 0) {
+      return true;
+    }
 
-    return translatedHtml;
+    const summary = novelSummaryStore.get(this.scope)?.summary || '';
+    const llmEngines = this.getEngineOrder().filter(
+      (engine): engine is LlmEngine => engine instanceof LlmEngine,
+    );
+
+    for (const engine of llmEngines) {
+      try {
+        job.check();
+        job.useEngine(engine);
+        const results = await this.callEngine(engine, () =>
+          engine.translateChapter(pending, summary, job.signal),
+        );
+        for (let i = 0; i < pending.length; i++) {
+          translated[pending[i]] = results[i];
+          await this.storeInCache(pending[i], results[i], engine);
+        }
+        job.finish(pending);
+        // The summary is only needed by the next chapter, don't wait for it
+        this.updateSummary(engine, texts, summary);
+        return true;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        this.logUnexpectedError(engine, error);
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Fold the current chapter into the novel summary
+   */
+  private async updateSummary(
+    engine: LlmEngine,
+    texts: string[],
+    summary: string,
+  ): Promise<void> {
+    const chapterPath = this.chapterPath;
+    if (!chapterPath || novelSummaryStore.hasChapter(this.scope, chapterPath)) {
+      return;
+    }
+
+    try {
+      const chapterText = texts.join('\n').replace(INLINE_TOKEN_REGEX, '');
+      const updated = await this.callEngine(engine, () =>
+        engine.summarize(chapterText, summary),
+      );
+      novelSummaryStore.set(this.scope, updated, chapterPath);
+    } catch (error) {
+      this.logUnexpectedError(engine, error);
+    }
   }
 
   /**
@@ -313,6 +1280,7 @@ export class MultiEngineTranslator {
   setSourceLang(lang: string): void {
     this.sourceLang = lang;
     this.engines.forEach(engine => engine.setSourceLang(lang));
+    this.enginesBySource = {};
   }
 
   /**
@@ -321,6 +1289,31 @@ export class MultiEngineTranslator {
   setTargetLang(lang: string): void {
     this.targetLang = lang;
     this.engines.forEach(engine => engine.setTargetLang(lang));
+    this.enginesBySource = {};
+  }
+
+  /**
+   * Set the chapter being translated and whether context mode is used
+   */
+  setChapterContext(contextMode: boolean, chapterPath?: string): void {
+    this.contextMode = contextMode;
+    this.chapterPath = chapterPath;
+  }
+
+  /**
+   * Set the glossary terms enforced on every engine
+   */
+  setGlossary(terms: GlossaryTerm[]): void {
+    this.glossary = terms;
+    this.engines.forEach(engine => engine.setGlossary(terms));
+    this.enginesBySource = {};
+  }
+
+  /**
+   * Set the novel/plugin translations are cached for
+   */
+  setScope(scope?: CacheScope): void {
+    this.scope = scope;
   }
 
   /**
@@ -344,6 +1337,12 @@ export function createTranslator(
     sourceLang: config?.sourceLang || 'auto',
     useMultipleEngines: config?.useMultipleEngines ?? true,
     mergeStrategy: config?.mergeStrategy || 'first',
+    scope: config?.scope,
+    glossary: config?.glossary,
+    contextMode: config?.contextMode,
+    chapterPath: config?.chapterPath,
     config: config?.config,
+    engineConfigs: config?.engineConfigs,
+    detectLanguage: config?.detectLanguage,
   });
 }
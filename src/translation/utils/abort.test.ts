@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { anySignal } from './abort';
+
+describe('anySignal', () => {
+  it('aborts with the reason of the first signal that aborts', () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const { signal } = anySignal([first.signal, undefined, second.signal]);
+
+    second.abort('stopped');
+
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe('stopped');
+  });
+
+  it('starts aborted when a signal already is', () => {
+    const aborted = new AbortController();
+    aborted.abort('before');
+
+    expect(anySignal([aborted.signal]).signal.reason).toBe('before');
+  });
+
+  it('stops listening to the other signals once it aborts', () => {
+    const job = new AbortController();
+    const request = new AbortController();
+    const remove = vi.spyOn(job.signal, 'removeEventListener');
+
+    anySignal([job.signal, request.signal]);
+    request.abort();
+
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('stops listening to the signals once disposed', () => {
+    const job = new AbortController();
+    const add = vi.spyOn(job.signal, 'addEventListener');
+    const remove = vi.spyOn(job.signal, 'removeEventListener');
+
+    for (let i = 0; i < 3; i++) {
+      anySignal([job.signal]).dispose();
+    }
+    const { signal, dispose } = anySignal([job.signal]);
+    dispose();
+    job.abort();
+
+    expect(remove).toHaveBeenCalledTimes(add.mock.calls.length);
+    expect(signal.aborted).toBe(false);
+  });
+});
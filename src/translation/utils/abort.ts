@@ -0,0 +1,108 @@
+/**
+ * Cancellation helpers
+ * Translations can be cancelled through an AbortSignal at any point
+ */
+
+export type CombinedSignal = {
+  signal: AbortSignal;
+  // Stop listening to the given signals, once the work using it is done
+  dispose: () => void;
+};
+
+/**
+ * Signal that aborts as soon as any of the given signals does
+ * Its listeners are removed when it aborts or is disposed, so long-lived
+ * signals (a chapter or export job) don't keep one for every request
+ */
+export function anySignal(
+  signals: (AbortSignal | null | undefined)[],
+): CombinedSignal {
+  const controller = new AbortController();
+  const listeners: { signal: AbortSignal; onAbort: () => void }[] = [];
+  const dispose = () => {
+    listeners.forEach(({ signal, onAbort }) =>
+      signal.removeEventListener('abort', onAbort),
+    );
+    listeners.length = 0;
+  };
+
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      dispose();
+      controller.abort(signal.reason);
+      break;
+    }
+    const onAbort = () => {
+      dispose();
+      controller.abort(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    listeners.push({ signal, onAbort });
+  }
+
+  return { signal: controller.signal, dispose };
+}
+
+/**
+ * Signal that aborts with a TimeoutError after a number of milliseconds
+ * AbortSignal.timeout is missing from some runtimes (React Native)
+ */
+export function timeoutSignal(ms: number): AbortSignal {
+  if (typeof AbortSignal.timeout === 'function') {
+    return AbortSignal.timeout(ms);
+  }
+
+  const controller = new AbortController();
+  setTimeout(() => {
+    const error = new Error('The operation timed out');
+    error.name = 'TimeoutError';
+    controller.abort(error);
+  }, ms);
+  return controller.signal;
+}
+
+/**
+ * Whether an error comes from a cancelled translation
+ * Timeouts raise a TimeoutError instead and are not cancellations
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as Error | null)?.name === 'AbortError';
+}
+
+/**
+ * Throw an AbortError if the translation was cancelled
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortError();
+  }
+}
+
+function abortError(): Error {
+  const error = new Error('Translation cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting with an AbortError if the
+ * translation is cancelled meanwhile
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
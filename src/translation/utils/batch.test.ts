@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { packLines, splitText } from './batch';
+
+describe('packLines', () => {
+  it('packs texts in order into blocks of at most maxChars', () => {
+    const blocks = packLines(['aaaa', 'bbbb', 'cc', 'dddddd', 'e'], 10);
+
+    expect(blocks).toEqual([['aaaa', 'bbbb'], ['cc', 'dddddd'], ['e']]);
+    blocks.forEach(block =>
+      expect(block.join('\n').length).toBeLessThanOrEqual(10),
+    );
+  });
+
+  it('counts the line breaks joining a block', () => {
+    expect(packLines(['aaaaa', 'bbbbb'], 10)).toEqual([['aaaaa'], ['bbbbb']]);
+    expect(packLines(['aaaa', 'bbbbb'], 10)).toEqual([['aaaa', 'bbbbb']]);
+  });
+
+  it('gives longer texts a block of their own', () => {
+    expect(packLines(['a', 'x'.repeat(20), 'b'], 10)).toEqual([
+      ['a'],
+      ['x'.repeat(20)],
+      ['b'],
+    ]);
+  });
+
+  it('returns no blocks without texts', () => {
+    expect(packLines([], 10)).toEqual([]);
+  });
+});
+
+describe('splitText', () => {
+  it('keeps texts that fit in a single chunk', () => {
+    expect(splitText('Short text.', 20)).toEqual(['Short text.']);
+    expect(splitText('', 20)).toEqual(['']);
+  });
+
+  it('cuts after the last sentence that fits', () => {
+    const text = 'First one. Second one! Third one? Fourth.';
+
+    expect(splitText(text, 25)).toEqual([
+      'First one. Second one! ',
+      'Third one? Fourth.',
+    ]);
+  });
+
+  it('keeps closing quotes with their sentence', () => {
+    expect(splitText('"Run." He ran away fast.', 12)).toEqual([
+      '"Run." ',
+      'He ran away ',
+      'fast.',
+    ]);
+  });
+
+  it('cuts after CJK full stops', () => {
+    expect(splitText('今日は晴れ。明日は雨です。', 8)).toEqual([
+      '今日は晴れ。',
+      '明日は雨です。',
+    ]);
+  });
+
+  it('falls back to whitespace, then to the limit', () => {
+    expect(splitText('one two three four', 10)).toEqual([
+      'one two ',
+      'three four',
+    ]);
+    expect(splitText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('gives back the text when the chunks are joined', () => {
+    const text = 'A sentence that ends here. '.repeat(50) + 'Tail';
+    const chunks = splitText(text, 100);
+
+    expect(chunks.join('')).toBe(text);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(100));
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Batch packing utility
+ * Groups texts into as few requests as an engine's limits allow, and splits
+ * texts too long for a single request
+ */
+
+import { BatchLimits } from '../engines/base';
+
+/**
+ * Pack texts into batches, keeping their order
+ * A text longer than maxChars gets a batch of its own
+ */
+export function packBatches(texts: string[], limits: BatchLimits): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let currentChars = 0;
+
+  texts.forEach(text => {
+    const fits =
+      current.length < limits.maxSegments &&
+      currentChars + text.length <= limits.maxChars;
+
+    if (current.length > 0 && !fits) {
+      batches.push(current);
+      current = [];
+      currentChars = 0;
+    }
+
+    current.push(text);
+    currentChars += text.length;
+  });
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+/**
+ * Pack short texts into blocks sent as a single text, one per line, keeping
+ * their order. Joined with line breaks, a block is at most maxChars long
+ * unless it holds a single longer text
+ */
+export function packLines(texts: string[], maxChars: number): string[][] {
+  const blocks: string[][] = [];
+  let current: string[] = [];
+  let currentChars = 0;
+
+  texts.forEach(text => {
+    if (current.length > 0 && currentChars + 1 + text.length > maxChars) {
+      blocks.push(current);
+      current = [];
+      currentChars = 0;
+    }
+
+    currentChars += (current.length > 0 ? 1 : 0) + text.length;
+    current.push(text);
+  });
+
+  if (current.length > 0) {
+    blocks.push(current);
+  }
+
+  return blocks;
+}
+
+// Sentence end followed by whitespace, or a CJK full stop
+const SENTENCE_END_REGEX = /[.!?…]+["'”’»)\]]*\s+|[。！？]+[」』”’）]*/g;
+
+/**
+ * End of the last match of a global regex in the text, -1 without one
+ */
+function lastMatchEnd(text: string, regex: RegExp): number {
+  let end = -1;
+  let match: RegExpExecArray | null;
+  regex.lastIndex = 0;
+  while ((match = regex.exec(text))) {
+    end = match.index + match[0].length;
+  }
+  return end;
+}
+
+/**
+ * Split a text into chunks of at most maxChars characters, cut after the
+ * last sentence that fits, else at whitespace, and mid-word only as a last
+ * resort. Joining the chunks gives back the text
+ */
+export function splitText(text: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxChars) {
+    const head = rest.substring(0, maxChars);
+    let cut = lastMatchEnd(head, SENTENCE_END_REGEX);
+    if (cut <= 0) {
+      cut = lastMatchEnd(head, /\s+/g);
+    }
+    if (cut <= 0) {
+      cut = maxChars;
+    }
+    chunks.push(rest.substring(0, cut));
+    rest = rest.substring(cut);
+  }
+
+  chunks.push(rest);
+  return chunks;
+}
@@ -0,0 +1,131 @@
+/**
+ * Text similarity helpers
+ * Used to compare the outputs of different engines when merging results
+ */
+
+export type Sentence = {
+  text: string;
+  // Whitespace that followed the sentence in the original text
+  separator: string;
+};
+
+// Sentence terminators for Latin and CJK scripts, including closing quotes
+const SENTENCE_REGEX = /[^.!?。！？…]*(?:[.!?。！？…]+["'”’」』)\]]*|$)(\s*)/g;
+
+/**
+ * Split text into sentences, keeping the whitespace between them
+ */
+export function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  let match: RegExpExecArray | null;
+
+  SENTENCE_REGEX.lastIndex = 0;
+  while ((match = SENTENCE_REGEX.exec(text))) {
+    if (!match[0]) {
+      SENTENCE_REGEX.lastIndex++;
+      continue;
+    }
+    const separator = match[1] || '';
+    const sentence = match[0].substring(0, match[0].length - separator.length);
+    if (sentence.trim()) {
+      sentences.push({ text: sentence, separator });
+    } else if (sentences.length > 0) {
+      sentences[sentences.length - 1].separator += match[0];
+    }
+  }
+
+  return sentences;
+}
+
+/**
+ * Character bigrams of a normalized string
+ * Bigrams work for both space-separated and CJK languages
+ */
+function getBigrams(text: string): Map<string, number> {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const bigrams = new Map<string, number>();
+
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const bigram = normalized.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  return bigrams;
+}
+
+/**
+ * Dice coefficient between two strings (0 = unrelated, 1 = identical)
+ */
+export function stringSimilarity(a: string, b: string): number {
+  if (a.trim() === b.trim()) {
+    return 1;
+  }
+
+  const bigramsA = getBigrams(a);
+  const bigramsB = getBigrams(b);
+  let totalA = 0;
+  let totalB = 0;
+  let intersection = 0;
+
+  bigramsA.forEach(count => (totalA += count));
+  bigramsB.forEach((count, bigram) => {
+    totalB += count;
+    intersection += Math.min(count, bigramsA.get(bigram) || 0);
+  });
+
+  if (totalA + totalB === 0) {
+    return 0;
+  }
+
+  return (2 * intersection) / (totalA + totalB);
+}
+
+/**
+ * Best similarity between a sentence and any sentence of another text
+ */
+export function bestSentenceMatch(
+  sentence: string,
+  candidates: Sentence[],
+): { index: number; score: number } {
+  let best = { index: -1, score: 0 };
+
+  candidates.forEach((candidate, index) => {
+    const score = stringSimilarity(sentence, candidate.text);
+    if (score > best.score) {
+      best = { index, score };
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Sentence-level similarity between two texts
+ * Every sentence of `a` is matched against its closest sentence in `b`
+ * and the scores are averaged, weighted by sentence length
+ */
+export function sentenceSimilarity(a: string, b: string): number {
+  const sentencesA = splitSentences(a);
+  const sentencesB = splitSentences(b);
+
+  if (sentencesA.length === 0 || sentencesB.length === 0) {
+    return stringSimilarity(a, b);
+  }
+
+  let weightedScore = 0;
+  let totalWeight = 0;
+
+  sentencesA.forEach(sentence => {
+    const weight = sentence.text.length;
+    weightedScore +=
+      bestSentenceMatch(sentence.text, sentencesB).score * weight;
+    totalWeight += weight;
+  });
+
+  // Penalize outputs that dropped or invented sentences
+  const countRatio =
+    Math.min(sentencesA.length, sentencesB.length) /
+    Math.max(sentencesA.length, sentencesB.length);
+
+  return totalWeight > 0 ? (weightedScore / totalWeight) * countRatio : 0;
+}
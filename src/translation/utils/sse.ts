@@ -0,0 +1,73 @@
+/**
+ * Server-sent events reader
+ * Used by LLM engines to receive answers while they are being generated
+ */
+
+/**
+ * Read the data of each event of an SSE response
+ * Stops at the end of the stream or at an OpenAI-style [DONE] event
+ */
+export async function* readSseData(response: Response): AsyncGenerator<string> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('Streaming not supported');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+
+      // The last line may be incomplete until the next chunk arrives
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() || '';
+      if (done) {
+        lines.push('');
+      }
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          data.push(line.substring(5).replace(/^ /, ''));
+        } else if (line === '' && data.length > 0) {
+          // A blank line ends the event
+          const payload = data.join('\n');
+          data = [];
+          if (payload === '[DONE]') {
+            return;
+          }
+          yield payload;
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    // Stop the download when the consumer gives up early
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Read the JSON data of each event of an SSE response, shaped as the API
+ * documents its events (T). Events that are not valid JSON (keep-alive
+ * comments...) are skipped
+ */
+export async function* readSseJson<T>(response: Response): AsyncGenerator<T> {
+  for await (const payload of readSseData(response)) {
+    let data: T;
+    try {
+      data = JSON.parse(payload);
+    } catch {
+      continue;
+    }
+    yield data;
+  }
+}
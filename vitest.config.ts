@@ -0,0 +1,19 @@
+import { defineConfig } from 'vitest/config';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// The dev server plugins and proxy are left out, tests only need the aliases
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(dirname, './src'),
+      '@plugins': path.resolve(dirname, './plugins'),
+      '@libs': path.resolve(dirname, './src/libs'),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});